@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Catalog data files are read from disk at runtime, so ship them with the API routes
+  outputFileTracingIncludes: {
+    "/api/**/*": ["./src/app/data/**/*"],
+  },
 };
 
 export default nextConfig;
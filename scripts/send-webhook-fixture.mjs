@@ -0,0 +1,46 @@
+/**
+ * Sends a signed email webhook fixture to a running dev server
+ *
+ * Usage:
+ *   RESEND_WEBHOOK_SECRET=whsec_... node scripts/send-webhook-fixture.mjs <event> <messageId> [url]
+ *
+ * <event> is a fixture name in fixtures/webhooks (e.g. email.delivered).
+ * <messageId> replaces the fixture's email_id; use a guide's messageId from
+ * GET /api/guides. The payload is signed with the current time the same way
+ * Resend signs real webhooks.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const [event, messageId, url = 'http://localhost:3000/api/webhooks/email'] = process.argv.slice(2);
+const secret = process.env.RESEND_WEBHOOK_SECRET;
+
+if (!event || !messageId || !secret) {
+  console.error('Usage: RESEND_WEBHOOK_SECRET=whsec_... node scripts/send-webhook-fixture.mjs <event> <messageId> [url]');
+  process.exit(1);
+}
+
+const fixturePath = path.join(process.cwd(), 'fixtures', 'webhooks', `${event}.json`);
+const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+fixture.data.email_id = messageId;
+
+const payload = JSON.stringify(fixture);
+const id = `msg_${crypto.randomUUID().replace(/-/g, '')}`;
+const sentAt = String(Math.floor(Date.now() / 1000));
+const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+const signature = crypto.createHmac('sha256', key).update(`${id}.${sentAt}.${payload}`).digest('base64');
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'svix-id': id,
+    'svix-timestamp': sentAt,
+    'svix-signature': `v1,${signature}`,
+  },
+  body: payload,
+});
+
+console.log(response.status, await response.text());
@@ -0,0 +1,104 @@
+/**
+ * API Endpoint: /api/account-executives/:id
+ *
+ * GET returns one directory AE (any API key with the "generate" scope).
+ * PATCH changes fields (null clears an optional one) and DELETE removes the
+ * AE; both require "Authorization: Bearer <ADMIN_TOKEN>".
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { AccountExecutiveRecord, AccountExecutiveErrorResponse } from '../../../types';
+import { authenticateApiKey, verifyAdminToken } from '../../../lib/api-keys';
+import {
+  deleteAccountExecutive,
+  getAccountExecutive,
+  updateAccountExecutive
+} from '../../../lib/account-executives';
+import { validateAccountExecutivePatch } from '../../../lib/validation';
+
+type AccountExecutiveResponse = { success: true; accountExecutive: AccountExecutiveRecord } | AccountExecutiveErrorResponse;
+
+/**
+ * Builds the 404 response for an unknown AE
+ * @param id - Requested AE ID
+ * @returns Error response
+ */
+function notFound(id: string): NextResponse<AccountExecutiveErrorResponse> {
+  return NextResponse.json(
+    { success: false, error: `Account executive not found: ${id}` },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET handler for /api/account-executives/:id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<AccountExecutiveResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const accountExecutive = getAccountExecutive(id);
+
+  return accountExecutive ? NextResponse.json({ success: true, accountExecutive }) : notFound(id);
+}
+
+/**
+ * PATCH handler for /api/account-executives/:id
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<AccountExecutiveResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateAccountExecutivePatch(body);
+  if (!validation.isValid) {
+    return NextResponse.json(
+      { success: false, error: validation.error!, fieldErrors: validation.fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const { id } = await params;
+  const accountExecutive = await updateAccountExecutive(id, validation.data!);
+
+  return accountExecutive ? NextResponse.json({ success: true, accountExecutive }) : notFound(id);
+}
+
+/**
+ * DELETE handler for /api/account-executives/:id
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<AccountExecutiveResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  const { id } = await params;
+  const accountExecutive = await deleteAccountExecutive(id);
+
+  return accountExecutive ? NextResponse.json({ success: true, accountExecutive }) : notFound(id);
+}
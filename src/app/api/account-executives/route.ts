@@ -0,0 +1,62 @@
+/**
+ * API Endpoint: /api/account-executives
+ *
+ * GET lists the AE directory (any API key with the "generate" scope); POST
+ * adds an AE and requires "Authorization: Bearer <ADMIN_TOKEN>". Guide
+ * requests reference a directory AE with "aeId".
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { AccountExecutiveRecord, AccountExecutiveErrorResponse } from '../../types';
+import { authenticateApiKey, verifyAdminToken } from '../../lib/api-keys';
+import { createAccountExecutive, listAccountExecutives } from '../../lib/account-executives';
+import { validateAccountExecutive } from '../../lib/validation';
+
+/**
+ * GET handler for /api/account-executives
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; accountExecutives: AccountExecutiveRecord[] } | AccountExecutiveErrorResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  return NextResponse.json({ success: true, accountExecutives: listAccountExecutives() });
+}
+
+/**
+ * POST handler for /api/account-executives
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; accountExecutive: AccountExecutiveRecord } | AccountExecutiveErrorResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateAccountExecutive(body);
+  if (!validation.isValid) {
+    return NextResponse.json(
+      { success: false, error: validation.error!, fieldErrors: validation.fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const accountExecutive = await createAccountExecutive(validation.data!);
+
+  return NextResponse.json({ success: true, accountExecutive }, { status: 201 });
+}
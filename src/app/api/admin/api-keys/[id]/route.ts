@@ -0,0 +1,35 @@
+/**
+ * API Endpoint: DELETE /api/admin/api-keys/:id
+ *
+ * Revokes an API key. Requires "Authorization: Bearer <ADMIN_TOKEN>".
+ * Revoked keys stay listed with their revocation time.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiKeySummary, GenerateGuideErrorResponse } from '../../../../types';
+import { revokeApiKey, verifyAdminToken } from '../../../../lib/api-keys';
+
+/**
+ * DELETE handler for /api/admin/api-keys/:id
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<{ success: true; apiKey: ApiKeySummary } | GenerateGuideErrorResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  const { id } = await params;
+  const apiKey = await revokeApiKey(id);
+
+  if (!apiKey) {
+    return NextResponse.json(
+      { success: false, error: `API key not found: ${id}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, apiKey });
+}
@@ -0,0 +1,61 @@
+/**
+ * API Endpoint: /api/admin/api-keys
+ *
+ * GET lists API keys (without secrets); POST issues a new key and returns it
+ * once. Both require "Authorization: Bearer <ADMIN_TOKEN>".
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  ApiKeySummary,
+  GenerateGuideErrorResponse,
+  IssueApiKeyRequest,
+  IssueApiKeySuccessResponse
+} from '../../../types';
+import { issueApiKey, listApiKeys, validateIssueApiKeyRequest, verifyAdminToken } from '../../../lib/api-keys';
+
+/**
+ * GET handler for /api/admin/api-keys
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; apiKeys: ApiKeySummary[] } | GenerateGuideErrorResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  return NextResponse.json({ success: true, apiKeys: await listApiKeys() });
+}
+
+/**
+ * POST handler for /api/admin/api-keys
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<IssueApiKeySuccessResponse | GenerateGuideErrorResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  let body: Partial<IssueApiKeyRequest>;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateIssueApiKeyRequest(body ?? {});
+  if (!validation.isValid) {
+    return NextResponse.json({ success: false, error: validation.error! }, { status: 400 });
+  }
+
+  const { key, apiKey } = await issueApiKey(body as IssueApiKeyRequest);
+
+  return NextResponse.json({ success: true, key, apiKey }, { status: 201 });
+}
@@ -0,0 +1,88 @@
+/**
+ * API Endpoint: /api/admin/suppressions
+ *
+ * Manages the email suppression list. GET lists suppressed addresses, POST
+ * adds one manually ({ "email", "detail"? }) and DELETE ?email=... removes
+ * one so it can be emailed again. All require
+ * "Authorization: Bearer <ADMIN_TOKEN>".
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { GenerateGuideErrorResponse, SuppressionEntry } from '../../../types';
+import { isValidEmail } from '../../../lib/utils';
+import { verifyAdminToken } from '../../../lib/api-keys';
+import { addSuppression, listSuppressions, removeSuppression } from '../../../lib/suppressions';
+
+/**
+ * GET handler for /api/admin/suppressions
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; suppressions: SuppressionEntry[] } | GenerateGuideErrorResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  return NextResponse.json({ success: true, suppressions: await listSuppressions() });
+}
+
+/**
+ * POST handler for /api/admin/suppressions
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; suppression: SuppressionEntry } | GenerateGuideErrorResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  let body: { email?: unknown; detail?: unknown };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof body?.email !== 'string' || !isValidEmail(body.email.trim())) {
+    return NextResponse.json({ success: false, error: 'Invalid email format' }, { status: 400 });
+  }
+
+  const suppression = await addSuppression(body.email, 'manual', {
+    detail: typeof body.detail === 'string' ? body.detail : undefined,
+  });
+
+  return NextResponse.json({ success: true, suppression }, { status: 201 });
+}
+
+/**
+ * DELETE handler for /api/admin/suppressions?email=...
+ */
+export async function DELETE(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; suppression: SuppressionEntry } | GenerateGuideErrorResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  const email = request.nextUrl.searchParams.get('email');
+  if (!email) {
+    return NextResponse.json({ success: false, error: 'Missing email query parameter' }, { status: 400 });
+  }
+
+  const suppression = await removeSuppression(email);
+  if (!suppression) {
+    return NextResponse.json(
+      { success: false, error: `Address not suppressed: ${email}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, suppression });
+}
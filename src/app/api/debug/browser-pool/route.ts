@@ -0,0 +1,23 @@
+/**
+ * API Endpoint: GET /api/debug/browser-pool
+ *
+ * Reports browser pool statistics (warm browser, render counts, queue depth,
+ * recycles and crashes). Disabled in production unless DEBUG_ENDPOINTS=true.
+ */
+
+import { NextResponse } from 'next/server';
+import { getBrowserPoolStats } from '../../../lib/pdf';
+
+/**
+ * GET handler for /api/debug/browser-pool
+ */
+export async function GET(): Promise<NextResponse> {
+  if (process.env.NODE_ENV === 'production' && process.env.DEBUG_ENDPOINTS !== 'true') {
+    return NextResponse.json(
+      { success: false, error: 'Not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, stats: getBrowserPoolStats() });
+}
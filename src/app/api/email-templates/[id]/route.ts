@@ -0,0 +1,125 @@
+/**
+ * API Endpoint: /api/email-templates/:id
+ *
+ * GET returns one email template (any API key with the "generate" scope).
+ * PATCH changes its name, subject or body and DELETE removes it; both require
+ * "Authorization: Bearer <ADMIN_TOKEN>". The built-in "default" template
+ * cannot be changed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { EmailTemplateRecord, EmailTemplateErrorResponse } from '../../../types';
+import { authenticateApiKey, verifyAdminToken } from '../../../lib/api-keys';
+import {
+  DEFAULT_EMAIL_TEMPLATE_ID,
+  deleteEmailTemplate,
+  getEmailTemplate,
+  updateEmailTemplate
+} from '../../../lib/email-templates';
+import { validateEmailTemplatePatch } from '../../../lib/validation';
+
+type EmailTemplateResponse = { success: true; emailTemplate: EmailTemplateRecord } | EmailTemplateErrorResponse;
+
+/**
+ * Builds the 404 response for an unknown template
+ * @param id - Requested template ID
+ * @returns Error response
+ */
+function notFound(id: string): NextResponse<EmailTemplateErrorResponse> {
+  return NextResponse.json(
+    { success: false, error: `Email template not found: ${id}` },
+    { status: 404 }
+  );
+}
+
+/**
+ * Builds the response refusing changes to the built-in template
+ * @returns Error response
+ */
+function builtInTemplate(): NextResponse<EmailTemplateErrorResponse> {
+  return NextResponse.json(
+    { success: false, error: 'The built-in default template cannot be changed; add a new template instead' },
+    { status: 400 }
+  );
+}
+
+/**
+ * GET handler for /api/email-templates/:id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<EmailTemplateResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const emailTemplate = getEmailTemplate(id);
+
+  return emailTemplate ? NextResponse.json({ success: true, emailTemplate }) : notFound(id);
+}
+
+/**
+ * PATCH handler for /api/email-templates/:id
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<EmailTemplateResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  const { id } = await params;
+  if (id === DEFAULT_EMAIL_TEMPLATE_ID) {
+    return builtInTemplate();
+  }
+
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateEmailTemplatePatch(body);
+  if (!validation.isValid) {
+    return NextResponse.json(
+      { success: false, error: validation.error!, fieldErrors: validation.fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const emailTemplate = await updateEmailTemplate(id, validation.data!);
+
+  return emailTemplate ? NextResponse.json({ success: true, emailTemplate }) : notFound(id);
+}
+
+/**
+ * DELETE handler for /api/email-templates/:id
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<EmailTemplateResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  const { id } = await params;
+  if (id === DEFAULT_EMAIL_TEMPLATE_ID) {
+    return builtInTemplate();
+  }
+
+  const emailTemplate = await deleteEmailTemplate(id);
+
+  return emailTemplate ? NextResponse.json({ success: true, emailTemplate }) : notFound(id);
+}
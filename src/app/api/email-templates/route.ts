@@ -0,0 +1,63 @@
+/**
+ * API Endpoint: /api/email-templates
+ *
+ * GET lists email templates, including the built-in "default" (any API key
+ * with the "generate" scope); POST adds a template and requires
+ * "Authorization: Bearer <ADMIN_TOKEN>". Guide requests pick a template with
+ * "emailTemplateId".
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { EmailTemplateRecord, EmailTemplateErrorResponse } from '../../types';
+import { authenticateApiKey, verifyAdminToken } from '../../lib/api-keys';
+import { createEmailTemplate, listEmailTemplates, MERGE_FIELDS } from '../../lib/email-templates';
+import { validateEmailTemplate } from '../../lib/validation';
+
+/**
+ * GET handler for /api/email-templates
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; emailTemplates: EmailTemplateRecord[]; mergeFields: readonly string[] } | EmailTemplateErrorResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  return NextResponse.json({ success: true, emailTemplates: listEmailTemplates(), mergeFields: MERGE_FIELDS });
+}
+
+/**
+ * POST handler for /api/email-templates
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; emailTemplate: EmailTemplateRecord } | EmailTemplateErrorResponse>> {
+  const admin = verifyAdminToken(request.headers.get('authorization'));
+  if (!admin.isValid) {
+    return NextResponse.json({ success: false, error: admin.error! }, { status: admin.status });
+  }
+
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateEmailTemplate(body);
+  if (!validation.isValid) {
+    return NextResponse.json(
+      { success: false, error: validation.error!, fieldErrors: validation.fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const emailTemplate = await createEmailTemplate(validation.data!);
+
+  return NextResponse.json({ success: true, emailTemplate }, { status: 201 });
+}
@@ -0,0 +1,40 @@
+/**
+ * API Endpoint: GET /api/generate-guide/batch/:batchId
+ *
+ * Reports the progress of a batch: status, rows processed so far and the
+ * result of each, and once completed the summary and ZIP download URL.
+ * Requires an API key with the "batch" scope; keys tied to an AE only reach
+ * batches created with that AE's keys.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { BatchJobSummary, GenerateGuideErrorResponse } from '../../../../types';
+import { authenticateApiKey, canAccessAe } from '../../../../lib/api-keys';
+import { getBatchJobStore } from '../../../../lib/job-store';
+import { toBatchJobSummary } from '../../../../lib/batch';
+
+/**
+ * GET handler for /api/generate-guide/batch/:batchId
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+): Promise<NextResponse<{ success: true; batch: BatchJobSummary } | GenerateGuideErrorResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'batch');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const { batchId } = await params;
+  const batch = await getBatchJobStore().get(batchId);
+
+  // Batches of other AEs are reported as missing so their IDs are not confirmed
+  if (!batch || !canAccessAe(auth.apiKey, batch.aeEmail)) {
+    return NextResponse.json(
+      { success: false, error: `Batch not found: ${batchId}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, batch: toBatchJobSummary(batch) });
+}
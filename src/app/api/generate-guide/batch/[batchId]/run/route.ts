@@ -0,0 +1,51 @@
+/**
+ * API Endpoint: POST /api/generate-guide/batch/:batchId/run
+ *
+ * Batch worker: works through a queued or partly processed batch handed over
+ * by dispatchBatchJob. It answers 202 as soon as the batch is accepted, then
+ * processes rows within this route's own maxDuration (see vercel.json) and
+ * hands whatever is left to a fresh invocation of itself.
+ * Requires "Authorization: Bearer <CRON_SECRET>" or the admin token.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import type { GenerateGuideErrorResponse } from '../../../../../types';
+import { timestamp } from '../../../../../lib/utils';
+import { verifyCronToken } from '../../../../../lib/api-keys';
+import { getBatchJobStore } from '../../../../../lib/job-store';
+import { runBatchWorker } from '../../../../../lib/batch';
+
+/**
+ * POST handler for /api/generate-guide/batch/:batchId/run
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+): Promise<NextResponse<{ success: true; batchId: string } | GenerateGuideErrorResponse>> {
+  const cron = verifyCronToken(request.headers.get('authorization'));
+  if (!cron.isValid) {
+    return NextResponse.json({ success: false, error: cron.error! }, { status: cron.status });
+  }
+
+  const { batchId } = await params;
+  const batch = await getBatchJobStore().get(batchId);
+
+  if (!batch) {
+    return NextResponse.json(
+      { success: false, error: `Batch not found: ${batchId}` },
+      { status: 404 }
+    );
+  }
+
+  if (batch.status === 'completed' || batch.status === 'failed') {
+    return NextResponse.json(
+      { success: false, error: `Batch ${batchId} is already ${batch.status}` },
+      { status: 409 }
+    );
+  }
+
+  console.log(`[${timestamp()}] Batch worker accepted batch ${batchId} at row ${batch.processed + 1}/${batch.total}`);
+  after(() => runBatchWorker(batchId));
+
+  return NextResponse.json({ success: true, batchId }, { status: 202 });
+}
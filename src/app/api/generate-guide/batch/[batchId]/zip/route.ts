@@ -0,0 +1,56 @@
+/**
+ * API Endpoint: GET /api/generate-guide/batch/:batchId/zip
+ *
+ * Downloads a ZIP archive of every PDF generated by a batch request.
+ * Requires an API key with the "batch" scope; keys tied to an AE only reach
+ * batches created with that AE's keys.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { timestamp } from '../../../../../lib/utils';
+import { createBatchZip } from '../../../../../lib/batch';
+import { getBatchJobStore } from '../../../../../lib/job-store';
+import { authenticateApiKey, canAccessAe } from '../../../../../lib/api-keys';
+
+/**
+ * GET handler for /api/generate-guide/batch/:batchId/zip
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+): Promise<NextResponse> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'batch');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const { batchId } = await params;
+  const batch = await getBatchJobStore().get(batchId);
+
+  // Batches of other AEs are reported as missing so their IDs are not confirmed
+  if (!batch || !canAccessAe(auth.apiKey, batch.aeEmail)) {
+    return NextResponse.json(
+      { success: false, error: 'Batch not found or has no generated PDFs' },
+      { status: 404 }
+    );
+  }
+
+  console.log(`[${timestamp()}] Building ZIP for batch ${batchId}`);
+
+  const zipBuffer = await createBatchZip(batchId);
+
+  if (!zipBuffer) {
+    return NextResponse.json(
+      { success: false, error: 'Batch not found or has no generated PDFs' },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(new Uint8Array(zipBuffer), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="gift-guides-${batchId}.zip"`,
+      'Content-Length': String(zipBuffer.length),
+    },
+  });
+}
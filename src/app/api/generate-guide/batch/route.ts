@@ -0,0 +1,132 @@
+/**
+ * API Endpoint: POST /api/generate-guide/batch
+ *
+ * Accepts a lead list as a JSON array of generate-guide requests or as a CSV
+ * upload (multipart "file" field or a text/csv body) and queues a batch job
+ * that runs the guide pipeline for every row. Returns 202 with the batch ID
+ * at once; poll GET /api/generate-guide/batch/:batchId for progress, the
+ * status of each row and a ZIP download URL for the generated PDFs.
+ *
+ * Requires an API key with the "batch" scope, plus "send" unless every row
+ * uses "delivery": "download".
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import type {
+  GenerateGuideRequest,
+  BatchGenerateAcceptedResponse,
+  GenerateGuideErrorResponse
+} from '../../../types';
+import { timestamp } from '../../../lib/utils';
+import { createBatchJob, dispatchBatchJob, MAX_BATCH_ROWS, parseBatchCsv } from '../../../lib/batch';
+import { authenticateApiKey, checkGuidePermission } from '../../../lib/api-keys';
+
+/**
+ * Reads batch rows from the request body based on its content type
+ * @param request - Incoming request
+ * @returns Request rows, or an error message if the body is unusable
+ */
+async function readBatchRows(
+  request: NextRequest
+): Promise<{ rows?: Partial<GenerateGuideRequest>[]; error?: string }> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      return { error: 'Missing CSV upload in "file" field' };
+    }
+    return { rows: parseBatchCsv(await file.text()) };
+  }
+
+  if (contentType.includes('text/csv')) {
+    return { rows: parseBatchCsv(await request.text()) };
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { error: 'Invalid JSON in request body' };
+  }
+
+  if (!Array.isArray(body)) {
+    return { error: 'Request body must be a JSON array of guide requests' };
+  }
+
+  return { rows: body.map((row) => (row && typeof row === 'object' ? row : {})) };
+}
+
+/**
+ * POST handler for /api/generate-guide/batch
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<BatchGenerateAcceptedResponse | GenerateGuideErrorResponse>> {
+  console.log(`[${timestamp()}] Received generate-guide batch request`);
+
+  try {
+    const auth = await authenticateApiKey(request.headers.get('authorization'), 'batch');
+    if (!auth.apiKey) {
+      return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+    }
+
+    const { rows, error } = await readBatchRows(request);
+
+    if (!rows) {
+      return NextResponse.json({ success: false, error: error! }, { status: 400 });
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Batch contains no rows' },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length > MAX_BATCH_ROWS) {
+      return NextResponse.json(
+        { success: false, error: `Batch exceeds maximum of ${MAX_BATCH_ROWS} rows` },
+        { status: 400 }
+      );
+    }
+
+    // The whole batch is refused if the key may not create any one of its rows
+    for (const [index, row] of rows.entries()) {
+      const permission = checkGuidePermission(auth.apiKey, row);
+      if (!permission.isValid) {
+        return NextResponse.json(
+          { success: false, error: `Row ${index + 1}: ${permission.error}` },
+          { status: 403 }
+        );
+      }
+    }
+
+    const batch = await createBatchJob(rows, auth.apiKey.id, auth.apiKey.aeEmail);
+
+    // Work through the rows after the response has been sent
+    after(() => dispatchBatchJob(batch.id));
+
+    return NextResponse.json(
+      { success: true, batchId: batch.id, statusUrl: `/api/generate-guide/batch/${batch.id}` },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const stack = error instanceof Error ? error.stack : undefined;
+
+    console.error(`[${timestamp()}] Error processing batch request:`, errorMessage);
+
+    const response: GenerateGuideErrorResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    // Include stack trace in development mode
+    if (process.env.NODE_ENV === 'development' && stack) {
+      response.stack = stack;
+    }
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
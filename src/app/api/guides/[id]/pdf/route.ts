@@ -0,0 +1,44 @@
+/**
+ * API Endpoint: GET /api/guides/:id/pdf
+ *
+ * Downloads a generated gift guide PDF. PDFs are kept when the request
+ * asked for "download" or "both" delivery, or when the email was not sent.
+ * Requires an API key with the "generate" scope; keys tied to an AE only
+ * reach that AE's guides.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getGuide, readGuidePdf } from '../../../../lib/guides';
+import { authenticateApiKey, canAccessAe } from '../../../../lib/api-keys';
+
+/**
+ * GET handler for /api/guides/:id/pdf
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const guide = await getGuide(id);
+  const pdf = guide && canAccessAe(auth.apiKey, guide.request.aeEmail) ? await readGuidePdf(id) : null;
+
+  if (!pdf) {
+    return NextResponse.json(
+      { success: false, error: 'Guide PDF not found' },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(new Uint8Array(pdf.data), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${pdf.filename}"`,
+      'Content-Length': String(pdf.data.length),
+    },
+  });
+}
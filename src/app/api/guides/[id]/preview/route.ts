@@ -0,0 +1,50 @@
+/**
+ * API Endpoint: GET /api/guides/:id/preview
+ *
+ * Serves the rendered HTML of a generated guide for viewing in the browser.
+ * Requires an API key with the "generate" scope (keys tied to an AE only
+ * reach that AE's guides), or a signed "token" query parameter from a link
+ * in a guide or quote-request email (see guide-links.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getGuide, readGuidePreview } from '../../../../lib/guides';
+import { authenticateApiKey, canAccessAe } from '../../../../lib/api-keys';
+import { verifyGuideViewToken } from '../../../../lib/guide-links';
+
+/**
+ * GET handler for /api/guides/:id/preview
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const { id } = await params;
+  const token = request.nextUrl.searchParams.get('token');
+  let allowed = !!token && verifyGuideViewToken(token, id);
+
+  if (!allowed) {
+    const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+    if (!auth.apiKey) {
+      return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+    }
+
+    const guide = await getGuide(id);
+    allowed = !!guide && canAccessAe(auth.apiKey, guide.request.aeEmail);
+  }
+
+  const html = allowed ? await readGuidePreview(id) : null;
+
+  if (html === null) {
+    return NextResponse.json(
+      { success: false, error: 'Guide preview not found' },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(html, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+    },
+  });
+}
@@ -0,0 +1,39 @@
+/**
+ * API Endpoint: GET /api/guides/:id/quote-requests
+ *
+ * Lists the quote requests the guide's recipient sent from its quote-request
+ * page, oldest first, with the products, message and whether the request
+ * reached the AE. Requires an API key with the "generate" scope; keys tied
+ * to an AE only reach that AE's guides.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { QuoteRequest, GenerateGuideErrorResponse } from '../../../../types';
+import { getGuide, readGuideQuoteRequests } from '../../../../lib/guides';
+import { authenticateApiKey, canAccessAe } from '../../../../lib/api-keys';
+
+/**
+ * GET handler for /api/guides/:id/quote-requests
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<{ success: true; quoteRequests: QuoteRequest[] } | GenerateGuideErrorResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const guide = await getGuide(id);
+
+  // Guides of other AEs are reported as missing so their IDs are not confirmed
+  if (!guide || !canAccessAe(auth.apiKey, guide.request.aeEmail)) {
+    return NextResponse.json(
+      { success: false, error: `Guide not found: ${id}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, quoteRequests: await readGuideQuoteRequests(id) });
+}
@@ -0,0 +1,39 @@
+/**
+ * API Endpoint: GET /api/guides/:id
+ *
+ * Returns the history record of a generated guide: request, brand colors,
+ * logo source, PDF hash, delivery status and email message ID. Requires an
+ * API key with the "generate" scope; keys tied to an AE only reach that
+ * AE's guides.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { GuideRecord, GenerateGuideErrorResponse } from '../../../types';
+import { getGuide } from '../../../lib/guides';
+import { authenticateApiKey, canAccessAe } from '../../../lib/api-keys';
+
+/**
+ * GET handler for /api/guides/:id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<{ success: true; guide: GuideRecord } | GenerateGuideErrorResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const guide = await getGuide(id);
+
+  // Guides of other AEs are reported as missing so their IDs are not confirmed
+  if (!guide || !canAccessAe(auth.apiKey, guide.request.aeEmail)) {
+    return NextResponse.json(
+      { success: false, error: `Guide not found: ${id}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, guide });
+}
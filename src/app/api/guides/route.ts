@@ -0,0 +1,84 @@
+/**
+ * API Endpoint: GET /api/guides
+ *
+ * Lists generated guides, newest first. Query parameters:
+ * - company: case-insensitive match within the company name
+ * - domain:  exact company domain (URLs and emails are normalized first)
+ * - ae:      case-insensitive match within the AE name or email
+ * - from/to: ISO dates or timestamps bounding the creation time; a bare date
+ *            in "to" includes that whole day
+ * - limit:   maximum records (default 50, up to 500)
+ *
+ * Requires an API key with the "generate" scope; keys tied to an AE only
+ * list that AE's guides.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { GuideFilter, GuideRecord, GenerateGuideErrorResponse } from '../../types';
+import { listGuides } from '../../lib/guides';
+import { authenticateApiKey } from '../../lib/api-keys';
+import { normalizeDomain } from '../../lib/domains';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses a date query parameter
+ * @param value - Query parameter value
+ * @param endOfDay - Extend a bare date to the end of that day (UTC)
+ * @returns Date, undefined when absent, or null when malformed
+ */
+function parseDateParam(value: string | null, endOfDay: boolean): Date | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(endOfDay && DATE_ONLY.test(value) ? `${value}T23:59:59.999Z` : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET handler for /api/guides
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; guides: GuideRecord[] } | GenerateGuideErrorResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const from = parseDateParam(params.get('from'), false);
+  const to = parseDateParam(params.get('to'), true);
+
+  if (from === null || to === null) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid from/to: expected an ISO date (e.g. 2025-01-31)' },
+      { status: 400 }
+    );
+  }
+
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number.parseInt(limitParam, 10) : undefined;
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid limit: expected a positive integer' },
+      { status: 400 }
+    );
+  }
+
+  const domain = params.get('domain') || undefined;
+
+  const filter: GuideFilter = {
+    company: params.get('company') || undefined,
+    domain: domain && (normalizeDomain(domain) ?? domain),
+    ae: params.get('ae') || undefined,
+    aeEmail: auth.apiKey.aeEmail,
+    from,
+    to,
+    limit,
+  };
+
+  return NextResponse.json({ success: true, guides: await listGuides(filter) });
+}
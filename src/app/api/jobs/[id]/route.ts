@@ -0,0 +1,38 @@
+/**
+ * API Endpoint: GET /api/jobs/:id
+ *
+ * Reports the status of a background guide job: current pipeline step,
+ * final result or error, and timestamps. Requires an API key with the
+ * "generate" scope; keys tied to an AE only reach that AE's jobs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { GuideJob, GenerateGuideErrorResponse } from '../../../types';
+import { getJobStore } from '../../../lib/job-store';
+import { authenticateApiKey, canAccessAe } from '../../../lib/api-keys';
+
+/**
+ * GET handler for /api/jobs/:id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<{ success: true; job: GuideJob } | GenerateGuideErrorResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const job = await getJobStore().get(id);
+
+  // Jobs of other AEs are reported as missing so their IDs are not confirmed
+  if (!job || !canAccessAe(auth.apiKey, job.aeEmail)) {
+    return NextResponse.json(
+      { success: false, error: `Job not found: ${id}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, job });
+}
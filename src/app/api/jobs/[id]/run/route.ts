@@ -0,0 +1,69 @@
+/**
+ * API Endpoint: POST /api/jobs/:id/run
+ *
+ * Job worker: runs a queued background guide job handed over by
+ * dispatchGuideJob. It answers 202 as soon as the job is accepted and runs
+ * the pipeline afterwards, within this route's own maxDuration (see
+ * vercel.json) rather than what is left of the generate-guide request's.
+ * Requires "Authorization: Bearer <CRON_SECRET>" or the admin token.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import type { GenerateGuideErrorResponse, GenerateGuideRequest } from '../../../../types';
+import { timestamp } from '../../../../lib/utils';
+import { verifyCronToken } from '../../../../lib/api-keys';
+import { getJobStore } from '../../../../lib/job-store';
+import { runGuideJob } from '../../../../lib/jobs';
+
+/**
+ * POST handler for /api/jobs/:id/run
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<{ success: true; jobId: string } | GenerateGuideErrorResponse>> {
+  const cron = verifyCronToken(request.headers.get('authorization'));
+  if (!cron.isValid) {
+    return NextResponse.json({ success: false, error: cron.error! }, { status: cron.status });
+  }
+
+  const { id } = await params;
+
+  let body: { request?: GenerateGuideRequest; callerId?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  if (!body.request || typeof body.request !== 'object') {
+    return NextResponse.json(
+      { success: false, error: 'Missing job request' },
+      { status: 400 }
+    );
+  }
+
+  const job = await getJobStore().get(id);
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: `Job not found: ${id}` },
+      { status: 404 }
+    );
+  }
+
+  if (job.status !== 'queued') {
+    return NextResponse.json(
+      { success: false, error: `Job ${id} is already ${job.status}` },
+      { status: 409 }
+    );
+  }
+
+  const { request: guideRequest, callerId } = body;
+  console.log(`[${timestamp()}] Job worker accepted job ${id}`);
+  after(() => runGuideJob(id, guideRequest, callerId));
+
+  return NextResponse.json({ success: true, jobId: id }, { status: 202 });
+}
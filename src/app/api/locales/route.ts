@@ -0,0 +1,21 @@
+/**
+ * API Endpoint: GET /api/locales
+ *
+ * Lists the languages guides and guide emails can be written in. Any BCP 47
+ * tag in one of these languages (e.g. "es-MX") can be passed as locale to
+ * /api/generate-guide; the region picks the price and list formatting.
+ */
+
+import { NextResponse } from 'next/server';
+import { DEFAULT_LOCALE, listLocales } from '../../lib/i18n';
+
+/**
+ * GET handler for /api/locales
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({
+    success: true,
+    defaultLocale: DEFAULT_LOCALE,
+    locales: listLocales(),
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * API Endpoint: POST /api/preview-guide
+ *
+ * Looks up the logo, extracts brand colors and builds the guide HTML without
+ * rendering a PDF, sending email or recording history, so a guide can be
+ * checked before it goes out. Returns the HTML with the logo and colors used.
+ *
+ * Requires an API key with the "generate" scope.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { GuidePreviewSuccessResponse, GenerateGuideErrorResponse } from '../../types';
+import { timestamp } from '../../lib/utils';
+import { validatePreviewRequest } from '../../lib/validation';
+import { renderGuide } from '../../lib/pipeline';
+import { authenticateApiKey, checkGuidePermission } from '../../lib/api-keys';
+
+/**
+ * POST handler for /api/preview-guide
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<GuidePreviewSuccessResponse | GenerateGuideErrorResponse>> {
+  try {
+    const auth = await authenticateApiKey(request.headers.get('authorization'), 'generate');
+    if (!auth.apiKey) {
+      return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+    }
+
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validatePreviewRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { success: false, error: validation.error!, fieldErrors: validation.fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const previewRequest = validation.data!;
+
+    // Nothing is sent, so only an AE-bound key's AE restriction applies
+    if (previewRequest.aeId || previewRequest.aeEmail) {
+      const permission = checkGuidePermission(auth.apiKey, { ...previewRequest, delivery: 'download' });
+      if (!permission.isValid) {
+        return NextResponse.json({ success: false, error: permission.error! }, { status: 403 });
+      }
+    }
+
+    console.log(`[${timestamp()}] Rendering preview for ${previewRequest.domain}`);
+    const { html, logoUrl, logoProvider, colors } = await renderGuide(previewRequest);
+
+    return NextResponse.json({
+      success: true,
+      companyName: previewRequest.companyName,
+      html,
+      logoUrl,
+      logoProvider,
+      colors,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`[${timestamp()}] Error rendering preview:`, errorMessage);
+
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * API Endpoint: /api/quote-requests?token=...
+ *
+ * Public quote-request page linked from the closing page of every guide.
+ * GET shows the guide's products with quantity fields and a message box;
+ * POST (the form submission) stores the request against the guide and
+ * forwards it to the guide's AE. The signed token names the guide, so no
+ * other authentication is needed; expired links get a page saying so.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { GuideRecord } from '../../types';
+import { timestamp } from '../../lib/utils';
+import { getMessages } from '../../lib/i18n';
+import { verifyQuoteLinkToken } from '../../lib/quote-links';
+import { getGuide, readGuideQuoteRequests } from '../../lib/guides';
+import { getQuoteRequestProducts, MAX_QUOTE_REQUESTS_PER_GUIDE, submitQuoteRequest } from '../../lib/quote-requests';
+import { validateQuoteRequest } from '../../lib/validation';
+import {
+  generateQuoteLinkErrorPage,
+  generateQuoteRequestPage,
+  generateQuoteRequestSentPage,
+  type QuoteRequestPageOptions
+} from '../../lib/template';
+
+// Form fields carrying a quantity are named "qty:<SKU>"
+const QUANTITY_FIELD_PREFIX = 'qty:';
+
+/**
+ * Wraps a page in an HTML response
+ * @param html - Complete HTML page
+ * @param status - HTTP status
+ * @returns HTML response
+ */
+function htmlResponse(html: string, status = 200): NextResponse {
+  return new NextResponse(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+    },
+  });
+}
+
+/**
+ * Resolves the guide named by a request's quote-link token
+ * @param request - Incoming request
+ * @returns The guide, or the error page to show instead
+ */
+async function resolveGuide(request: NextRequest): Promise<{ guide: GuideRecord } | { response: NextResponse }> {
+  const token = verifyQuoteLinkToken(request.nextUrl.searchParams.get('token') ?? '');
+
+  if (!token) {
+    console.warn(`[${timestamp()}] Rejected invalid quote-request token`);
+    return { response: htmlResponse(generateQuoteLinkErrorPage(null), 400) };
+  }
+
+  const guide = await getGuide(token.guideId);
+  if (!guide) {
+    return { response: htmlResponse(generateQuoteLinkErrorPage(null), 404) };
+  }
+
+  if (token.expiresAt.getTime() <= Date.now()) {
+    return { response: htmlResponse(generateQuoteLinkErrorPage(guide), 410) };
+  }
+
+  return { guide };
+}
+
+/**
+ * Checks whether a guide has used up its quote requests, to warn before the form is filled in
+ * Submissions are held to the limit when they are stored (see submitQuoteRequest).
+ * @param guide - Stored guide
+ * @returns Localized message when no more requests are accepted, otherwise undefined
+ */
+async function checkRequestLimit(guide: GuideRecord): Promise<string | undefined> {
+  const requests = await readGuideQuoteRequests(guide.id);
+  return requests.length >= MAX_QUOTE_REQUESTS_PER_GUIDE ? getMessages(guide.request.locale).requestLimit : undefined;
+}
+
+/**
+ * GET handler for /api/quote-requests
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const resolved = await resolveGuide(request);
+  if ('response' in resolved) {
+    return resolved.response;
+  }
+
+  const { guide } = resolved;
+
+  return htmlResponse(generateQuoteRequestPage({
+    guide,
+    products: getQuoteRequestProducts(guide),
+    token: request.nextUrl.searchParams.get('token')!,
+    error: await checkRequestLimit(guide),
+  }));
+}
+
+/**
+ * POST handler for /api/quote-requests (form submission)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const resolved = await resolveGuide(request);
+  if ('response' in resolved) {
+    return resolved.response;
+  }
+
+  const { guide } = resolved;
+  const products = getQuoteRequestProducts(guide);
+  const page: QuoteRequestPageOptions = { guide, products, token: request.nextUrl.searchParams.get('token')! };
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return htmlResponse(generateQuoteRequestPage(page), 400);
+  }
+
+  // Blank and zero quantities mean "not interested"
+  const entered: Record<string, string> = {};
+  for (const [field, value] of form.entries()) {
+    if (field.startsWith(QUANTITY_FIELD_PREFIX) && typeof value === 'string' && value.trim() && Number(value) !== 0) {
+      entered[field.slice(QUANTITY_FIELD_PREFIX.length)] = value.trim();
+    }
+  }
+
+  const values = {
+    name: String(form.get('name') ?? ''),
+    email: String(form.get('email') ?? ''),
+    message: String(form.get('message') ?? ''),
+    quantities: entered,
+  };
+
+  const validation = validateQuoteRequest(
+    {
+      ...values,
+      quantities: Object.fromEntries(Object.entries(entered).map(([sku, quantity]) => [sku, Number(quantity)])),
+    },
+    products.map((product) => product.sku)
+  );
+
+  if (!validation.isValid) {
+    return htmlResponse(generateQuoteRequestPage({ ...page, values, fieldErrors: validation.fieldErrors }), 400);
+  }
+
+  try {
+    if (!await submitQuoteRequest(guide, validation.data!)) {
+      return htmlResponse(
+        generateQuoteRequestPage({ ...page, values, error: getMessages(guide.request.locale).requestLimit }),
+        429
+      );
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[${timestamp()}] Error storing quote request for guide ${guide.id}:`, errorMessage);
+
+    return htmlResponse(
+      generateQuoteRequestPage({ ...page, values, error: getMessages(guide.request.locale).requestFailed }),
+      500
+    );
+  }
+
+  return htmlResponse(generateQuoteRequestSentPage(guide));
+}
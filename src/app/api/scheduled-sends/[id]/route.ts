@@ -0,0 +1,88 @@
+/**
+ * API Endpoint: /api/scheduled-sends/:id
+ *
+ * GET returns one scheduled send and DELETE cancels it while it is still
+ * pending (409 once the scheduler has picked it up). Requires an API key
+ * with the "send" scope; keys tied to an AE only reach that AE's sends.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { GenerateGuideErrorResponse, ScheduledSendSummary } from '../../../types';
+import { timestamp } from '../../../lib/utils';
+import { authenticateApiKey, canAccessAe } from '../../../lib/api-keys';
+import { updateGuide } from '../../../lib/guides';
+import { cancelScheduledSend, getScheduledSend, toScheduledSendSummary } from '../../../lib/scheduled-sends';
+
+type ScheduledSendResponse = { success: true; scheduledSend: ScheduledSendSummary } | GenerateGuideErrorResponse;
+
+/**
+ * Builds the 404 response for an unknown scheduled send
+ * @param id - Requested scheduled send ID
+ * @returns Error response
+ */
+function notFound(id: string): NextResponse<GenerateGuideErrorResponse> {
+  return NextResponse.json(
+    { success: false, error: `Scheduled send not found: ${id}` },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET handler for /api/scheduled-sends/:id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ScheduledSendResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'send');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const send = await getScheduledSend(id);
+
+  // Sends of other AEs are reported as missing so their IDs are not confirmed
+  if (!send || !canAccessAe(auth.apiKey, send.accountExecutive.email)) {
+    return notFound(id);
+  }
+
+  return NextResponse.json({ success: true, scheduledSend: toScheduledSendSummary(send) });
+}
+
+/**
+ * DELETE handler for /api/scheduled-sends/:id
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ScheduledSendResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'send');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const existing = await getScheduledSend(id);
+  if (!existing || !canAccessAe(auth.apiKey, existing.accountExecutive.email)) {
+    return notFound(id);
+  }
+
+  const send = await cancelScheduledSend(id);
+  if (!send) {
+    return notFound(id);
+  }
+
+  // Cancelling twice is harmless; sends already picked up by the scheduler cannot be stopped
+  if (send.status !== 'cancelled') {
+    return NextResponse.json(
+      { success: false, error: `Scheduled send ${id} is ${send.status} and can no longer be cancelled` },
+      { status: 409 }
+    );
+  }
+
+  await updateGuide(send.guideId, { deliveryStatus: 'cancelled' });
+  console.log(`[${timestamp()}] API key ${auth.apiKey.id} cancelled scheduled send ${id}`);
+
+  return NextResponse.json({ success: true, scheduledSend: toScheduledSendSummary(send) });
+}
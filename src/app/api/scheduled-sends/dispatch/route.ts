@@ -0,0 +1,32 @@
+/**
+ * API Endpoint: /api/scheduled-sends/dispatch
+ *
+ * Sends every scheduled email that is due. The in-process scheduler does
+ * this on a timer; this route is for hosts without a long-lived process,
+ * where a cron job calls it (see the "crons" entry in vercel.json).
+ * Requires "Authorization: Bearer <CRON_SECRET>" or the admin token.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { GenerateGuideErrorResponse, ScheduledSendStatus } from '../../../types';
+import { verifyCronToken } from '../../../lib/api-keys';
+import { dispatchDueSends } from '../../../lib/scheduler';
+
+type DispatchResponse = { success: true; dispatched: Partial<Record<ScheduledSendStatus, number>> } | GenerateGuideErrorResponse;
+
+/**
+ * GET handler for /api/scheduled-sends/dispatch (Vercel Cron sends GET)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<DispatchResponse>> {
+  const cron = verifyCronToken(request.headers.get('authorization'));
+  if (!cron.isValid) {
+    return NextResponse.json({ success: false, error: cron.error! }, { status: cron.status });
+  }
+
+  return NextResponse.json({ success: true, dispatched: await dispatchDueSends() });
+}
+
+/**
+ * POST handler for /api/scheduled-sends/dispatch
+ */
+export const POST = GET;
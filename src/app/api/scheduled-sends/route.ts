@@ -0,0 +1,39 @@
+/**
+ * API Endpoint: /api/scheduled-sends
+ *
+ * Lists scheduled guide emails, soonest first. ?status= picks one status
+ * (default "pending"). Requires an API key with the "send" scope; keys tied
+ * to an AE only see that AE's sends.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { GenerateGuideErrorResponse, ScheduledSendStatus, ScheduledSendSummary } from '../../types';
+import { authenticateApiKey } from '../../lib/api-keys';
+import { listScheduledSends, SCHEDULED_SEND_STATUSES, toScheduledSendSummary } from '../../lib/scheduled-sends';
+
+/**
+ * GET handler for /api/scheduled-sends
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; scheduledSends: ScheduledSendSummary[] } | GenerateGuideErrorResponse>> {
+  const auth = await authenticateApiKey(request.headers.get('authorization'), 'send');
+  if (!auth.apiKey) {
+    return NextResponse.json({ success: false, error: auth.error! }, { status: auth.status });
+  }
+
+  const status = request.nextUrl.searchParams.get('status') ?? 'pending';
+  if (!(SCHEDULED_SEND_STATUSES as readonly string[]).includes(status)) {
+    return NextResponse.json(
+      { success: false, error: `Invalid status: expected one of ${SCHEDULED_SEND_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const scheduledSends = await listScheduledSends({
+    status: status as ScheduledSendStatus,
+    aeEmail: auth.apiKey.aeEmail,
+  });
+
+  return NextResponse.json({ success: true, scheduledSends: scheduledSends.map(toScheduledSendSummary) });
+}
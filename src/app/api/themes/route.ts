@@ -0,0 +1,20 @@
+/**
+ * API Endpoint: GET /api/themes
+ *
+ * Lists the gift guide themes that can be passed as themeId to
+ * /api/generate-guide.
+ */
+
+import { NextResponse } from 'next/server';
+import { DEFAULT_THEME_ID, listThemes } from '../../lib/themes';
+
+/**
+ * GET handler for /api/themes
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({
+    success: true,
+    defaultThemeId: DEFAULT_THEME_ID,
+    themes: listThemes(),
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * API Endpoint: /api/unsubscribe?token=...
+ *
+ * Public opt-out route linked from every guide email. GET (the footer link)
+ * only shows a page asking the recipient to confirm, so link scanners that
+ * prefetch URLs cannot unsubscribe anyone; its button POSTs back here. POST
+ * is also the RFC 8058 one-click unsubscribe that mail clients send from the
+ * List-Unsubscribe header. Either way the address goes on the suppression
+ * list, so later sends to it are refused.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { timestamp } from '../../lib/utils';
+import { generateUnsubscribeConfirmPage, generateUnsubscribePage } from '../../lib/template';
+import { verifyUnsubscribeToken, type UnsubscribeToken } from '../../lib/unsubscribe';
+import { addSuppression } from '../../lib/suppressions';
+
+// Form field set by the confirmation page, telling its POST apart from a one-click request
+const CONFIRM_FIELD = 'confirm';
+
+/**
+ * Wraps a page in an HTML response
+ * @param html - Complete HTML page
+ * @param status - HTTP status
+ * @returns HTML response
+ */
+function htmlResponse(html: string, status = 200): NextResponse {
+  return new NextResponse(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+    },
+  });
+}
+
+/**
+ * Reads the opt-out carried by a request's token
+ * @param request - Incoming request
+ * @returns Token contents, or null if the token is missing or invalid
+ */
+function readToken(request: NextRequest): UnsubscribeToken | null {
+  const token = verifyUnsubscribeToken(request.nextUrl.searchParams.get('token') ?? '');
+
+  if (!token) {
+    console.warn(`[${timestamp()}] Rejected invalid unsubscribe token`);
+  }
+
+  return token;
+}
+
+/**
+ * GET handler for /api/unsubscribe (confirmation page)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const token = readToken(request);
+
+  if (!token) {
+    return htmlResponse(generateUnsubscribePage(null), 400);
+  }
+
+  const actionUrl = `${request.nextUrl.pathname}${request.nextUrl.search}`;
+  return htmlResponse(generateUnsubscribeConfirmPage(token.email, actionUrl, CONFIRM_FIELD));
+}
+
+/**
+ * POST handler for /api/unsubscribe (confirmation form or one-click)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  // One-click requests send "List-Unsubscribe=One-Click"; only the confirmation page sends CONFIRM_FIELD
+  const form = await request.formData().catch(() => null);
+  const fromPage = form?.has(CONFIRM_FIELD) ?? false;
+  const token = readToken(request);
+
+  if (!token) {
+    return fromPage
+      ? htmlResponse(generateUnsubscribePage(null), 400)
+      : NextResponse.json({ success: false, error: 'Invalid unsubscribe token' }, { status: 400 });
+  }
+
+  await addSuppression(token.email, 'unsubscribed', { guideId: token.guideId });
+
+  return fromPage ? htmlResponse(generateUnsubscribePage(token.email)) : NextResponse.json({ success: true });
+}
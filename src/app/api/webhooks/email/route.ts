@@ -0,0 +1,76 @@
+/**
+ * API Endpoint: POST /api/webhooks/email
+ *
+ * Receives delivery webhooks from Resend (delivered, opened, bounced,
+ * complained), verifies the signature with RESEND_WEBHOOK_SECRET and records
+ * the event on the guide with the matching message ID. Unknown messages and
+ * untracked event types are acknowledged so the provider does not retry them;
+ * events without a type, timestamp or data object get 400.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { GenerateGuideErrorResponse } from '../../../types';
+import { timestamp } from '../../../lib/utils';
+import { validateEmailWebhookPayload } from '../../../lib/validation';
+import { applyEmailEvent, verifyWebhookSignature } from '../../../lib/webhooks';
+
+/**
+ * POST handler for /api/webhooks/email
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<{ success: true; guideId?: string; deliveryStatus?: string } | GenerateGuideErrorResponse>> {
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+
+  if (!secret) {
+    console.error(`[${timestamp()}] Email webhook received but RESEND_WEBHOOK_SECRET is not set`);
+    return NextResponse.json(
+      { success: false, error: 'Webhook secret not configured' },
+      { status: 500 }
+    );
+  }
+
+  const payload = await request.text();
+  const headers = {
+    id: request.headers.get('svix-id'),
+    timestamp: request.headers.get('svix-timestamp'),
+    signature: request.headers.get('svix-signature'),
+  };
+
+  const verification = verifyWebhookSignature(secret, headers, payload);
+  if (!verification.isValid) {
+    console.warn(`[${timestamp()}] Email webhook rejected: ${verification.error}`);
+    return NextResponse.json(
+      { success: false, error: verification.error! },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+
+  try {
+    body = JSON.parse(payload);
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateEmailWebhookPayload(body);
+  if (!validation.isValid) {
+    console.warn(`[${timestamp()}] Email webhook ${headers.id} malformed: ${validation.error}`);
+    return NextResponse.json(
+      { success: false, error: validation.error! },
+      { status: 400 }
+    );
+  }
+
+  const guide = await applyEmailEvent(validation.data!, headers.id!);
+
+  return NextResponse.json({
+    success: true,
+    guideId: guide?.id,
+    deliveryStatus: guide?.deliveryStatus,
+  });
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+
+interface GuideRecord {
+  id: string;
+  createdAt: string;
+  request: {
+    companyName: string;
+    domain: string;
+    recipientEmail: string;
+    aeName: string;
+    aeEmail: string;
+    themeId?: string;
+    delivery?: string;
+  };
+  colors: {
+    primary: string;
+    secondary: string;
+  };
+  logoProvider: string;
+  pdfUrl?: string;
+  previewUrl: string;
+  deliveryStatus: string;
+  messageId?: string;
+  emailError?: string;
+}
+
+// The generator page keeps the API key in this browser under this name
+const API_KEY_STORAGE_KEY = "giftGuideApiKey";
+
+// Object URLs handed to a new tab or a download are released after this long
+const OBJECT_URL_LIFETIME_MS = 60_000;
+
+interface Filters {
+  company: string;
+  domain: string;
+  ae: string;
+  from: string;
+  to: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 12px",
+  border: "1px solid #d1d5db",
+  borderRadius: "8px",
+  fontSize: "14px",
+  boxSizing: "border-box",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "block",
+  fontSize: "13px",
+  fontWeight: "500",
+  color: "#374151",
+  marginBottom: "6px",
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: "12px 16px",
+  borderBottom: "1px solid #e5e7eb",
+  fontSize: "14px",
+  color: "#374151",
+  verticalAlign: "top",
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  padding: 0,
+  color: "#2563eb",
+  fontSize: "14px",
+  textDecoration: "underline",
+  cursor: "pointer",
+};
+
+const statusColors: Record<string, string> = {
+  sent: "#2563eb",
+  delivered: "#10b981",
+  opened: "#059669",
+  failed: "#ef4444",
+  bounced: "#ef4444",
+  complained: "#f59e0b",
+  skipped: "#9ca3af",
+  blocked: "#f59e0b",
+  scheduled: "#8b5cf6",
+  cancelled: "#9ca3af",
+};
+
+/**
+ * Fetches a guide file with the stored API key, since a plain link cannot send it
+ * @returns Object URL of the file and the file name the server suggested
+ */
+async function fetchGuideFile(url: string): Promise<{ objectUrl: string; filename?: string }> {
+  const res = await fetch(url, {
+    headers: { Authorization: `Bearer ${localStorage.getItem(API_KEY_STORAGE_KEY) ?? ""}` },
+  });
+
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error ?? `Request failed (${res.status})`);
+  }
+
+  const objectUrl = URL.createObjectURL(await res.blob());
+  setTimeout(() => URL.revokeObjectURL(objectUrl), OBJECT_URL_LIFETIME_MS);
+
+  const filename = res.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1];
+  return { objectUrl, filename };
+}
+
+export default function History() {
+  const [filters, setFilters] = useState<Filters>({ company: "", domain: "", ae: "", from: "", to: "" });
+  const [guides, setGuides] = useState<GuideRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGuides = useCallback(async (current: Filters) => {
+    setIsLoading(true);
+    setError(null);
+
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(current)) {
+      if (value.trim()) {
+        query.set(key, value.trim());
+      }
+    }
+
+    const apiKey = localStorage.getItem(API_KEY_STORAGE_KEY);
+    if (!apiKey) {
+      setGuides([]);
+      setError("Enter an API key on the generator page to view guide history.");
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/guides?${query.toString()}`, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setGuides(data.guides);
+      } else {
+        setError(data.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGuides({ company: "", domain: "", ae: "", from: "", to: "" });
+  }, [loadGuides]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFilters((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadGuides(filters);
+  };
+
+  const openPreview = async (guide: GuideRecord) => {
+    // Open the tab while still handling the click so it is not blocked as a popup
+    const tab = window.open("", "_blank");
+    try {
+      const { objectUrl } = await fetchGuideFile(guide.previewUrl);
+      if (tab) {
+        tab.location.href = objectUrl;
+      }
+    } catch (err) {
+      tab?.close();
+      setError(err instanceof Error ? err.message : "Request failed");
+    }
+  };
+
+  const downloadPdf = async (pdfUrl: string) => {
+    try {
+      const { objectUrl, filename } = await fetchGuideFile(pdfUrl);
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = filename ?? "gift-guide.pdf";
+      link.click();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    }
+  };
+
+  return (
+    <div style={{ minHeight: "100vh", backgroundColor: "#f3f4f6", padding: "24px 16px" }}>
+      <div style={{ maxWidth: "1200px", margin: "0 auto" }}>
+        <div
+          style={{
+            backgroundColor: "white",
+            borderRadius: "16px",
+            boxShadow: "0 4px 20px rgba(0,0,0,0.08)",
+            padding: "24px 32px",
+            marginBottom: "24px",
+          }}
+        >
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "20px" }}>
+            <h1 style={{ fontSize: "24px", fontWeight: "bold", color: "#111827", margin: 0 }}>
+              Guide History
+            </h1>
+            <Link href="/" style={{ fontSize: "14px", fontWeight: "600", color: "#2563eb", textDecoration: "none" }}>
+              ← Generate a guide
+            </Link>
+          </div>
+
+          <form
+            onSubmit={handleSubmit}
+            style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr) auto", gap: "12px", alignItems: "end" }}
+          >
+            <div>
+              <label style={labelStyle}>Company</label>
+              <input type="text" name="company" value={filters.company} onChange={handleChange} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Domain</label>
+              <input type="text" name="domain" value={filters.domain} onChange={handleChange} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>AE</label>
+              <input type="text" name="ae" value={filters.ae} onChange={handleChange} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>From</label>
+              <input type="date" name="from" value={filters.from} onChange={handleChange} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>To</label>
+              <input type="date" name="to" value={filters.to} onChange={handleChange} style={inputStyle} />
+            </div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              style={{
+                backgroundColor: isLoading ? "#93c5fd" : "#2563eb",
+                color: "white",
+                fontWeight: "600",
+                padding: "10px 20px",
+                borderRadius: "8px",
+                border: "none",
+                fontSize: "14px",
+                cursor: isLoading ? "not-allowed" : "pointer",
+              }}
+            >
+              Search
+            </button>
+          </form>
+        </div>
+
+        <div
+          style={{
+            backgroundColor: "white",
+            borderRadius: "16px",
+            boxShadow: "0 4px 20px rgba(0,0,0,0.08)",
+            overflow: "hidden",
+          }}
+        >
+          {error ? (
+            <p style={{ padding: "24px", fontSize: "14px", color: "#991b1b", margin: 0 }}>{error}</p>
+          ) : guides.length === 0 ? (
+            <p style={{ padding: "24px", fontSize: "14px", color: "#6b7280", margin: 0 }}>
+              {isLoading ? "Loading…" : "No guides found."}
+            </p>
+          ) : (
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead style={{ backgroundColor: "#f9fafb" }}>
+                <tr>
+                  {["Created", "Company", "Recipient", "AE", "Colors", "Logo", "Email", ""].map((heading) => (
+                    <th
+                      key={heading}
+                      style={{ ...cellStyle, fontSize: "12px", fontWeight: "600", color: "#6b7280", textAlign: "left" }}
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {guides.map((guide) => (
+                  <tr key={guide.id}>
+                    <td style={cellStyle}>{new Date(guide.createdAt).toLocaleString()}</td>
+                    <td style={cellStyle}>
+                      <strong>{guide.request.companyName}</strong>
+                      <div style={{ fontSize: "12px", color: "#6b7280" }}>{guide.request.domain}</div>
+                    </td>
+                    <td style={cellStyle}>{guide.request.recipientEmail}</td>
+                    <td style={cellStyle}>
+                      {guide.request.aeName}
+                      <div style={{ fontSize: "12px", color: "#6b7280" }}>{guide.request.aeEmail}</div>
+                    </td>
+                    <td style={cellStyle}>
+                      {[guide.colors.primary, guide.colors.secondary].map((color) => (
+                        <span
+                          key={color}
+                          title={color}
+                          style={{
+                            display: "inline-block",
+                            width: "18px",
+                            height: "18px",
+                            borderRadius: "4px",
+                            marginRight: "4px",
+                            border: "1px solid #e5e7eb",
+                            backgroundColor: color,
+                          }}
+                        />
+                      ))}
+                    </td>
+                    <td style={cellStyle}>{guide.logoProvider}</td>
+                    <td style={cellStyle}>
+                      <span style={{ color: statusColors[guide.deliveryStatus] ?? "#374151", fontWeight: "600" }}>
+                        {guide.deliveryStatus}
+                      </span>
+                      {guide.emailError && (
+                        <div style={{ fontSize: "12px", color: "#991b1b" }}>{guide.emailError}</div>
+                      )}
+                    </td>
+                    <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                      <button type="button" onClick={() => openPreview(guide)} style={{ ...linkButtonStyle, marginRight: "12px" }}>
+                        Preview
+                      </button>
+                      {guide.pdfUrl && (
+                        <button type="button" onClick={() => downloadPdf(guide.pdfUrl!)} style={linkButtonStyle}>
+                          PDF
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
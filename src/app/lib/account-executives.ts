@@ -0,0 +1,133 @@
+/**
+ * Account Executive directory
+ *
+ * AEs are kept in DATA_DIR/account-executives.json so requests can name an
+ * AE by ID instead of retyping their contact details. Lookups read the file
+ * synchronously, like the catalog, so request validation stays synchronous.
+ */
+
+import crypto from 'crypto';
+import type { AccountExecutive, AccountExecutivePatch, AccountExecutiveRecord } from '../types';
+import { timestamp } from './utils';
+import { dataPath, readJsonFileSync, updateJsonFile } from './storage';
+
+/**
+ * Resolves the directory file path
+ * @returns Absolute path of account-executives.json
+ */
+function getDirectoryFile(): string {
+  return dataPath('account-executives.json');
+}
+
+/**
+ * Reads every directory entry
+ * @returns Stored AE records
+ */
+function readDirectory(): AccountExecutiveRecord[] {
+  return readJsonFileSync<AccountExecutiveRecord>(getDirectoryFile());
+}
+
+/**
+ * Applies a change to the directory atomically
+ * @param change - Mutates the entries and returns a result
+ * @returns The change's result
+ */
+function updateDirectory<T>(change: (entries: AccountExecutiveRecord[]) => T): Promise<T> {
+  return updateJsonFile(getDirectoryFile(), change);
+}
+
+/**
+ * Applies a patch to an optional field
+ * @param value - Patched value: null clears the field, undefined leaves it as it is
+ * @param current - Stored value
+ * @returns New value (undefined fields are left out when the directory is written)
+ */
+function patchOptional(value: string | null | undefined, current: string | undefined): string | undefined {
+  return value === null ? undefined : value ?? current;
+}
+
+/**
+ * Lists directory AEs by name
+ * @returns AE records
+ */
+export function listAccountExecutives(): AccountExecutiveRecord[] {
+  return readDirectory().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Looks up a directory AE
+ * @param id - AE identifier
+ * @returns AE record, or null if not found
+ */
+export function getAccountExecutive(id: string): AccountExecutiveRecord | null {
+  return readDirectory().find((entry) => entry.id === id) ?? null;
+}
+
+/**
+ * Adds an AE to the directory
+ * @param ae - Validated AE details
+ * @returns Created record
+ */
+export async function createAccountExecutive(ae: AccountExecutive): Promise<AccountExecutiveRecord> {
+  const now = new Date().toISOString();
+  const record: AccountExecutiveRecord = { ...ae, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+
+  await updateDirectory((entries) => entries.push(record));
+  console.log(`[${timestamp()}] Added AE ${record.id} (${record.name}) to the directory`);
+
+  return record;
+}
+
+/**
+ * Changes a directory AE
+ * Fields set to null are removed; omitted fields are left as they are.
+ * @param id - AE identifier
+ * @param patch - Validated fields to change
+ * @returns Updated record, or null if not found
+ */
+export async function updateAccountExecutive(
+  id: string,
+  patch: AccountExecutivePatch
+): Promise<AccountExecutiveRecord | null> {
+  return updateDirectory((entries) => {
+    const index = entries.findIndex((entry) => entry.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const current = entries[index];
+    const updated: AccountExecutiveRecord = {
+      ...current,
+      name: patch.name ?? current.name,
+      email: patch.email ?? current.email,
+      phone: patch.phone ?? current.phone,
+      title: patchOptional(patch.title, current.title),
+      headshotUrl: patchOptional(patch.headshotUrl, current.headshotUrl),
+      signature: patchOptional(patch.signature, current.signature),
+      bookingUrl: patchOptional(patch.bookingUrl, current.bookingUrl),
+      updatedAt: new Date().toISOString(),
+    };
+
+    entries[index] = updated;
+    return updated;
+  });
+}
+
+/**
+ * Removes an AE from the directory
+ * Guides already generated keep the AE details they were made with.
+ * @param id - AE identifier
+ * @returns Removed record, or null if not found
+ */
+export async function deleteAccountExecutive(id: string): Promise<AccountExecutiveRecord | null> {
+  const removed = await updateDirectory((entries) => {
+    const index = entries.findIndex((entry) => entry.id === id);
+    return index === -1 ? null : entries.splice(index, 1)[0];
+  });
+
+  if (removed) {
+    console.log(`[${timestamp()}] Removed AE ${removed.id} (${removed.name}) from the directory`);
+  }
+
+  return removed;
+}
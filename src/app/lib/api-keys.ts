@@ -0,0 +1,293 @@
+/**
+ * API key authentication
+ *
+ * Callers send "Authorization: Bearer <key>". Keys are random 32-byte
+ * secrets shown once when issued; only their SHA-256 hash is stored, in
+ * DATA_DIR/api-keys.json. Each key carries scopes (generate, send, batch)
+ * and may be tied to one AE, in which case it can only create and read
+ * guides signed by that AE. Keys are issued and revoked through the admin
+ * API, which is guarded by ADMIN_TOKEN.
+ */
+
+import crypto from 'crypto';
+import type { ApiKeyRecord, ApiKeyScope, ApiKeySummary, DeliveryMode, IssueApiKeyRequest } from '../types';
+import { isValidEmail, timestamp } from './utils';
+import { dataPath, readJsonFile, updateJsonFile } from './storage';
+import { getAccountExecutive } from './account-executives';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['generate', 'send', 'batch'];
+
+const KEY_PREFIX = 'ggk_';
+const PREFIX_LENGTH = 12;
+
+// Key IDs are UUIDs; anything else cannot name a key
+const KEY_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Outcome of authenticating a request
+ */
+export interface ApiKeyAuthResult {
+  /** Authenticated key when allowed */
+  apiKey?: ApiKeySummary;
+  error?: string;
+  /** 401 for a missing or unknown key, 403 for a key without permission */
+  status?: 401 | 403;
+}
+
+/**
+ * Resolves the key file path
+ * @returns Absolute path of api-keys.json
+ */
+function getKeyFile(): string {
+  return dataPath('api-keys.json');
+}
+
+/**
+ * Reads every stored key
+ * @returns Stored key records
+ */
+function readKeys(): Promise<ApiKeyRecord[]> {
+  return readJsonFile<ApiKeyRecord>(getKeyFile());
+}
+
+/**
+ * Applies a change to the stored keys atomically
+ * @param change - Mutates the key list and returns a result
+ * @returns The change's result
+ */
+function updateKeys<T>(change: (keys: ApiKeyRecord[]) => T): Promise<T> {
+  return updateJsonFile(getKeyFile(), change);
+}
+
+/**
+ * Hashes an API key for storage and lookup
+ * @param key - Full API key
+ * @returns SHA-256 hex digest
+ */
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Strips the hash from a stored key
+ * @param record - Stored key record
+ * @returns Key summary safe to return from the API
+ */
+function toSummary(record: ApiKeyRecord): ApiKeySummary {
+  const summary: Partial<ApiKeyRecord> = { ...record };
+  delete summary.hash;
+  return summary as ApiKeySummary;
+}
+
+/**
+ * Extracts the bearer token from an Authorization header
+ * @param authorization - Authorization header value
+ * @returns Token, or null if the header is missing or not a bearer token
+ */
+function readBearerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Compares a bearer token with a configured secret
+ * Digests are compared so the comparison is constant-time regardless of length.
+ * @param token - Token from the request, if any
+ * @param secret - Configured secret
+ * @returns boolean indicating if they match
+ */
+function matchesSecret(token: string | null, secret: string): boolean {
+  return token !== null && crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(token).digest(),
+    crypto.createHash('sha256').update(secret).digest()
+  );
+}
+
+/**
+ * Validates an issue-key request
+ * @param body - Request body to validate
+ * @returns Object with isValid flag and error message if invalid
+ */
+export function validateIssueApiKeyRequest(body: Partial<IssueApiKeyRequest>): { isValid: boolean; error?: string } {
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return { isValid: false, error: 'Missing or empty required field: name' };
+  }
+
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0) {
+    return { isValid: false, error: `Missing required field: scopes (any of ${API_KEY_SCOPES.join(', ')})` };
+  }
+
+  const unknownScopes = body.scopes.filter((scope) => !API_KEY_SCOPES.includes(scope));
+  if (unknownScopes.length > 0) {
+    return { isValid: false, error: `Unknown scopes: ${unknownScopes.join(', ')}` };
+  }
+
+  if (body.aeEmail !== undefined && (typeof body.aeEmail !== 'string' || !isValidEmail(body.aeEmail))) {
+    return { isValid: false, error: 'Invalid aeEmail format' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Issues a new API key
+ * @param request - Key owner, scopes and optional AE binding
+ * @returns The full key (shown once) and its stored summary
+ */
+export async function issueApiKey(request: IssueApiKeyRequest): Promise<{ key: string; apiKey: ApiKeySummary }> {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    name: request.name.trim(),
+    aeEmail: request.aeEmail?.trim().toLowerCase(),
+    scopes: [...new Set(request.scopes)],
+    prefix: key.slice(0, PREFIX_LENGTH),
+    hash: hashKey(key),
+    createdAt: new Date().toISOString(),
+  };
+
+  await updateKeys((keys) => keys.push(record));
+  console.log(`[${timestamp()}] Issued API key ${record.id} (${record.prefix}…) for ${record.name}: ${record.scopes.join(', ')}`);
+
+  return { key, apiKey: toSummary(record) };
+}
+
+/**
+ * Revokes an API key; revoked keys are kept for auditing
+ * @param keyId - Key identifier
+ * @returns Revoked key summary, or null if not found
+ */
+export async function revokeApiKey(keyId: string): Promise<ApiKeySummary | null> {
+  if (!KEY_ID_PATTERN.test(keyId)) {
+    return null;
+  }
+
+  const record = await updateKeys((keys) => {
+    const found = keys.find((key) => key.id === keyId);
+    if (found && !found.revokedAt) {
+      found.revokedAt = new Date().toISOString();
+    }
+    return found;
+  });
+
+  if (record) {
+    console.log(`[${timestamp()}] Revoked API key ${record.id} (${record.prefix}…)`);
+  }
+
+  return record ? toSummary(record) : null;
+}
+
+/**
+ * Lists API keys, newest first
+ * @returns Key summaries, including revoked keys
+ */
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  return (await readKeys())
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toSummary);
+}
+
+/**
+ * Authenticates a request by its API key and checks a scope
+ * @param authorization - Authorization header value
+ * @param scope - Scope the endpoint requires
+ * @returns Authenticated key, or an error with its HTTP status
+ */
+export async function authenticateApiKey(authorization: string | null, scope: ApiKeyScope): Promise<ApiKeyAuthResult> {
+  const token = readBearerToken(authorization);
+  if (!token) {
+    return { error: 'Missing API key: send "Authorization: Bearer <key>"', status: 401 };
+  }
+
+  const hash = hashKey(token);
+  const record = (await readKeys()).find((key) => key.hash === hash);
+
+  if (!record || record.revokedAt) {
+    console.warn(`[${timestamp()}] Rejected ${record ? 'revoked' : 'unknown'} API key ${token.slice(0, PREFIX_LENGTH)}…`);
+    return { error: 'Invalid or revoked API key', status: 401 };
+  }
+
+  if (!record.scopes.includes(scope)) {
+    return { error: `API key is missing the "${scope}" scope`, status: 403 };
+  }
+
+  const lastUsedAt = new Date().toISOString();
+  updateKeys((keys) => {
+    const found = keys.find((key) => key.id === record.id);
+    if (found) {
+      found.lastUsedAt = lastUsedAt;
+    }
+  }).catch((error) => {
+    console.warn(`[${timestamp()}] Could not record API key use:`, error instanceof Error ? error.message : 'Unknown error');
+  });
+
+  return { apiKey: toSummary({ ...record, lastUsedAt }) };
+}
+
+/**
+ * Checks that an authenticated key may create a particular guide
+ * Keys without the "send" scope are limited to download delivery, and keys
+ * tied to an AE may only create guides signed by that AE.
+ * @param apiKey - Authenticated key
+ * @param request - Delivery mode and AE email (or directory AE ID) of the guide request
+ * @returns Object with isValid flag and error message if not permitted
+ */
+export function checkGuidePermission(
+  apiKey: ApiKeySummary,
+  request: { delivery?: DeliveryMode; aeEmail?: string; aeId?: string }
+): { isValid: boolean; error?: string } {
+  if ((request.delivery ?? 'email') !== 'download' && !apiKey.scopes.includes('send')) {
+    return { isValid: false, error: 'API key is missing the "send" scope; use "delivery": "download"' };
+  }
+
+  const rawEmail = typeof request.aeId === 'string' ? getAccountExecutive(request.aeId)?.email : request.aeEmail;
+  const aeEmail = typeof rawEmail === 'string' ? rawEmail.trim().toLowerCase() : undefined;
+  if (apiKey.aeEmail && aeEmail !== apiKey.aeEmail) {
+    return { isValid: false, error: `API key may only create guides for ${apiKey.aeEmail}` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Checks whether an authenticated key may see a resource belonging to an AE
+ * Keys tied to an AE only reach that AE's guides, jobs, batches and scheduled sends.
+ * @param apiKey - Authenticated key
+ * @param aeEmail - Email of the AE the resource belongs to, if any
+ * @returns boolean indicating if the key's AE binding allows it
+ */
+export function canAccessAe(apiKey: ApiKeySummary, aeEmail: string | undefined): boolean {
+  return !apiKey.aeEmail || aeEmail?.toLowerCase() === apiKey.aeEmail;
+}
+
+/**
+ * Checks the admin token on an admin API request
+ * @param authorization - Authorization header value
+ * @returns Object with isValid flag, error message and HTTP status if rejected
+ */
+export function verifyAdminToken(authorization: string | null): { isValid: boolean; error?: string; status?: 401 | 500 } {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    console.error(`[${timestamp()}] Admin API called but ADMIN_TOKEN is not set`);
+    return { isValid: false, error: 'Admin token not configured', status: 500 };
+  }
+
+  return matchesSecret(readBearerToken(authorization), adminToken)
+    ? { isValid: true }
+    : { isValid: false, error: 'Invalid admin token', status: 401 };
+}
+
+/**
+ * Checks the token on a cron-triggered request
+ * Accepts CRON_SECRET (sent by Vercel Cron) or the admin token.
+ * @param authorization - Authorization header value
+ * @returns Object with isValid flag, error message and HTTP status if rejected
+ */
+export function verifyCronToken(authorization: string | null): { isValid: boolean; error?: string; status?: 401 | 500 } {
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && matchesSecret(readBearerToken(authorization), cronSecret)) {
+    return { isValid: true };
+  }
+
+  return verifyAdminToken(authorization);
+}
@@ -0,0 +1,330 @@
+/**
+ * Batch gift guide generation for lead lists
+ *
+ * A batch runs as a background job (see job-store.ts): each row goes through
+ * the same pipeline as a single request, and progress is recorded after
+ * every row. On Vercel the rows are worked through by the batch worker route
+ * (POST /api/generate-guide/batch/:batchId/run), which hands the rest of the
+ * batch to a fresh invocation before its own maxDuration runs out. Generated
+ * PDFs are kept under the data directory so they can be downloaded as a ZIP.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import type {
+  GenerateGuideRequest,
+  BatchJob,
+  BatchJobSummary,
+  BatchRowResult,
+  BatchSummary
+} from '../types';
+import { isVercel, sanitizeFilename, timestamp } from './utils';
+import { parseCsvRecords } from './csv';
+import { validateRequest } from './validation';
+import { runGuidePipeline } from './pipeline';
+import { SendBlockedError } from './send-policy';
+import { getDataDir } from './storage';
+import { getBatchJobStore } from './job-store';
+import { postToWorker } from './jobs';
+
+// Upper bound on rows accepted in one batch
+export const MAX_BATCH_ROWS = 500;
+
+// Request fields that hold lists; CSV cells separate entries with semicolons
+const LIST_FIELDS = ['productIds', 'categories', 'tags'] as const;
+
+// Request fields that hold flags; CSV cells read "true" or "false"
+const BOOLEAN_FIELDS = ['ccAe'] as const;
+
+// Request fields that map SKUs to numbers; CSV cells read "SKU:250;SKU:100"
+const QUANTITY_FIELDS = ['quantities'] as const;
+
+// Batch IDs are UUIDs; anything else must never reach the filesystem
+const BATCH_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Time a batch worker spends starting rows before handing the rest on; leaves
+// room within its 300 s maxDuration for the row in progress to finish
+const WORKER_ROW_BUDGET_MS = 200_000;
+
+/**
+ * Converts CSV text into generate-guide request rows
+ * Column headers must match GenerateGuideRequest field names.
+ * @param text - Raw CSV text
+ * @returns Request rows (unvalidated)
+ */
+export function parseBatchCsv(text: string): Partial<GenerateGuideRequest>[] {
+  return parseCsvRecords(text).map((record) => {
+    const row: Record<string, string | string[] | boolean | Record<string, number>> = {};
+
+    for (const [column, value] of Object.entries(record)) {
+      if (value === '') {
+        continue;
+      }
+
+      if ((LIST_FIELDS as readonly string[]).includes(column)) {
+        row[column] = value.split(';').map((v) => v.trim()).filter(Boolean);
+      } else if ((QUANTITY_FIELDS as readonly string[]).includes(column)) {
+        row[column] = Object.fromEntries(
+          value.split(';').map((v) => v.split(':')).filter(([sku]) => sku.trim()).map(([sku, quantity]) => [sku.trim(), Number(quantity)])
+        );
+      } else if ((BOOLEAN_FIELDS as readonly string[]).includes(column) && /^(true|false)$/i.test(value.trim())) {
+        row[column] = value.trim().toLowerCase() === 'true';
+      } else {
+        row[column] = value;
+      }
+    }
+
+    return row as Partial<GenerateGuideRequest>;
+  });
+}
+
+/**
+ * Resolves the directory holding a batch's PDFs
+ * @param batchId - Batch identifier
+ * @returns Absolute directory path, or null if the ID is malformed
+ */
+function getBatchDir(batchId: string): string | null {
+  if (!BATCH_ID_PATTERN.test(batchId)) {
+    return null;
+  }
+  return path.join(getDataDir(), 'batches', batchId);
+}
+
+/**
+ * Tallies row outcomes
+ * @param results - Per-row results
+ * @returns Batch summary counts
+ */
+function summarize(results: BatchRowResult[]): BatchSummary {
+  const summary: BatchSummary = { total: results.length, sent: 0, generated: 0, invalid: 0, blocked: 0, failed: 0 };
+  for (const result of results) {
+    summary[result.status]++;
+  }
+  return summary;
+}
+
+/**
+ * Runs the guide pipeline for one batch row
+ * A failing row is recorded in its result and never thrown.
+ * @param row - Request row (unvalidated)
+ * @param rowNumber - 1-based row number
+ * @param batchDir - Directory the row's PDF is written to
+ * @param callerId - API key ID of the caller, for send rate limits
+ * @returns Row result
+ */
+async function runBatchRow(
+  row: Partial<GenerateGuideRequest>,
+  rowNumber: number,
+  batchDir: string,
+  callerId?: string
+): Promise<BatchRowResult> {
+  const base = {
+    row: rowNumber,
+    companyName: typeof row.companyName === 'string' ? row.companyName : undefined,
+    recipientEmail: typeof row.recipientEmail === 'string' ? row.recipientEmail : undefined,
+  };
+
+  try {
+    // Validation reads stores (AE directory, email templates) that can fail, so it is inside the try too
+    const validation = validateRequest(row);
+    if (!validation.isValid) {
+      console.log(`[${timestamp()}] Batch row ${rowNumber} invalid: ${validation.error}`);
+      return { ...base, status: 'invalid', error: validation.error, fieldErrors: validation.fieldErrors };
+    }
+
+    const guideRequest = validation.data!;
+    base.companyName = guideRequest.companyName;
+
+    console.log(`[${timestamp()}] Batch row ${rowNumber}: ${guideRequest.companyName}`);
+    const result = await runGuidePipeline(guideRequest, { callerId });
+
+    const filename = `${String(rowNumber).padStart(3, '0')}-${sanitizeFilename(guideRequest.companyName)}-Gift-Guide.pdf`;
+    await fs.promises.writeFile(path.join(batchDir, filename), result.pdfBuffer);
+
+    return {
+      ...base,
+      status: result.emailSent ? 'sent' : 'generated',
+      message: result.message,
+      code: result.sendBlocked?.code,
+    };
+  } catch (error) {
+    if (error instanceof SendBlockedError) {
+      return { ...base, status: 'blocked', error: error.message, code: error.violation.code };
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`[${timestamp()}] Batch row ${rowNumber} failed: ${errorMessage}`);
+    return { ...base, status: 'failed', error: errorMessage };
+  }
+}
+
+/**
+ * Strips the submitted rows and caller from a batch job for API responses
+ * @param job - Stored batch job
+ * @returns Batch job summary
+ */
+export function toBatchJobSummary(job: BatchJob): BatchJobSummary {
+  const summary: Partial<BatchJob> = { ...job };
+  delete summary.rows;
+  delete summary.callerId;
+  return summary as BatchJobSummary;
+}
+
+/**
+ * Records a new queued batch
+ * @param rows - Request rows (unvalidated)
+ * @param callerId - API key ID of the caller, for send rate limits
+ * @param aeEmail - AE the caller's API key is tied to, so only that AE's keys can see the batch
+ * @returns The created batch job
+ */
+export async function createBatchJob(
+  rows: Partial<GenerateGuideRequest>[],
+  callerId?: string,
+  aeEmail?: string
+): Promise<BatchJob> {
+  const now = new Date().toISOString();
+  const job: BatchJob = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    total: rows.length,
+    processed: 0,
+    results: [],
+    rows,
+    callerId,
+    aeEmail,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  fs.mkdirSync(getBatchDir(job.id)!, { recursive: true });
+  await getBatchJobStore().create(job);
+  console.log(`[${timestamp()}] Created batch ${job.id} with ${rows.length} rows`);
+
+  return job;
+}
+
+/**
+ * Works through a batch's remaining rows, recording progress after each
+ * Rows are processed one at a time to keep Chromium memory bounded. Never
+ * throws; failures are stored on the batch.
+ * @param batchId - Batch identifier
+ * @param deadline - Time (ms since epoch) after which no new row is started
+ * @returns true if rows remain because the deadline passed
+ */
+export async function runBatchJob(batchId: string, deadline = Infinity): Promise<boolean> {
+  const store = getBatchJobStore();
+
+  try {
+    const job = await store.get(batchId);
+    if (!job || job.status === 'completed' || job.status === 'failed') {
+      return false;
+    }
+
+    if (job.status === 'queued') {
+      await store.update(batchId, { status: 'running', startedAt: new Date().toISOString() });
+      console.log(`[${timestamp()}] Batch ${batchId} started`);
+    }
+
+    const batchDir = getBatchDir(batchId)!;
+    const results = [...job.results];
+
+    for (let index = job.processed; index < job.rows.length; index++) {
+      if (Date.now() >= deadline) {
+        console.log(`[${timestamp()}] Batch ${batchId} paused after ${index}/${job.total} rows`);
+        return true;
+      }
+
+      results.push(await runBatchRow(job.rows[index], index + 1, batchDir, job.callerId));
+      await store.update(batchId, { processed: index + 1, results });
+    }
+
+    const summary = summarize(results);
+    const hasPdfs = results.some((result) => result.status === 'sent' || result.status === 'generated');
+
+    await store.update(batchId, {
+      status: 'completed',
+      summary,
+      zipUrl: hasPdfs ? `/api/generate-guide/batch/${batchId}/zip` : undefined,
+      rows: [],
+      completedAt: new Date().toISOString(),
+    });
+
+    console.log(`[${timestamp()}] Batch ${batchId} completed:`, summary);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`[${timestamp()}] Batch ${batchId} failed: ${errorMessage}`);
+
+    await store.update(batchId, {
+      status: 'failed',
+      error: errorMessage,
+      rows: [],
+      completedAt: new Date().toISOString(),
+    }).catch(() => undefined);
+  }
+
+  return false;
+}
+
+/**
+ * Starts (or continues) a batch, on the batch worker route when running on Vercel
+ * Never throws; a batch that cannot be handed over is marked failed.
+ * @param batchId - Batch identifier
+ */
+export async function dispatchBatchJob(batchId: string): Promise<void> {
+  if (!isVercel()) {
+    await runBatchJob(batchId);
+    return;
+  }
+
+  try {
+    await postToWorker(`/api/generate-guide/batch/${batchId}/run`, {});
+    console.log(`[${timestamp()}] Batch ${batchId} handed to the batch worker`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`[${timestamp()}] Batch ${batchId} could not be handed over: ${errorMessage}`);
+
+    await getBatchJobStore().update(batchId, {
+      status: 'failed',
+      error: `Batch could not be handed over: ${errorMessage}`,
+      rows: [],
+      completedAt: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Runs a batch on the batch worker until its time budget is spent, then hands the rest on
+ * @param batchId - Batch identifier
+ */
+export async function runBatchWorker(batchId: string): Promise<void> {
+  if (await runBatchJob(batchId, Date.now() + WORKER_ROW_BUDGET_MS)) {
+    await dispatchBatchJob(batchId);
+  }
+}
+
+/**
+ * Builds a ZIP archive of every PDF generated in a batch
+ * @param batchId - Batch identifier
+ * @returns ZIP buffer, or null if the batch does not exist
+ */
+export async function createBatchZip(batchId: string): Promise<Buffer | null> {
+  const batchDir = getBatchDir(batchId);
+
+  if (!batchDir || !fs.existsSync(batchDir)) {
+    return null;
+  }
+
+  const files = fs.readdirSync(batchDir).filter((f) => f.endsWith('.pdf')).sort();
+  if (files.length === 0) {
+    return null;
+  }
+
+  const zip = new JSZip();
+  for (const file of files) {
+    zip.file(file, fs.readFileSync(path.join(batchDir, file)));
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,292 @@
+/**
+ * Reusable Chromium browser pool for PDF rendering
+ *
+ * Keeps one warm browser and hands out pages in isolated browser contexts.
+ * The browser is recycled after a fixed number of renders or when it
+ * disconnects, concurrent renders are capped, and an idle browser is closed
+ * after a timeout to release memory.
+ *
+ * Configuration:
+ * - BROWSER_POOL_MAX_RENDERS: renders before a browser is recycled (default 50)
+ * - BROWSER_POOL_CONCURRENCY: maximum simultaneous renders (default 2)
+ * - BROWSER_POOL_IDLE_MS: idle time before the browser is closed (default 60000)
+ */
+
+import type { Browser, Page } from 'puppeteer-core';
+import { timestamp } from './utils';
+
+/**
+ * Browser pool tuning options
+ */
+export interface BrowserPoolOptions {
+  launch: () => Promise<Browser>;
+  maxRendersPerBrowser: number;
+  maxConcurrentRenders: number;
+  idleTimeoutMs: number;
+}
+
+/**
+ * Point-in-time pool statistics for debugging
+ */
+export interface BrowserPoolStats {
+  browserConnected: boolean;
+  browserLaunchedAt: string | null;
+  rendersOnCurrentBrowser: number;
+  activeRenders: number;
+  queuedRenders: number;
+  totalRenders: number;
+  failedRenders: number;
+  browsersLaunched: number;
+  browsersRecycled: number;
+  browserCrashes: number;
+  maxRendersPerBrowser: number;
+  maxConcurrentRenders: number;
+}
+
+/**
+ * A launched browser and its usage counters
+ */
+interface PooledBrowser {
+  browser: Browser;
+  launchedAt: Date;
+  renders: number;
+  active: number;
+  retired: boolean;
+}
+
+/**
+ * Pool that shares a warm Chromium instance across renders
+ */
+export class BrowserPool {
+  private current: PooledBrowser | null = null;
+  private launching: Promise<PooledBrowser> | null = null;
+  private activeRenders = 0;
+  private waiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  private idleTimer: NodeJS.Timeout | null = null;
+  private shuttingDown = false;
+
+  private totalRenders = 0;
+  private failedRenders = 0;
+  private browsersLaunched = 0;
+  private browsersRecycled = 0;
+  private browserCrashes = 0;
+
+  constructor(private readonly options: BrowserPoolOptions) {}
+
+  /**
+   * Runs a callback with a fresh page in an isolated browser context
+   * The page and its context are closed when the callback settles.
+   * @param fn - Work to perform with the page
+   * @returns The callback's result
+   */
+  async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+
+    let pooled: PooledBrowser | null = null;
+
+    try {
+      pooled = await this.getBrowser();
+      pooled.renders++;
+      pooled.active++;
+
+      const context = await pooled.browser.createBrowserContext();
+
+      try {
+        const page = await context.newPage();
+        const result = await fn(page);
+        this.totalRenders++;
+        return result;
+      } finally {
+        await context.close().catch(() => undefined);
+      }
+    } catch (error) {
+      this.failedRenders++;
+      throw error;
+    } finally {
+      if (pooled) {
+        pooled.active--;
+        this.maybeRetire(pooled);
+      }
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Returns current pool statistics
+   */
+  getStats(): BrowserPoolStats {
+    return {
+      browserConnected: !!this.current && this.current.browser.connected,
+      browserLaunchedAt: this.current ? this.current.launchedAt.toISOString() : null,
+      rendersOnCurrentBrowser: this.current ? this.current.renders : 0,
+      activeRenders: this.activeRenders,
+      queuedRenders: this.waiters.length,
+      totalRenders: this.totalRenders,
+      failedRenders: this.failedRenders,
+      browsersLaunched: this.browsersLaunched,
+      browsersRecycled: this.browsersRecycled,
+      browserCrashes: this.browserCrashes,
+      maxRendersPerBrowser: this.options.maxRendersPerBrowser,
+      maxConcurrentRenders: this.options.maxConcurrentRenders,
+    };
+  }
+
+  /**
+   * Closes the browser and rejects queued renders
+   * In-flight renders are allowed to fail as the browser closes.
+   */
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    this.clearIdleTimer();
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(new Error('Browser pool is shutting down'));
+    }
+
+    const pooled = this.current;
+    this.current = null;
+
+    if (pooled) {
+      console.log(`[${timestamp()}] Browser pool shutting down, closing browser...`);
+      await pooled.browser.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Waits until a render slot is free
+   */
+  private acquireSlot(): Promise<void> {
+    if (this.shuttingDown) {
+      return Promise.reject(new Error('Browser pool is shutting down'));
+    }
+
+    this.clearIdleTimer();
+
+    if (this.activeRenders < this.options.maxConcurrentRenders) {
+      this.activeRenders++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({
+        resolve: () => {
+          this.activeRenders++;
+          resolve();
+        },
+        reject,
+      });
+    });
+  }
+
+  /**
+   * Frees a render slot and hands it to the next waiter
+   */
+  private releaseSlot(): void {
+    this.activeRenders--;
+
+    const next = this.waiters.shift();
+    if (next) {
+      next.resolve();
+    } else if (this.activeRenders === 0) {
+      this.scheduleIdleClose();
+    }
+  }
+
+  /**
+   * Returns the warm browser, launching a new one if needed
+   */
+  private async getBrowser(): Promise<PooledBrowser> {
+    const current = this.current;
+
+    if (current && current.browser.connected && current.renders < this.options.maxRendersPerBrowser) {
+      return current;
+    }
+
+    if (current && current.browser.connected) {
+      // Render limit reached: stop handing out this browser and close it once idle
+      current.retired = true;
+      this.browsersRecycled++;
+      console.log(`[${timestamp()}] Recycling browser after ${current.renders} renders`);
+      this.maybeRetire(current);
+    }
+
+    this.current = null;
+
+    if (!this.launching) {
+      this.launching = this.launchBrowser().finally(() => {
+        this.launching = null;
+      });
+    }
+
+    return this.launching;
+  }
+
+  /**
+   * Launches a browser and tracks disconnects
+   */
+  private async launchBrowser(): Promise<PooledBrowser> {
+    console.log(`[${timestamp()}] Browser pool launching browser...`);
+
+    const browser = await this.options.launch();
+    const pooled: PooledBrowser = {
+      browser,
+      launchedAt: new Date(),
+      renders: 0,
+      active: 0,
+      retired: false,
+    };
+
+    browser.on('disconnected', () => {
+      if (!pooled.retired && !this.shuttingDown) {
+        this.browserCrashes++;
+        console.warn(`[${timestamp()}] Pooled browser disconnected unexpectedly, will relaunch on next render`);
+      }
+      if (this.current === pooled) {
+        this.current = null;
+      }
+    });
+
+    this.browsersLaunched++;
+    this.current = pooled;
+
+    console.log(`[${timestamp()}] Browser pool browser launched (#${this.browsersLaunched})`);
+
+    return pooled;
+  }
+
+  /**
+   * Closes a retired browser once its last render finishes
+   */
+  private maybeRetire(pooled: PooledBrowser): void {
+    if (pooled.retired && pooled.active === 0) {
+      pooled.browser.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Closes the browser after a period with no renders
+   */
+  private scheduleIdleClose(): void {
+    this.clearIdleTimer();
+
+    this.idleTimer = setTimeout(() => {
+      const pooled = this.current;
+      if (pooled && this.activeRenders === 0) {
+        console.log(`[${timestamp()}] Browser pool idle, closing browser`);
+        pooled.retired = true;
+        this.current = null;
+        this.maybeRetire(pooled);
+      }
+    }, this.options.idleTimeoutMs);
+
+    // Never keep the process alive just for the idle timer
+    this.idleTimer.unref();
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
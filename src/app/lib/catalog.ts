@@ -0,0 +1,191 @@
+/**
+ * Product catalog loading and selection
+ *
+ * Products live in JSON data files (one array of products per file) under
+ * src/app/data/catalog, or the directory named by CATALOG_DIR.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Product, ProductSelection } from '../types';
+import { timestamp } from './utils';
+
+// Maximum number of products featured when no explicit productIds are given
+const MAX_SELECTED_PRODUCTS = 8;
+
+// Tag used to pick products when the request has no selection criteria
+const DEFAULT_TAG = 'featured';
+
+let cachedCatalog: Product[] | null = null;
+
+/**
+ * Resolves the directory holding catalog data files
+ * @returns Absolute path to the catalog directory
+ */
+function getCatalogDir(): string {
+  return process.env.CATALOG_DIR || path.join(process.cwd(), 'src', 'app', 'data', 'catalog');
+}
+
+/**
+ * Checks that a catalog entry is priced, as a base price with a currency or as free text
+ * @param p - Parsed catalog entry
+ * @returns boolean indicating if the entry has a usable price
+ */
+function hasPrice(p: Record<string, unknown>): boolean {
+  if (p.basePrice !== undefined) {
+    return typeof p.basePrice === 'number' && Number.isFinite(p.basePrice) && p.basePrice >= 0 &&
+      typeof p.currency === 'string' && /^[A-Z]{3}$/.test(p.currency);
+  }
+  return typeof p.price === 'string';
+}
+
+/**
+ * Checks a catalog entry's quantity breaks and setup fee, which need a base price
+ * @param p - Parsed catalog entry
+ * @returns boolean indicating if the entry has no quote pricing or valid quote pricing
+ */
+function hasValidQuotePricing(p: Record<string, unknown>): boolean {
+  if (p.priceTiers === undefined && p.setupFee === undefined) {
+    return true;
+  }
+
+  const basePrice = p.basePrice;
+  if (typeof basePrice !== 'number') {
+    return false;
+  }
+
+  const tiersValid = p.priceTiers === undefined || (
+    Array.isArray(p.priceTiers) &&
+    p.priceTiers.every((tier: Record<string, unknown>) =>
+      !!tier && Number.isInteger(tier.minQuantity) && (tier.minQuantity as number) >= 2 &&
+      typeof tier.unitPrice === 'number' && tier.unitPrice >= 0 && tier.unitPrice <= basePrice
+    )
+  );
+  const setupFeeValid = p.setupFee === undefined ||
+    (typeof p.setupFee === 'number' && Number.isFinite(p.setupFee) && p.setupFee >= 0);
+
+  return tiersValid && setupFeeValid;
+}
+
+/**
+ * Checks that a parsed catalog entry has every required product field
+ * @param entry - Parsed JSON value
+ * @returns boolean indicating if entry is a valid Product
+ */
+function isProduct(entry: unknown): entry is Product {
+  if (!entry || typeof entry !== 'object') {
+    return false;
+  }
+
+  const p = entry as Record<string, unknown>;
+  return (
+    typeof p.sku === 'string' && p.sku.trim() !== '' &&
+    typeof p.name === 'string' &&
+    typeof p.category === 'string' &&
+    typeof p.description === 'string' &&
+    typeof p.imageUrl === 'string' &&
+    hasPrice(p) &&
+    hasValidQuotePricing(p) &&
+    Array.isArray(p.tags) && p.tags.every((t) => typeof t === 'string') &&
+    typeof p.active === 'boolean'
+  );
+}
+
+/**
+ * Loads all products from the catalog data files
+ * Results are cached for the lifetime of the server process.
+ * @returns Every product in the catalog, including inactive ones
+ */
+export function loadCatalog(): Product[] {
+  if (cachedCatalog) {
+    return cachedCatalog;
+  }
+
+  const catalogDir = getCatalogDir();
+  const files = fs.readdirSync(catalogDir).filter((f) => f.endsWith('.json')).sort();
+  const products: Product[] = [];
+  const seenSkus = new Set<string>();
+
+  for (const file of files) {
+    const entries: unknown = JSON.parse(fs.readFileSync(path.join(catalogDir, file), 'utf-8'));
+
+    if (!Array.isArray(entries)) {
+      console.warn(`[${timestamp()}] Catalog file ${file} is not an array, skipping`);
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (!isProduct(entry)) {
+        console.warn(`[${timestamp()}] Skipping malformed product in ${file}:`, entry);
+        continue;
+      }
+
+      if (seenSkus.has(entry.sku)) {
+        console.warn(`[${timestamp()}] Duplicate SKU ${entry.sku} in ${file}, skipping`);
+        continue;
+      }
+
+      seenSkus.add(entry.sku);
+      products.push(entry);
+    }
+  }
+
+  console.log(`[${timestamp()}] Loaded ${products.length} products from ${files.length} catalog files`);
+
+  cachedCatalog = products;
+  return products;
+}
+
+/**
+ * Looks up a single product by SKU
+ * @param sku - Product SKU
+ * @returns Product or undefined if the SKU is unknown
+ */
+export function getProduct(sku: string): Product | undefined {
+  return loadCatalog().find((p) => p.sku === sku);
+}
+
+/**
+ * Finds product IDs that do not refer to an active catalog product
+ * @param productIds - Requested SKUs
+ * @returns SKUs that are unknown or inactive
+ */
+export function findUnknownProductIds(productIds: string[]): string[] {
+  return productIds.filter((id) => !getProduct(id)?.active);
+}
+
+/**
+ * Selects the products to feature in a guide
+ * - productIds: exactly those products, in the given order
+ * - categories / tags: active products matching any category and any tag
+ * - nothing: active products tagged "featured"
+ * @param selection - Selection criteria from the request
+ * @returns Products to feature
+ */
+export function selectProducts(selection: ProductSelection): Product[] {
+  const { productIds, categories, tags } = selection;
+  const active = loadCatalog().filter((p) => p.active);
+
+  if (productIds && productIds.length > 0) {
+    return productIds
+      .map((id) => active.find((p) => p.sku === id))
+      .filter((p): p is Product => p !== undefined);
+  }
+
+  const hasCategories = !!categories && categories.length > 0;
+  const hasTags = !!tags && tags.length > 0;
+
+  const wantedCategories = new Set((categories || []).map((c) => c.toLowerCase()));
+  const wantedTags = new Set((tags || []).map((t) => t.toLowerCase()));
+
+  const matches = active.filter((p) => {
+    if (!hasCategories && !hasTags) {
+      return p.tags.includes(DEFAULT_TAG);
+    }
+    const categoryMatch = !hasCategories || wantedCategories.has(p.category.toLowerCase());
+    const tagMatch = !hasTags || p.tags.some((t) => wantedTags.has(t.toLowerCase()));
+    return categoryMatch && tagMatch;
+  });
+
+  return matches.slice(0, MAX_SELECTED_PRODUCTS);
+}
@@ -0,0 +1,83 @@
+/**
+ * Minimal CSV parsing for lead list uploads (RFC 4180 quoting)
+ */
+
+/**
+ * Parses CSV text into rows of cells
+ * Supports quoted fields containing commas, newlines and escaped quotes.
+ * @param text - Raw CSV text
+ * @returns Array of rows, each an array of cell strings
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 byte order mark written by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+/**
+ * Parses CSV text with a header row into records keyed by column name
+ * @param text - Raw CSV text
+ * @returns Array of records, one per data row
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((c) => c.trim());
+
+  return rows.map((row) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = (row[index] ?? '').trim();
+    });
+    return record;
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Company domain normalization
+ *
+ * AEs paste whatever they have to hand: a bare domain, a URL copied from the
+ * browser, or a contact's email address. Everything is reduced to a lowercase
+ * ASCII hostname (IDNs in punycode) without "www", and checked against the
+ * Public Suffix List so multi-part TLDs such as co.uk are understood.
+ */
+
+import { domainToUnicode } from 'url';
+import { parse } from 'tldts';
+
+/**
+ * Normalizes a domain, URL or email address to a bare hostname
+ * @param input - Value as entered (e.g. "https://www.nike.com/", "jane@acme.io", "shop.nike.co.uk")
+ * @returns Lowercase ASCII hostname (e.g. "nike.com"), or null if it is not a public domain
+ */
+export function normalizeDomain(input: string): string | null {
+  let value = input.trim();
+  if (!value) {
+    return null;
+  }
+
+  // Email address: keep the part after the @
+  if (!value.includes('://') && value.includes('@')) {
+    value = value.slice(value.lastIndexOf('@') + 1);
+  }
+
+  // Let the URL parser strip scheme, credentials, port and path and convert IDNs to punycode
+  let hostname: string;
+  try {
+    hostname = new URL(value.includes('://') ? value : `http://${value}`).hostname;
+  } catch {
+    return null;
+  }
+
+  hostname = hostname.replace(/\.$/, '').replace(/^www\./, '');
+
+  const parsed = parse(hostname);
+  if (parsed.isIp || !parsed.isIcann || !parsed.domain || parsed.hostname !== hostname) {
+    return null;
+  }
+
+  return hostname;
+}
+
+/**
+ * Suggests a company display name from a domain
+ * @param domain - Normalized domain (e.g. "acme-labs.co.uk")
+ * @returns Title-cased name of the registrable label (e.g. "Acme Labs")
+ */
+export function suggestCompanyName(domain: string): string {
+  const label = parse(domain).domainWithoutSuffix || domain.split('.')[0];
+
+  return domainToUnicode(label)
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
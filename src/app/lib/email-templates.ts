@@ -0,0 +1,203 @@
+/**
+ * Email templates for guide delivery
+ *
+ * Templates hold the subject and body copy of the guide email, with
+ * {{mergeField}} placeholders filled in per guide. Templates added by admins
+ * are kept in DATA_DIR/email-templates.json; the built-in "default" template
+ * cannot be changed, is used when a request names none and is written in the
+ * guide's language (see ./i18n). Lookups read the file synchronously so
+ * request validation stays synchronous.
+ */
+
+import crypto from 'crypto';
+import type { AccountExecutive, EmailTemplate, EmailTemplateRecord, MergeField, MergeValues, Product } from '../types';
+import { timestamp } from './utils';
+import { dataPath, readJsonFileSync, updateJsonFile } from './storage';
+import { DEFAULT_LOCALE, formatList, getMessages } from './i18n';
+
+export const DEFAULT_EMAIL_TEMPLATE_ID = 'default';
+
+export const MERGE_FIELDS: readonly MergeField[] = [
+  'recipientEmail',
+  'companyName',
+  'domain',
+  'aeName',
+  'aeTitle',
+  'aeEmail',
+  'aePhone',
+  'productNames',
+  'productCount',
+];
+
+const MERGE_FIELD_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Builds the built-in template in a guide's language
+ * @param locale - BCP 47 tag (defaults to English)
+ * @returns Default template record
+ */
+export function getDefaultEmailTemplate(locale: string = DEFAULT_LOCALE): EmailTemplateRecord {
+  const messages = getMessages(locale);
+
+  return {
+    id: DEFAULT_EMAIL_TEMPLATE_ID,
+    name: 'Default',
+    subject: messages.emailSubject,
+    body: messages.emailBody,
+    createdAt: '1970-01-01T00:00:00.000Z',
+    updatedAt: '1970-01-01T00:00:00.000Z',
+  };
+}
+
+/**
+ * Resolves the template file path
+ * @returns Absolute path of email-templates.json
+ */
+function getTemplateFile(): string {
+  return dataPath('email-templates.json');
+}
+
+/**
+ * Reads every stored template
+ * @returns Stored template records
+ */
+function readTemplates(): EmailTemplateRecord[] {
+  return readJsonFileSync<EmailTemplateRecord>(getTemplateFile());
+}
+
+/**
+ * Applies a change to the stored templates atomically
+ * @param change - Mutates the entries and returns a result
+ * @returns The change's result
+ */
+function updateTemplates<T>(change: (entries: EmailTemplateRecord[]) => T): Promise<T> {
+  return updateJsonFile(getTemplateFile(), change);
+}
+
+/**
+ * Lists email templates, the built-in default first and the rest by name
+ * @returns Template records
+ */
+export function listEmailTemplates(): EmailTemplateRecord[] {
+  return [getDefaultEmailTemplate(), ...readTemplates().sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+/**
+ * Looks up an email template
+ * @param id - Template identifier ("default" for the built-in template)
+ * @param locale - Language of the built-in template; stored templates are used as written
+ * @returns Template record, or null if not found
+ */
+export function getEmailTemplate(id: string, locale?: string): EmailTemplateRecord | null {
+  if (id === DEFAULT_EMAIL_TEMPLATE_ID) {
+    return getDefaultEmailTemplate(locale);
+  }
+  return readTemplates().find((entry) => entry.id === id) ?? null;
+}
+
+/**
+ * Adds an email template
+ * @param template - Validated template copy
+ * @returns Created record
+ */
+export async function createEmailTemplate(template: EmailTemplate): Promise<EmailTemplateRecord> {
+  const now = new Date().toISOString();
+  const record: EmailTemplateRecord = { ...template, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+
+  await updateTemplates((entries) => entries.push(record));
+  console.log(`[${timestamp()}] Added email template ${record.id} (${record.name})`);
+
+  return record;
+}
+
+/**
+ * Changes a stored email template
+ * @param id - Template identifier
+ * @param patch - Validated fields to change
+ * @returns Updated record, or null if not found
+ */
+export async function updateEmailTemplate(
+  id: string,
+  patch: Partial<EmailTemplate>
+): Promise<EmailTemplateRecord | null> {
+  return updateTemplates((entries) => {
+    const index = entries.findIndex((entry) => entry.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    entries[index] = { ...entries[index], ...patch, updatedAt: new Date().toISOString() };
+    return entries[index];
+  });
+}
+
+/**
+ * Removes a stored email template
+ * Guides already sent keep the template ID they were sent with.
+ * @param id - Template identifier
+ * @returns Removed record, or null if not found
+ */
+export async function deleteEmailTemplate(id: string): Promise<EmailTemplateRecord | null> {
+  const removed = await updateTemplates((entries) => {
+    const index = entries.findIndex((entry) => entry.id === id);
+    return index === -1 ? null : entries.splice(index, 1)[0];
+  });
+
+  if (removed) {
+    console.log(`[${timestamp()}] Removed email template ${removed.id} (${removed.name})`);
+  }
+
+  return removed;
+}
+
+/**
+ * Finds placeholders that are not merge fields
+ * @param text - Template subject or body
+ * @returns Unknown field names, without duplicates
+ */
+export function findUnknownMergeFields(text: string): string[] {
+  const unknown = [...text.matchAll(MERGE_FIELD_PATTERN)]
+    .map((match) => match[1])
+    .filter((field) => !(MERGE_FIELDS as readonly string[]).includes(field));
+  return [...new Set(unknown)];
+}
+
+/**
+ * Fills merge fields into template text
+ * @param text - Template subject or body
+ * @param values - Merge field values
+ * @returns Text with every known placeholder replaced
+ */
+export function applyMergeFields(text: string, values: MergeValues): string {
+  return text.replace(MERGE_FIELD_PATTERN, (placeholder, field: string) =>
+    (MERGE_FIELDS as readonly string[]).includes(field) ? values[field as MergeField] : placeholder
+  );
+}
+
+/**
+ * Collects merge field values for one guide
+ * @param guide - Recipient, company, AE, featured products and language
+ * @returns Merge field values
+ */
+export function getMergeValues(guide: {
+  recipientEmail: string;
+  companyName: string;
+  domain: string;
+  accountExecutive: AccountExecutive;
+  products: Product[];
+  locale?: string;
+}): MergeValues {
+  const { accountExecutive, products, locale } = guide;
+
+  return {
+    recipientEmail: guide.recipientEmail,
+    companyName: guide.companyName,
+    domain: guide.domain,
+    aeName: accountExecutive.name,
+    aeTitle: accountExecutive.title || getMessages(locale).defaultAeTitle,
+    aeEmail: accountExecutive.email,
+    aePhone: accountExecutive.phone,
+    productNames: formatList(products.map((product) => product.name), locale),
+    productCount: String(products.length),
+  };
+}
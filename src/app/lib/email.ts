@@ -0,0 +1,369 @@
+/**
+ * Gift guide and quote-request email delivery through a pluggable transport
+ *
+ * EMAIL_TRANSPORT selects the transport ("resend" or "smtp"). When unset,
+ * Resend is used if RESEND_API_KEY is present, otherwise SMTP if SMTP_HOST is.
+ * The transport is built once and reused, so SMTP connections are pooled
+ * across sends; it is rebuilt only when the configuration changes.
+ */
+
+import { Resend } from 'resend';
+import nodemailer from 'nodemailer';
+import type { AccountExecutive, EmailContent, EmailMessage, EmailSendResult } from '../types';
+import { sanitizeFilename, timestamp } from './utils';
+
+// Default sender when a transport has no sender configured
+const DEFAULT_SENDER_NAME = 'UpMerch';
+const DEFAULT_SENDER_ADDRESS = 'onboarding@resend.dev';
+
+// Content-ID the email HTML uses for the inline cover thumbnail
+export const COVER_IMAGE_CID = 'guide-cover';
+
+/**
+ * Sender identity used in the From header
+ */
+export interface EmailSender {
+  name: string;
+  address: string;
+}
+
+/**
+ * Delivery backend for outgoing email
+ * Implementations report failures in the result instead of throwing.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  readonly sender: EmailSender;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+  /** Releases open connections once the transport is replaced */
+  close?(): void;
+}
+
+/**
+ * Formats a sender as an RFC 5322 mailbox ("Name <address>")
+ * @param sender - Sender identity
+ * @returns Formatted mailbox string
+ */
+function formatSender(sender: EmailSender): string {
+  const name = sender.name.replace(/["\\]/g, '');
+  return name ? `"${name}" <${sender.address}>` : sender.address;
+}
+
+/**
+ * Reads a transport's sender from environment variables
+ * A legacy "Name <address>" value in the address variable is also accepted.
+ * @param nameVar - Environment variable holding the display name
+ * @param addressVar - Environment variable holding the address
+ * @returns Sender identity
+ */
+function readSender(nameVar: string, addressVar: string): EmailSender {
+  const rawAddress = process.env[addressVar] || DEFAULT_SENDER_ADDRESS;
+  const mailbox = rawAddress.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+
+  if (mailbox) {
+    return {
+      name: process.env[nameVar] || mailbox[1] || DEFAULT_SENDER_NAME,
+      address: mailbox[2],
+    };
+  }
+
+  return {
+    name: process.env[nameVar] || DEFAULT_SENDER_NAME,
+    address: rawAddress.trim(),
+  };
+}
+
+/**
+ * Sends email through the Resend API
+ */
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend';
+  private readonly client: Resend;
+
+  constructor(apiKey: string, readonly sender: EmailSender) {
+    this.client = new Resend(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const { data, error } = await this.client.emails.send({
+        from: formatSender(this.sender),
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        replyTo: message.replyTo,
+        cc: message.cc,
+        headers: message.headers,
+        attachments: message.attachments?.map((a) => ({
+          filename: a.filename,
+          content: a.content,
+          contentType: a.contentType,
+          contentId: a.contentId,
+        })),
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, messageId: data?.id };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown Resend error' };
+    }
+  }
+}
+
+/**
+ * SMTP connection settings
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * Sends email through an SMTP relay with nodemailer
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(options: SmtpOptions, readonly sender: EmailSender) {
+    this.transporter = nodemailer.createTransport({
+      pool: true,
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: formatSender(this.sender),
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        replyTo: message.replyTo,
+        cc: message.cc,
+        headers: message.headers,
+        attachments: message.attachments?.map((a) => ({
+          filename: a.filename,
+          content: a.content,
+          contentType: a.contentType,
+          cid: a.contentId,
+        })),
+      });
+
+      return { success: true, messageId: info.messageId };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown SMTP error' };
+    }
+  }
+
+  close(): void {
+    this.transporter.close();
+  }
+}
+
+/**
+ * Transport settings read from the environment
+ */
+type EmailTransportConfig =
+  | { name: 'resend'; apiKey: string; sender: EmailSender }
+  | { name: 'smtp'; options: SmtpOptions; sender: EmailSender };
+
+// Transport built for the current configuration, reused until the configuration changes
+let currentTransport: { configKey: string; transport: EmailTransport } | null = null;
+
+/**
+ * Reads the transport selected by configuration
+ * @returns Transport settings, or null if email is not configured
+ */
+function readTransportConfig(): EmailTransportConfig | null {
+  const selected = process.env.EMAIL_TRANSPORT
+    || (process.env.RESEND_API_KEY ? 'resend' : process.env.SMTP_HOST ? 'smtp' : '');
+
+  if (selected === 'resend' && process.env.RESEND_API_KEY) {
+    return {
+      name: 'resend',
+      apiKey: process.env.RESEND_API_KEY,
+      sender: readSender('RESEND_FROM_NAME', 'RESEND_FROM_EMAIL'),
+    };
+  }
+
+  if (selected === 'smtp' && process.env.SMTP_HOST) {
+    const port = Number.parseInt(process.env.SMTP_PORT || '587', 10);
+    return {
+      name: 'smtp',
+      options: {
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+      sender: readSender('SMTP_FROM_NAME', 'SMTP_FROM_EMAIL'),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Returns the transport selected by configuration, building it on first use
+ * @returns Configured transport, or null if email is not configured
+ */
+export function getEmailTransport(): EmailTransport | null {
+  const config = readTransportConfig();
+  const configKey = JSON.stringify(config);
+
+  if (currentTransport?.configKey === configKey) {
+    return currentTransport.transport;
+  }
+
+  currentTransport?.transport.close?.();
+  currentTransport = null;
+
+  if (!config) {
+    return null;
+  }
+
+  const transport = config.name === 'resend'
+    ? new ResendTransport(config.apiKey, config.sender)
+    : new SmtpTransport(config.options, config.sender);
+
+  currentTransport = { configKey, transport };
+  return transport;
+}
+
+/**
+ * Checks whether email delivery is configured, without building a transport
+ * @returns boolean indicating if emails can be sent
+ */
+export function isEmailConfigured(): boolean {
+  return readTransportConfig() !== null;
+}
+
+/**
+ * Options for the gift guide email
+ */
+export interface GuideEmailOptions {
+  /** Rendered subject and bodies */
+  content: EmailContent;
+  /** Signed opt-out link for the List-Unsubscribe header */
+  unsubscribeUrl: string;
+  /** Copy the AE on the email */
+  ccAe?: boolean;
+  /** Cover thumbnail the HTML shows as "cid:guide-cover" */
+  coverImage?: Buffer | null;
+}
+
+/**
+ * Sends the gift guide email with PDF attachment
+ * Replies go to the AE rather than the sending address.
+ * @param recipientEmail - Email address to send to
+ * @param companyName - Company name for the attachment filename
+ * @param accountExecutive - AE who receives replies and, optionally, a copy
+ * @param pdfBuffer - PDF file buffer to attach
+ * @param options - Rendered email, unsubscribe link, CC choice and cover thumbnail
+ * @returns EmailSendResult with message ID or error
+ */
+export async function sendEmail(
+  recipientEmail: string,
+  companyName: string,
+  accountExecutive: AccountExecutive,
+  pdfBuffer: Buffer,
+  options: GuideEmailOptions
+): Promise<EmailSendResult> {
+  const { content, unsubscribeUrl, ccAe, coverImage } = options;
+  const transport = getEmailTransport();
+
+  if (!transport) {
+    return { success: false, error: 'Email transport not configured' };
+  }
+
+  const sanitizedCompanyName = sanitizeFilename(companyName);
+  const filename = `${sanitizedCompanyName}-Gift-Guide.pdf`;
+
+  console.log(`[${timestamp()}] Sending email to ${recipientEmail}${ccAe ? ` (cc ${accountExecutive.email})` : ''} via ${transport.name}...`);
+
+  const result = await transport.send({
+    to: recipientEmail,
+    subject: content.subject,
+    html: content.html,
+    text: content.text,
+    replyTo: accountExecutive.email,
+    cc: ccAe ? accountExecutive.email : undefined,
+    // RFC 8058 one-click unsubscribe: mail clients POST to the URL directly
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+    attachments: [
+      {
+        filename,
+        content: pdfBuffer,
+        contentType: 'application/pdf',
+      },
+      ...(coverImage
+        ? [{
+          filename: `${sanitizedCompanyName}-Gift-Guide-Cover.png`,
+          content: coverImage,
+          contentType: 'image/png',
+          contentId: COVER_IMAGE_CID,
+        }]
+        : []),
+    ],
+  });
+
+  if (result.success) {
+    console.log(`[${timestamp()}] Email sent successfully. ID: ${result.messageId}`);
+  } else {
+    console.error(`[${timestamp()}] Email send via ${transport.name} failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * Forwards a recipient's quote request to the guide's AE
+ * Replies go to the recipient, so the AE can answer straight from their inbox.
+ * @param aeEmail - AE who receives the request
+ * @param replyTo - Recipient who sent the request
+ * @param content - Rendered quote-request email
+ * @returns EmailSendResult with message ID or error
+ */
+export async function sendQuoteRequestEmail(
+  aeEmail: string,
+  replyTo: string,
+  content: EmailContent
+): Promise<EmailSendResult> {
+  const transport = getEmailTransport();
+
+  if (!transport) {
+    return { success: false, error: 'Email transport not configured' };
+  }
+
+  console.log(`[${timestamp()}] Forwarding quote request to ${aeEmail} via ${transport.name}...`);
+
+  const result = await transport.send({
+    to: aeEmail,
+    subject: content.subject,
+    html: content.html,
+    text: content.text,
+    replyTo,
+  });
+
+  if (!result.success) {
+    console.error(`[${timestamp()}] Quote request forward via ${transport.name} failed: ${result.error}`);
+  }
+
+  return result;
+}
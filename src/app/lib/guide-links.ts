@@ -0,0 +1,49 @@
+/**
+ * Signed links for viewing a guide without an API key
+ *
+ * The guide preview needs an API key, but the guide email links its cover
+ * image to the preview and the AE's quote-request email links to it too.
+ * Those links carry a signed token (see signed-tokens.ts) naming the guide,
+ * signed with GUIDE_LINK_SECRET (see loadSecret in storage.ts).
+ */
+
+import { getAppBaseUrl } from './utils';
+import { loadSecret } from './storage';
+import { createSignedToken, verifySignedToken } from './signed-tokens';
+import { getGuidePreviewUrl } from './guides';
+
+/**
+ * Returns the guide-link signing key
+ * @returns Secret string
+ */
+function getSecret(): string {
+  return loadSecret('GUIDE_LINK_SECRET', 'guide-link-secret');
+}
+
+/**
+ * Creates a signed guide-view token
+ * @param guideId - Guide the link opens
+ * @returns Token of the form "<payload>.<signature>"
+ */
+export function createGuideViewToken(guideId: string): string {
+  return createSignedToken({ g: guideId }, getSecret());
+}
+
+/**
+ * Checks that a guide-view token was issued for a guide
+ * @param token - Token from a guide link
+ * @param guideId - Guide being opened
+ * @returns boolean indicating if the token opens that guide
+ */
+export function verifyGuideViewToken(token: string, guideId: string): boolean {
+  return verifySignedToken(token, getSecret())?.g === guideId;
+}
+
+/**
+ * Builds the public preview URL for a guide
+ * @param guideId - Guide the link opens
+ * @returns Absolute URL of the guide preview
+ */
+export function getGuideViewUrl(guideId: string): string {
+  return `${getAppBaseUrl()}${getGuidePreviewUrl(guideId)}?token=${createGuideViewToken(guideId)}`;
+}
@@ -0,0 +1,500 @@
+/**
+ * Persistent guide history
+ *
+ * Every generated guide gets a directory under DATA_DIR/guides/<guideId>/
+ * holding its record (guide.json), the rendered HTML (preview.html), the
+ * recipient's quote requests (quote-requests.json) and, when kept for
+ * download, the PDF under its download filename. Listing scans
+ * the records, which is fine for the volume a sales team produces; swap in a
+ * database behind these functions if that changes. Webhooks and the send
+ * policy look guides up on every event and send, so emailed guides are also
+ * indexed by message ID and recipient in DATA_DIR/guide-index.json; the index
+ * is rebuilt from the records when the file is missing.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { GenerateGuideRequest, GuideFilter, GuideRecord, QuoteRequest } from '../types';
+import { sanitizeFilename } from './utils';
+import { dataPath, getDataDir, readJsonFile, updateJsonFile } from './storage';
+
+// Guide IDs are UUIDs; anything else must never reach the filesystem
+const GUIDE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Records returned by listGuides when no limit is given, and the upper bound
+export const DEFAULT_GUIDE_LIST_LIMIT = 50;
+export const MAX_GUIDE_LIST_LIMIT = 500;
+
+const RECORD_FILE = 'guide.json';
+const PREVIEW_FILE = 'preview.html';
+const COVER_FILE = 'cover.png';
+const QUOTE_REQUESTS_FILE = 'quote-requests.json';
+const INDEX_FILE = 'guide-index.json';
+
+// Serializes writes to guide records and the index within this process
+let guideQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Changes that can be applied to a stored guide record
+ */
+type GuidePatch = Partial<Omit<GuideRecord, 'id' | 'createdAt'>>;
+
+/**
+ * Emailed guides by message ID and by recipient
+ */
+interface GuideIndex {
+  /** Guide ID by email provider message ID */
+  messageIds: Record<string, string>;
+  /** Send time of each guide emailed to a recipient, by lowercased address and guide ID */
+  sends: Record<string, Record<string, string>>;
+}
+
+/**
+ * Resolves the root directory of guide history
+ * @returns Absolute directory path
+ */
+function getGuidesRoot(): string {
+  return path.join(getDataDir(), 'guides');
+}
+
+/**
+ * Resolves the directory holding one guide
+ * @param guideId - Guide identifier
+ * @returns Absolute directory path, or null if the ID is malformed
+ */
+function getGuideDir(guideId: string): string | null {
+  if (!GUIDE_ID_PATTERN.test(guideId)) {
+    return null;
+  }
+  return path.join(getGuidesRoot(), guideId);
+}
+
+/**
+ * Builds the download URL for a stored guide PDF
+ * @param guideId - Guide identifier
+ * @returns Relative API URL
+ */
+export function getGuidePdfUrl(guideId: string): string {
+  return `/api/guides/${guideId}/pdf`;
+}
+
+/**
+ * Builds the HTML preview URL for a stored guide
+ * @param guideId - Guide identifier
+ * @returns Relative API URL
+ */
+export function getGuidePreviewUrl(guideId: string): string {
+  return `/api/guides/${guideId}/preview`;
+}
+
+/**
+ * Strips request fields that are not worth keeping in history
+ * @param request - Validated generate-guide request
+ * @returns Request without the uploaded logo and async flag
+ */
+export function toStoredRequest(request: GenerateGuideRequest): GuideRecord['request'] {
+  const stored: Partial<GenerateGuideRequest> = { ...request };
+  delete stored.logoDataUri;
+  delete stored.async;
+  return stored as GuideRecord['request'];
+}
+
+/**
+ * Writes a guide record atomically so readers never see a partial file
+ * @param dir - Guide directory
+ * @param record - Guide record
+ */
+async function writeRecord(dir: string, record: GuideRecord): Promise<void> {
+  const target = path.join(dir, RECORD_FILE);
+  const temp = `${target}.tmp`;
+  await fs.promises.writeFile(temp, JSON.stringify(record, null, 2));
+  await fs.promises.rename(temp, target);
+}
+
+/**
+ * Runs a write to guide records or the index once earlier writes have finished
+ * @param task - Write to run
+ * @returns The write's result
+ */
+function enqueueGuideWrite<T>(task: () => Promise<T>): Promise<T> {
+  const run = guideQueue.then(task);
+  guideQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Reads the guide index file
+ * @returns Index, or null when it has not been written yet or cannot be read
+ */
+async function readIndexFile(): Promise<GuideIndex | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(dataPath(INDEX_FILE), 'utf-8')) as GuideIndex;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes the guide index atomically
+ * @param index - Guide index
+ */
+async function writeIndexFile(index: GuideIndex): Promise<void> {
+  const target = dataPath(INDEX_FILE);
+  await fs.promises.writeFile(`${target}.tmp`, JSON.stringify(index, null, 2));
+  await fs.promises.rename(`${target}.tmp`, target);
+}
+
+/**
+ * Adds a guide's email to the index
+ * @param index - Guide index to change
+ * @param record - Guide record
+ * @returns boolean indicating if the index changed
+ */
+function addToIndex(index: GuideIndex, record: GuideRecord): boolean {
+  // Only emails the transport accepted are indexed; failed and skipped sends have no message ID
+  if (!record.messageId) {
+    return false;
+  }
+
+  const address = record.request.recipientEmail.toLowerCase();
+  const sentAt = record.sentAt ?? record.createdAt;
+
+  if (index.messageIds[record.messageId] === record.id && index.sends[address]?.[record.id] === sentAt) {
+    return false;
+  }
+
+  index.messageIds[record.messageId] = record.id;
+  index.sends[address] = { ...index.sends[address], [record.id]: sentAt };
+  return true;
+}
+
+/**
+ * Reads the guide index, building it from the stored records if it is missing
+ * Must run through enqueueGuideWrite.
+ * @returns Guide index
+ */
+async function loadIndex(): Promise<GuideIndex> {
+  const existing = await readIndexFile();
+  if (existing) {
+    return existing;
+  }
+
+  const index: GuideIndex = { messageIds: {}, sends: {} };
+  for (const record of await readAllGuides()) {
+    addToIndex(index, record);
+  }
+  await writeIndexFile(index);
+  return index;
+}
+
+/**
+ * Reads the guide index for a lookup
+ * @returns Guide index
+ */
+async function readIndex(): Promise<GuideIndex> {
+  return await readIndexFile() ?? enqueueGuideWrite(loadIndex);
+}
+
+/**
+ * Records a written guide in the index
+ * Must run through enqueueGuideWrite.
+ * @param record - Guide record as written
+ */
+async function indexGuide(record: GuideRecord): Promise<void> {
+  if (!record.messageId) {
+    return;
+  }
+
+  const index = await loadIndex();
+  if (addToIndex(index, record)) {
+    await writeIndexFile(index);
+  }
+}
+
+/**
+ * Stores a generated guide with its preview and, optionally, its PDF
+ * @param record - Guide record
+ * @param files - Rendered HTML, the PDF when it should be downloadable, and the
+ *   cover thumbnail when a scheduled email will still need it
+ */
+export async function saveGuide(
+  record: GuideRecord,
+  files: { html: string; pdf?: Buffer; coverImage?: Buffer }
+): Promise<void> {
+  const dir = getGuideDir(record.id);
+  if (!dir) {
+    throw new Error(`Invalid guide ID: ${record.id}`);
+  }
+
+  await fs.promises.mkdir(dir, { recursive: true });
+  await fs.promises.writeFile(path.join(dir, PREVIEW_FILE), files.html);
+
+  if (files.pdf) {
+    await fs.promises.writeFile(
+      path.join(dir, `${sanitizeFilename(record.request.companyName)}-Gift-Guide.pdf`),
+      files.pdf
+    );
+  }
+
+  if (files.coverImage) {
+    await fs.promises.writeFile(path.join(dir, COVER_FILE), files.coverImage);
+  }
+
+  await enqueueGuideWrite(async () => {
+    await writeRecord(dir, record);
+    await indexGuide(record);
+  });
+}
+
+/**
+ * Reads a guide record
+ * @param guideId - Guide identifier
+ * @returns Guide record, or null if not found
+ */
+export async function getGuide(guideId: string): Promise<GuideRecord | null> {
+  const dir = getGuideDir(guideId);
+  if (!dir) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(dir, RECORD_FILE), 'utf-8')) as GuideRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Applies changes to a stored guide record, one change at a time
+ * Pass a function when the changes depend on the current record, so they are
+ * worked out from the record as it is when the change runs.
+ * @param guideId - Guide identifier
+ * @param patch - Fields to change, or a function returning them from the current record
+ * @returns Updated record, or null if not found
+ */
+export function updateGuide(
+  guideId: string,
+  patch: GuidePatch | ((record: GuideRecord) => GuidePatch)
+): Promise<GuideRecord | null> {
+  return enqueueGuideWrite(async () => {
+    const record = await getGuide(guideId);
+    if (!record) {
+      return null;
+    }
+
+    const updated = { ...record, ...(typeof patch === 'function' ? patch(record) : patch) };
+    await writeRecord(getGuideDir(guideId)!, updated);
+    await indexGuide(updated);
+    return updated;
+  });
+}
+
+/**
+ * Reads every stored guide record
+ * @returns Records in no particular order
+ */
+async function readAllGuides(): Promise<GuideRecord[]> {
+  let ids: string[];
+  try {
+    ids = await fs.promises.readdir(getGuidesRoot());
+  } catch {
+    return [];
+  }
+
+  const records = await Promise.all(ids.map((id) => getGuide(id)));
+  return records.filter((record): record is GuideRecord => record !== null);
+}
+
+/**
+ * Checks whether a guide record matches a filter
+ * @param record - Guide record
+ * @param filter - Guide filter
+ * @returns boolean indicating if the record matches
+ */
+function matchesFilter(record: GuideRecord, filter: GuideFilter): boolean {
+  const contains = (value: string, search: string): boolean => value.toLowerCase().includes(search.toLowerCase());
+  const { request } = record;
+  const createdAt = new Date(record.createdAt);
+
+  if (filter.company && !contains(request.companyName, filter.company)) {
+    return false;
+  }
+  if (filter.domain && request.domain.toLowerCase() !== filter.domain.toLowerCase()) {
+    return false;
+  }
+  if (filter.ae && !contains(request.aeName, filter.ae) && !contains(request.aeEmail, filter.ae)) {
+    return false;
+  }
+  if (filter.aeEmail && request.aeEmail.toLowerCase() !== filter.aeEmail.toLowerCase()) {
+    return false;
+  }
+  if (filter.from && createdAt < filter.from) {
+    return false;
+  }
+  if (filter.to && createdAt > filter.to) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Lists stored guides, newest first
+ * @param filter - Company, domain, AE and date range filters
+ * @returns Matching guide records
+ */
+export async function listGuides(filter: GuideFilter = {}): Promise<GuideRecord[]> {
+  const limit = Math.min(filter.limit ?? DEFAULT_GUIDE_LIST_LIMIT, MAX_GUIDE_LIST_LIMIT);
+
+  return (await readAllGuides())
+    .filter((record) => matchesFilter(record, filter))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+}
+
+/**
+ * Finds the guide whose email has a given provider message ID
+ * @param messageId - Email provider message ID
+ * @returns Guide record, or null if no guide has that message ID
+ */
+export async function findGuideByMessageId(messageId: string): Promise<GuideRecord | null> {
+  const guideId = (await readIndex()).messageIds[messageId];
+  const guide = guideId ? await getGuide(guideId) : null;
+  return guide?.messageId === messageId ? guide : null;
+}
+
+/**
+ * Lists when guides were emailed to a recipient
+ * Only emails the transport accepted count; failed and skipped sends do not.
+ * @param recipientEmail - Recipient address (case-insensitive)
+ * @param since - Earliest send time to include
+ * @returns Send times of matching guides, oldest first
+ */
+export async function listSendTimes(recipientEmail: string, since: Date): Promise<Date[]> {
+  const address = recipientEmail.trim().toLowerCase();
+
+  return Object.values((await readIndex()).sends[address] ?? {})
+    .map((sentAt) => new Date(sentAt))
+    .filter((sentAt) => sentAt >= since)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Reads a stored guide PDF
+ * @param guideId - Guide identifier
+ * @returns Download filename and PDF bytes, or null if not found
+ */
+export async function readGuidePdf(guideId: string): Promise<{ filename: string; data: Buffer } | null> {
+  const dir = getGuideDir(guideId);
+
+  if (!dir || !fs.existsSync(dir)) {
+    return null;
+  }
+
+  const filename = (await fs.promises.readdir(dir)).find((f) => f.endsWith('.pdf'));
+  if (!filename) {
+    return null;
+  }
+
+  return { filename, data: await fs.promises.readFile(path.join(dir, filename)) };
+}
+
+/**
+ * Reads a stored guide's rendered HTML
+ * @param guideId - Guide identifier
+ * @returns HTML string, or null if not found
+ */
+export async function readGuidePreview(guideId: string): Promise<string | null> {
+  const dir = getGuideDir(guideId);
+  if (!dir) {
+    return null;
+  }
+
+  try {
+    return await fs.promises.readFile(path.join(dir, PREVIEW_FILE), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a stored guide's cover thumbnail
+ * @param guideId - Guide identifier
+ * @returns PNG bytes, or null if none was stored
+ */
+export async function readGuideCover(guideId: string): Promise<Buffer | null> {
+  const dir = getGuideDir(guideId);
+  if (!dir) {
+    return null;
+  }
+
+  try {
+    return await fs.promises.readFile(path.join(dir, COVER_FILE));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the quote requests sent from a guide
+ * @param guideId - Guide identifier
+ * @returns Requests, oldest first; empty if none were sent
+ */
+export async function readGuideQuoteRequests(guideId: string): Promise<QuoteRequest[]> {
+  const dir = getGuideDir(guideId);
+  if (!dir) {
+    return [];
+  }
+
+  return readJsonFile<QuoteRequest>(path.join(dir, QUOTE_REQUESTS_FILE));
+}
+
+/**
+ * Applies a change to a guide's quote requests, one change at a time
+ * @param guideId - Guide identifier
+ * @param change - Mutates the stored requests and returns a result
+ * @returns The change's result
+ */
+function updateGuideQuoteRequests<T>(guideId: string, change: (requests: QuoteRequest[]) => T): Promise<T> {
+  const dir = getGuideDir(guideId);
+  if (!dir) {
+    return Promise.reject(new Error(`Invalid guide ID: ${guideId}`));
+  }
+
+  return updateJsonFile(path.join(dir, QUOTE_REQUESTS_FILE), change);
+}
+
+/**
+ * Stores a quote request with the guide it came from, unless the guide has reached its limit
+ * The count is checked in the same serialized write, so parallel submissions cannot overshoot it.
+ * @param request - Quote request naming its guide
+ * @param limit - Most requests the guide accepts
+ * @returns boolean indicating if the request was stored
+ */
+export function addGuideQuoteRequest(request: QuoteRequest, limit: number): Promise<boolean> {
+  return updateGuideQuoteRequests(request.guideId, (requests) => {
+    if (requests.length >= limit) {
+      return false;
+    }
+    requests.push(request);
+    return true;
+  });
+}
+
+/**
+ * Records changes to a stored quote request
+ * @param guideId - Guide the request came from
+ * @param requestId - Quote request identifier
+ * @param patch - Fields to change
+ */
+export async function updateGuideQuoteRequest(
+  guideId: string,
+  requestId: string,
+  patch: Partial<Omit<QuoteRequest, 'id' | 'guideId' | 'createdAt'>>
+): Promise<void> {
+  await updateGuideQuoteRequests(guideId, (requests) => {
+    const found = requests.find((request) => request.id === requestId);
+    if (found) {
+      Object.assign(found, patch);
+    }
+  });
+}
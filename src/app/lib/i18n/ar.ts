@@ -0,0 +1,73 @@
+/**
+ * Arabic copy (right to left)
+ */
+
+import type { Messages } from './index';
+
+export const ar: Messages = {
+  languageName: 'العربية',
+  scriptFont: 'Noto Sans Arabic',
+
+  guideTitle: 'دليل الهدايا المخصص',
+  stackedGuideTitle: 'دليل الهدايا\nالمخصص',
+  guideFor: 'لشركة {companyName}',
+  logoAlt: 'شعار {companyName}',
+  companyLogoAlt: 'شعار الشركة',
+  featuredProducts: 'منتجات مختارة',
+  preparedBy: 'أعده {name}',
+  startingAt: 'ابتداءً من {price}',
+  logoAttribution: 'الشعارات مقدمة من apistemic logos API',
+  defaultAeTitle: 'مدير حسابات',
+
+  quoteTitle: 'عرض السعر',
+  quoteProduct: 'المنتج',
+  quoteQuantity: 'الكمية',
+  quoteUnitPrice: 'سعر الوحدة',
+  quoteSetupFee: 'التجهيز',
+  quoteSubtotal: 'المجموع الفرعي',
+  quoteTierPrice: 'سعر {quantity}+ قطعة',
+  quoteListTotal: 'المنتجات بسعر القائمة',
+  quoteDiscounts: 'خصومات الكمية',
+  quoteSetupFees: 'رسوم التجهيز',
+  quoteTotal: 'الإجمالي',
+  quoteValidUntil: 'الأسعار سارية حتى {date}',
+  quoteTerms: 'تقدير لا يشمل الضرائب والشحن.',
+
+  ctaTitle: 'هل أنت مستعد للطلب؟',
+  ctaBody: 'اختر المنتجات والكميات وأضف ملاحظة، وسيعد {name} عرض السعر الخاص بك.',
+  requestQuote: 'طلب عرض سعر',
+  ctaExpires: 'الرابط صالح حتى {date}',
+  requestIntro: 'أدخل كمية لكل منتج يهمك.',
+  requestName: 'الاسم',
+  requestEmail: 'البريد الإلكتروني',
+  requestMessage: 'الرسالة',
+  requestSubmit: 'إرسال الطلب',
+  requestSentTitle: 'تم إرسال الطلب',
+  requestSentBody: 'شكرًا لك. سيتواصل معك {name} بشأن عرض السعر.',
+  requestNoProducts: 'أدخل كمية لمنتج واحد على الأقل.',
+  requestInvalidQuantity: 'يجب أن تكون الكميات أعدادًا صحيحة من 1 إلى 1,000,000.',
+  requestInvalidEmail: 'أدخل بريدًا إلكترونيًا صالحًا.',
+  requestLimit: 'تلقى هذا الدليل الحد الأقصى من طلبات عروض الأسعار.',
+  requestFailed: 'تعذر إرسال طلبك. يرجى المحاولة مرة أخرى.',
+  linkExpiredTitle: 'انتهت صلاحية هذا الرابط',
+  linkExpiredBody: 'تواصل مع {name} للحصول على عرض سعر محدث.',
+  linkInvalidTitle: 'الرابط غير موجود',
+  linkInvalidBody: 'رابط طلب عرض السعر هذا غير صالح. تأكد من نسخه بالكامل.',
+
+  emailSubject: 'دليل الهدايا المخصص لكم - {{companyName}}',
+  emailBody: [
+    'مرحبًا،',
+    'نشكركم على اهتمامكم بالمنتجات الترويجية المخصصة لشركة {{companyName}}.',
+    'تجدون مرفقًا دليل الهدايا المخصص لكم، ويضم مجموعة مختارة من المنتجات المميزة التي يمكن تخصيصها بعلامتكم التجارية.',
+    'اخترنا كل منتج في هذا الدليل لمساعدتكم على تقديم تجارب لا تُنسى لفريقكم وعملائكم وشركائكم.',
+    'إذا كانت لديكم أي أسئلة أو رغبتم في مناقشة احتياجاتكم، فلا تترددوا في التواصل معي.',
+  ].join('\n\n'),
+  coverAlt: 'غلاف دليل الهدايا لشركة {companyName}',
+  viewGuide: '{link} أو افتحوا ملف PDF المرفق.',
+  viewGuideLink: 'اعرض الدليل على الإنترنت',
+  viewGuideText: 'اعرض الدليل على الإنترنت: {url}',
+  bookMeeting: 'احجز اجتماعًا معي',
+  unsubscribe: 'لا ترغبون في تلقي أدلة الهدايا منا؟ {link}.',
+  unsubscribeLink: 'إلغاء الاشتراك',
+  unsubscribeText: 'لا ترغبون في تلقي أدلة الهدايا منا؟ إلغاء الاشتراك: {url}',
+};
@@ -0,0 +1,72 @@
+/**
+ * German copy
+ */
+
+import type { Messages } from './index';
+
+export const de: Messages = {
+  languageName: 'Deutsch',
+
+  guideTitle: 'Individueller Geschenkeguide',
+  stackedGuideTitle: 'Individueller\nGeschenkeguide',
+  guideFor: 'für {companyName}',
+  logoAlt: 'Logo von {companyName}',
+  companyLogoAlt: 'Firmenlogo',
+  featuredProducts: 'Ausgewählte Produkte',
+  preparedBy: 'Erstellt von {name}',
+  startingAt: 'Ab {price}',
+  logoAttribution: 'Logos bereitgestellt von apistemic logos API',
+  defaultAeTitle: 'Account Executive',
+
+  quoteTitle: 'Ihr Angebot',
+  quoteProduct: 'Produkt',
+  quoteQuantity: 'Menge',
+  quoteUnitPrice: 'Stückpreis',
+  quoteSetupFee: 'Einrichtung',
+  quoteSubtotal: 'Zwischensumme',
+  quoteTierPrice: 'Staffelpreis ab {quantity} Stück',
+  quoteListTotal: 'Produkte zum Listenpreis',
+  quoteDiscounts: 'Mengenrabatte',
+  quoteSetupFees: 'Einrichtungskosten',
+  quoteTotal: 'Gesamt',
+  quoteValidUntil: 'Preise gültig bis {date}',
+  quoteTerms: 'Schätzung ohne Steuern und Versand.',
+
+  ctaTitle: 'Bereit zu bestellen?',
+  ctaBody: 'Wählen Sie Produkte und Mengen, fügen Sie eine Nachricht hinzu, und {name} erstellt Ihr Angebot.',
+  requestQuote: 'Angebot anfordern',
+  ctaExpires: 'Link gültig bis {date}',
+  requestIntro: 'Geben Sie für jedes gewünschte Produkt eine Menge ein.',
+  requestName: 'Ihr Name',
+  requestEmail: 'E-Mail',
+  requestMessage: 'Nachricht',
+  requestSubmit: 'Anfrage senden',
+  requestSentTitle: 'Anfrage gesendet',
+  requestSentBody: 'Vielen Dank. {name} meldet sich bei Ihnen zu Ihrem Angebot.',
+  requestNoProducts: 'Geben Sie für mindestens ein Produkt eine Menge ein.',
+  requestInvalidQuantity: 'Mengen müssen ganze Zahlen von 1 bis 1.000.000 sein.',
+  requestInvalidEmail: 'Geben Sie eine gültige E-Mail-Adresse ein.',
+  requestLimit: 'Für diesen Leitfaden ist die maximale Anzahl an Angebotsanfragen erreicht.',
+  requestFailed: 'Ihre Anfrage konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+  linkExpiredTitle: 'Dieser Link ist abgelaufen',
+  linkExpiredBody: 'Wenden Sie sich an {name}, um ein aktuelles Angebot zu erhalten.',
+  linkInvalidTitle: 'Link nicht gefunden',
+  linkInvalidBody: 'Dieser Link zur Angebotsanfrage ist ungültig. Prüfen Sie, ob er vollständig kopiert wurde.',
+
+  emailSubject: 'Ihr individueller Geschenkeguide - {{companyName}}',
+  emailBody: [
+    'Guten Tag,',
+    'vielen Dank für Ihr Interesse an individuell gebrandeten Werbeartikeln für {{companyName}}.',
+    'Im Anhang finden Sie Ihren persönlichen Geschenkeguide mit einer Auswahl hochwertiger Produkte, die wir mit Ihrer Marke gestalten können.',
+    'Jeder Artikel in diesem Guide wurde ausgewählt, um Ihrem Team, Ihren Kunden und Partnern ein unvergessliches Markenerlebnis zu bieten.',
+    'Wenn Sie Fragen haben oder Ihren Bedarf an Werbeartikeln besprechen möchten, melden Sie sich gerne bei mir.',
+  ].join('\n\n'),
+  coverAlt: 'Titelseite des Geschenkeguides für {companyName}',
+  viewGuide: '{link} oder das angehängte PDF öffnen.',
+  viewGuideLink: 'Guide online ansehen',
+  viewGuideText: 'Guide online ansehen: {url}',
+  bookMeeting: 'Termin mit mir vereinbaren',
+  unsubscribe: 'Sie möchten keine Geschenkeguides mehr von uns erhalten? {link}.',
+  unsubscribeLink: 'Abmelden',
+  unsubscribeText: 'Sie möchten keine Geschenkeguides mehr von uns erhalten? Abmelden: {url}',
+};
@@ -0,0 +1,72 @@
+/**
+ * English copy (default)
+ */
+
+import type { Messages } from './index';
+
+export const en: Messages = {
+  languageName: 'English',
+
+  guideTitle: 'Custom Gift Guide',
+  stackedGuideTitle: 'Custom\nGift Guide',
+  guideFor: 'for {companyName}',
+  logoAlt: '{companyName} Logo',
+  companyLogoAlt: 'Company Logo',
+  featuredProducts: 'Featured Products',
+  preparedBy: 'Prepared by {name}',
+  startingAt: 'Starting at {price}',
+  logoAttribution: 'Logos provided by apistemic logos API',
+  defaultAeTitle: 'Account Executive',
+
+  quoteTitle: 'Your Quote',
+  quoteProduct: 'Product',
+  quoteQuantity: 'Quantity',
+  quoteUnitPrice: 'Unit Price',
+  quoteSetupFee: 'Setup',
+  quoteSubtotal: 'Subtotal',
+  quoteTierPrice: '{quantity}+ pricing',
+  quoteListTotal: 'Products at list price',
+  quoteDiscounts: 'Quantity discounts',
+  quoteSetupFees: 'Setup fees',
+  quoteTotal: 'Total',
+  quoteValidUntil: 'Prices valid until {date}',
+  quoteTerms: 'Estimate excludes taxes and shipping.',
+
+  ctaTitle: 'Ready to order?',
+  ctaBody: 'Choose products and quantities, add a note, and {name} will prepare your quote.',
+  requestQuote: 'Request a Quote',
+  ctaExpires: 'Link valid until {date}',
+  requestIntro: 'Enter a quantity for each product you are interested in.',
+  requestName: 'Your name',
+  requestEmail: 'Email',
+  requestMessage: 'Message',
+  requestSubmit: 'Send Request',
+  requestSentTitle: 'Request sent',
+  requestSentBody: 'Thank you. {name} will be in touch about your quote.',
+  requestNoProducts: 'Enter a quantity for at least one product.',
+  requestInvalidQuantity: 'Quantities must be whole numbers from 1 to 1,000,000.',
+  requestInvalidEmail: 'Enter a valid email address.',
+  requestLimit: 'This guide has received the maximum number of quote requests.',
+  requestFailed: 'Your request could not be sent. Please try again.',
+  linkExpiredTitle: 'This link has expired',
+  linkExpiredBody: 'Contact {name} for an updated quote.',
+  linkInvalidTitle: 'Link not found',
+  linkInvalidBody: 'This quote-request link is invalid. Check that it was copied in full.',
+
+  emailSubject: 'Your Custom Gift Guide - {{companyName}}',
+  emailBody: [
+    'Hello,',
+    'Thank you for your interest in custom branded merchandise for {{companyName}}.',
+    'Please find attached your personalized Custom Gift Guide, featuring a curated selection of premium products that can be customized with your brand.',
+    'Each item in this guide has been selected to help you create memorable branded experiences for your team, clients, and partners.',
+    "If you have any questions or would like to discuss your custom merchandise needs, please don't hesitate to reach out.",
+  ].join('\n\n'),
+  coverAlt: '{companyName} gift guide cover',
+  viewGuide: '{link} or open the attached PDF.',
+  viewGuideLink: 'View the guide online',
+  viewGuideText: 'View the guide online: {url}',
+  bookMeeting: 'Book a meeting with me',
+  unsubscribe: "Don't want to receive gift guides from us? {link}.",
+  unsubscribeLink: 'Unsubscribe',
+  unsubscribeText: "Don't want to receive gift guides from us? Unsubscribe: {url}",
+};
@@ -0,0 +1,72 @@
+/**
+ * Spanish copy
+ */
+
+import type { Messages } from './index';
+
+export const es: Messages = {
+  languageName: 'Español',
+
+  guideTitle: 'Guía de Regalos Personalizada',
+  stackedGuideTitle: 'Guía de Regalos\nPersonalizada',
+  guideFor: 'para {companyName}',
+  logoAlt: 'Logotipo de {companyName}',
+  companyLogoAlt: 'Logotipo de la empresa',
+  featuredProducts: 'Productos Destacados',
+  preparedBy: 'Preparado por {name}',
+  startingAt: 'Desde {price}',
+  logoAttribution: 'Logotipos proporcionados por apistemic logos API',
+  defaultAeTitle: 'Ejecutivo de Cuenta',
+
+  quoteTitle: 'Su Cotización',
+  quoteProduct: 'Producto',
+  quoteQuantity: 'Cantidad',
+  quoteUnitPrice: 'Precio unitario',
+  quoteSetupFee: 'Preparación',
+  quoteSubtotal: 'Subtotal',
+  quoteTierPrice: 'Precio por {quantity}+',
+  quoteListTotal: 'Productos a precio de lista',
+  quoteDiscounts: 'Descuentos por volumen',
+  quoteSetupFees: 'Cargos de preparación',
+  quoteTotal: 'Total',
+  quoteValidUntil: 'Precios válidos hasta el {date}',
+  quoteTerms: 'Estimación sin impuestos ni envío.',
+
+  ctaTitle: '¿Listo para pedir?',
+  ctaBody: 'Elija productos y cantidades, añada una nota y {name} preparará su cotización.',
+  requestQuote: 'Solicitar cotización',
+  ctaExpires: 'Enlace válido hasta el {date}',
+  requestIntro: 'Indique una cantidad para cada producto que le interese.',
+  requestName: 'Su nombre',
+  requestEmail: 'Correo electrónico',
+  requestMessage: 'Mensaje',
+  requestSubmit: 'Enviar solicitud',
+  requestSentTitle: 'Solicitud enviada',
+  requestSentBody: 'Gracias. {name} se pondrá en contacto con usted sobre su cotización.',
+  requestNoProducts: 'Indique una cantidad para al menos un producto.',
+  requestInvalidQuantity: 'Las cantidades deben ser números enteros de 1 a 1.000.000.',
+  requestInvalidEmail: 'Introduzca un correo electrónico válido.',
+  requestLimit: 'Esta guía ha recibido el número máximo de solicitudes de cotización.',
+  requestFailed: 'No se pudo enviar su solicitud. Inténtelo de nuevo.',
+  linkExpiredTitle: 'Este enlace ha caducado',
+  linkExpiredBody: 'Póngase en contacto con {name} para obtener una cotización actualizada.',
+  linkInvalidTitle: 'Enlace no encontrado',
+  linkInvalidBody: 'Este enlace de solicitud de cotización no es válido. Compruebe que se copió completo.',
+
+  emailSubject: 'Su Guía de Regalos Personalizada - {{companyName}}',
+  emailBody: [
+    'Hola:',
+    'Gracias por su interés en artículos promocionales personalizados para {{companyName}}.',
+    'Adjuntamos su Guía de Regalos Personalizada, con una selección de productos de primera calidad que podemos personalizar con su marca.',
+    'Cada artículo de esta guía ha sido elegido para ayudarle a crear experiencias de marca memorables para su equipo, sus clientes y sus socios.',
+    'Si tiene alguna pregunta o desea hablar sobre sus necesidades de artículos personalizados, no dude en escribirnos.',
+  ].join('\n\n'),
+  coverAlt: 'Portada de la guía de regalos de {companyName}',
+  viewGuide: '{link} o abra el PDF adjunto.',
+  viewGuideLink: 'Ver la guía en línea',
+  viewGuideText: 'Ver la guía en línea: {url}',
+  bookMeeting: 'Agende una reunión conmigo',
+  unsubscribe: '¿No desea recibir más guías de regalos? {link}.',
+  unsubscribeLink: 'Cancelar la suscripción',
+  unsubscribeText: '¿No desea recibir más guías de regalos? Cancelar la suscripción: {url}',
+};
@@ -0,0 +1,72 @@
+/**
+ * French copy
+ */
+
+import type { Messages } from './index';
+
+export const fr: Messages = {
+  languageName: 'Français',
+
+  guideTitle: 'Guide Cadeaux Personnalisé',
+  stackedGuideTitle: 'Guide Cadeaux\nPersonnalisé',
+  guideFor: 'pour {companyName}',
+  logoAlt: 'Logo de {companyName}',
+  companyLogoAlt: "Logo de l'entreprise",
+  featuredProducts: 'Produits à la Une',
+  preparedBy: 'Préparé par {name}',
+  startingAt: 'À partir de {price}',
+  logoAttribution: 'Logos fournis par apistemic logos API',
+  defaultAeTitle: 'Chargé de Clientèle',
+
+  quoteTitle: 'Votre Devis',
+  quoteProduct: 'Produit',
+  quoteQuantity: 'Quantité',
+  quoteUnitPrice: 'Prix unitaire',
+  quoteSetupFee: 'Préparation',
+  quoteSubtotal: 'Sous-total',
+  quoteTierPrice: 'Prix dès {quantity} unités',
+  quoteListTotal: 'Produits au prix catalogue',
+  quoteDiscounts: 'Remises sur quantité',
+  quoteSetupFees: 'Frais de préparation',
+  quoteTotal: 'Total',
+  quoteValidUntil: 'Prix valables jusqu’au {date}',
+  quoteTerms: 'Estimation hors taxes et frais de livraison.',
+
+  ctaTitle: 'Prêt à commander ?',
+  ctaBody: 'Choisissez les produits et les quantités, ajoutez un message, et {name} préparera votre devis.',
+  requestQuote: 'Demander un devis',
+  ctaExpires: 'Lien valable jusqu’au {date}',
+  requestIntro: 'Indiquez une quantité pour chaque produit qui vous intéresse.',
+  requestName: 'Votre nom',
+  requestEmail: 'E-mail',
+  requestMessage: 'Message',
+  requestSubmit: 'Envoyer la demande',
+  requestSentTitle: 'Demande envoyée',
+  requestSentBody: 'Merci. {name} vous contactera au sujet de votre devis.',
+  requestNoProducts: 'Indiquez une quantité pour au moins un produit.',
+  requestInvalidQuantity: 'Les quantités doivent être des nombres entiers de 1 à 1 000 000.',
+  requestInvalidEmail: 'Saisissez une adresse e-mail valide.',
+  requestLimit: 'Ce guide a reçu le nombre maximal de demandes de devis.',
+  requestFailed: 'Votre demande n’a pas pu être envoyée. Veuillez réessayer.',
+  linkExpiredTitle: 'Ce lien a expiré',
+  linkExpiredBody: 'Contactez {name} pour obtenir un devis à jour.',
+  linkInvalidTitle: 'Lien introuvable',
+  linkInvalidBody: 'Ce lien de demande de devis n’est pas valide. Vérifiez qu’il a été copié en entier.',
+
+  emailSubject: 'Votre Guide Cadeaux Personnalisé - {{companyName}}',
+  emailBody: [
+    'Bonjour,',
+    "Merci de l'intérêt que vous portez aux articles personnalisés pour {{companyName}}.",
+    'Vous trouverez ci-joint votre Guide Cadeaux Personnalisé, avec une sélection de produits haut de gamme personnalisables à vos couleurs.',
+    'Chaque article de ce guide a été choisi pour vous aider à créer des expériences de marque mémorables pour votre équipe, vos clients et vos partenaires.',
+    "Pour toute question ou pour discuter de vos besoins en articles personnalisés, n'hésitez pas à nous contacter.",
+  ].join('\n\n'),
+  coverAlt: 'Couverture du guide cadeaux de {companyName}',
+  viewGuide: '{link} ou ouvrez le PDF joint.',
+  viewGuideLink: 'Voir le guide en ligne',
+  viewGuideText: 'Voir le guide en ligne : {url}',
+  bookMeeting: 'Prendre rendez-vous avec moi',
+  unsubscribe: 'Vous ne souhaitez plus recevoir nos guides cadeaux ? {link}.',
+  unsubscribeLink: 'Se désabonner',
+  unsubscribeText: 'Vous ne souhaitez plus recevoir nos guides cadeaux ? Se désabonner : {url}',
+};
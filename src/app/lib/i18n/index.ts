@@ -0,0 +1,219 @@
+/**
+ * Translation catalogs for guides and guide emails
+ *
+ * One catalog per language (see the sibling files). A request's locale is a
+ * BCP 47 tag such as "es-MX": copy comes from the catalog for its language,
+ * while numbers, prices and lists are formatted for the full tag.
+ */
+
+import { en } from './en';
+import { es } from './es';
+import { pt } from './pt';
+import { fr } from './fr';
+import { de } from './de';
+import { it } from './it';
+import { ar } from './ar';
+
+/**
+ * Copy used by the guide themes and the guide email
+ * Values may contain {placeholders}; email template copy uses {{mergeFields}}.
+ */
+export interface Messages {
+  /** Language name in the language itself, for pickers */
+  languageName: string;
+  /** Google Fonts family covering a script Inter lacks (e.g. Arabic) */
+  scriptFont?: string;
+
+  guideTitle: string;
+  /** Guide title split over lines with "\n" for large cover type */
+  stackedGuideTitle: string;
+  /** {companyName} */
+  guideFor: string;
+  /** {companyName} */
+  logoAlt: string;
+  companyLogoAlt: string;
+  featuredProducts: string;
+  /** {name} */
+  preparedBy: string;
+  /** {price} */
+  startingAt: string;
+  logoAttribution: string;
+  defaultAeTitle: string;
+
+  quoteTitle: string;
+  quoteProduct: string;
+  quoteQuantity: string;
+  quoteUnitPrice: string;
+  quoteSetupFee: string;
+  quoteSubtotal: string;
+  /** {quantity} */
+  quoteTierPrice: string;
+  quoteListTotal: string;
+  quoteDiscounts: string;
+  quoteSetupFees: string;
+  quoteTotal: string;
+  /** {date} */
+  quoteValidUntil: string;
+  quoteTerms: string;
+
+  ctaTitle: string;
+  /** {name} */
+  ctaBody: string;
+  /** Guide button and quote-request page title */
+  requestQuote: string;
+  /** {date} */
+  ctaExpires: string;
+  requestIntro: string;
+  requestName: string;
+  requestEmail: string;
+  requestMessage: string;
+  requestSubmit: string;
+  requestSentTitle: string;
+  /** {name} */
+  requestSentBody: string;
+  requestNoProducts: string;
+  requestInvalidQuantity: string;
+  requestInvalidEmail: string;
+  requestLimit: string;
+  requestFailed: string;
+  linkExpiredTitle: string;
+  /** {name} */
+  linkExpiredBody: string;
+  linkInvalidTitle: string;
+  linkInvalidBody: string;
+
+  /** Built-in email template subject, with {{mergeFields}} */
+  emailSubject: string;
+  /** Built-in email template body, blank lines between paragraphs */
+  emailBody: string;
+  /** {companyName} */
+  coverAlt: string;
+  /** {link} */
+  viewGuide: string;
+  viewGuideLink: string;
+  /** {url} */
+  viewGuideText: string;
+  bookMeeting: string;
+  /** {link} */
+  unsubscribe: string;
+  unsubscribeLink: string;
+  /** {url} */
+  unsubscribeText: string;
+}
+
+export const DEFAULT_LOCALE = 'en';
+
+const CATALOGS: Record<string, Messages> = { en, es, pt, fr, de, it, ar };
+
+// Languages written right to left
+const RTL_LANGUAGES = new Set(['ar', 'fa', 'he', 'ur']);
+
+/**
+ * Reads the language subtag of a locale
+ * @param locale - BCP 47 tag
+ * @returns Language subtag, or null if the tag is malformed
+ */
+function getLanguage(locale: string): string | null {
+  try {
+    return new Intl.Locale(locale).language;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks whether a locale is well formed and has a catalog for its language
+ * @param locale - BCP 47 tag (e.g. "pt-BR")
+ * @returns boolean indicating if guides can be written in the locale
+ */
+export function isSupportedLocale(locale: string): boolean {
+  const language = getLanguage(locale);
+  return !!language && language in CATALOGS;
+}
+
+/**
+ * Normalizes a supported locale's casing (e.g. "es-mx" → "es-MX")
+ * @param locale - Supported BCP 47 tag
+ * @returns Canonical tag
+ */
+export function canonicalizeLocale(locale: string): string {
+  return Intl.getCanonicalLocales(locale)[0];
+}
+
+/**
+ * Lists the languages with a catalog
+ * @returns Language code and its own name for each catalog
+ */
+export function listLocales(): Array<{ id: string; name: string }> {
+  return Object.entries(CATALOGS).map(([id, messages]) => ({ id, name: messages.languageName }));
+}
+
+/**
+ * Looks up the catalog for a locale
+ * @param locale - BCP 47 tag; unsupported tags fall back to DEFAULT_LOCALE
+ * @returns Messages in the locale's language
+ */
+export function getMessages(locale: string = DEFAULT_LOCALE): Messages {
+  return CATALOGS[getLanguage(locale) ?? ''] ?? CATALOGS[DEFAULT_LOCALE];
+}
+
+/**
+ * Reports the writing direction of a locale
+ * @param locale - BCP 47 tag
+ * @returns "rtl" for right-to-left languages, otherwise "ltr"
+ */
+export function getTextDirection(locale: string = DEFAULT_LOCALE): 'ltr' | 'rtl' {
+  return RTL_LANGUAGES.has(getLanguage(locale) ?? '') ? 'rtl' : 'ltr';
+}
+
+/**
+ * Fills {placeholders} in a message
+ * @param message - Catalog message
+ * @param values - Placeholder values
+ * @returns Message with placeholders replaced; unknown ones are left as written
+ */
+export function formatMessage(message: string, values: Record<string, string> = {}): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Formats an amount of money for a locale
+ * @param amount - Amount in major units (e.g. 18.99)
+ * @param currency - ISO 4217 currency code
+ * @param locale - BCP 47 tag
+ * @returns Formatted amount, such as "$18.99" or "18,99 €"
+ */
+export function formatCurrency(amount: number, currency: string, locale: string = DEFAULT_LOCALE): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+}
+
+/**
+ * Formats a count for a locale
+ * @param value - Number to format
+ * @param locale - BCP 47 tag
+ * @returns Number with the locale's grouping, such as "1,000" or "1.000"
+ */
+export function formatNumber(value: number, locale: string = DEFAULT_LOCALE): string {
+  return new Intl.NumberFormat(locale).format(value);
+}
+
+/**
+ * Formats a calendar date for a locale
+ * @param date - ISO 8601 time
+ * @param locale - BCP 47 tag
+ * @param timeZone - IANA timezone the date is read in (defaults to UTC)
+ * @returns Date such as "November 18, 2026" or "18 de noviembre de 2026"
+ */
+export function formatDate(date: string, locale: string = DEFAULT_LOCALE, timeZone = 'UTC'): string {
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeZone }).format(new Date(date));
+}
+
+/**
+ * Joins names into a list for a locale
+ * @param items - Items to join
+ * @param locale - BCP 47 tag
+ * @returns List such as "Mug, Tee, and Hat" or "Taza, Camiseta y Gorra"
+ */
+export function formatList(items: string[], locale: string = DEFAULT_LOCALE): string {
+  return new Intl.ListFormat(locale, { type: 'conjunction' }).format(items);
+}
@@ -0,0 +1,72 @@
+/**
+ * Italian copy
+ */
+
+import type { Messages } from './index';
+
+export const it: Messages = {
+  languageName: 'Italiano',
+
+  guideTitle: 'Guida Regali Personalizzata',
+  stackedGuideTitle: 'Guida Regali\nPersonalizzata',
+  guideFor: 'per {companyName}',
+  logoAlt: 'Logo di {companyName}',
+  companyLogoAlt: "Logo dell'azienda",
+  featuredProducts: 'Prodotti in Evidenza',
+  preparedBy: 'Preparata da {name}',
+  startingAt: 'A partire da {price}',
+  logoAttribution: 'Loghi forniti da apistemic logos API',
+  defaultAeTitle: 'Account Executive',
+
+  quoteTitle: 'Il Suo Preventivo',
+  quoteProduct: 'Prodotto',
+  quoteQuantity: 'Quantità',
+  quoteUnitPrice: 'Prezzo unitario',
+  quoteSetupFee: 'Avviamento',
+  quoteSubtotal: 'Subtotale',
+  quoteTierPrice: 'Prezzo da {quantity} pezzi',
+  quoteListTotal: 'Prodotti a prezzo di listino',
+  quoteDiscounts: 'Sconti quantità',
+  quoteSetupFees: 'Costi di avviamento',
+  quoteTotal: 'Totale',
+  quoteValidUntil: 'Prezzi validi fino al {date}',
+  quoteTerms: 'Stima esclusi tasse e spedizione.',
+
+  ctaTitle: 'Pronti a ordinare?',
+  ctaBody: 'Scegliete prodotti e quantità, aggiungete una nota e {name} preparerà il vostro preventivo.',
+  requestQuote: 'Richiedi un preventivo',
+  ctaExpires: 'Link valido fino al {date}',
+  requestIntro: 'Indicate una quantità per ogni prodotto di vostro interesse.',
+  requestName: 'Nome',
+  requestEmail: 'E-mail',
+  requestMessage: 'Messaggio',
+  requestSubmit: 'Invia richiesta',
+  requestSentTitle: 'Richiesta inviata',
+  requestSentBody: 'Grazie. {name} vi contatterà in merito al preventivo.',
+  requestNoProducts: 'Indicate una quantità per almeno un prodotto.',
+  requestInvalidQuantity: 'Le quantità devono essere numeri interi da 1 a 1.000.000.',
+  requestInvalidEmail: 'Inserite un indirizzo e-mail valido.',
+  requestLimit: 'Questa guida ha ricevuto il numero massimo di richieste di preventivo.',
+  requestFailed: 'Non è stato possibile inviare la richiesta. Riprovate.',
+  linkExpiredTitle: 'Questo link è scaduto',
+  linkExpiredBody: 'Contattate {name} per un preventivo aggiornato.',
+  linkInvalidTitle: 'Link non trovato',
+  linkInvalidBody: 'Questo link per la richiesta di preventivo non è valido. Verificate che sia stato copiato per intero.',
+
+  emailSubject: 'La tua Guida Regali Personalizzata - {{companyName}}',
+  emailBody: [
+    'Buongiorno,',
+    'grazie per il vostro interesse per gli articoli personalizzati per {{companyName}}.',
+    'In allegato trovate la vostra Guida Regali Personalizzata, con una selezione di prodotti di alta qualità personalizzabili con il vostro marchio.',
+    'Ogni articolo di questa guida è stato scelto per aiutarvi a creare esperienze di marca memorabili per il vostro team, i clienti e i partner.',
+    'Per qualsiasi domanda o per parlare delle vostre esigenze di articoli personalizzati, non esitate a contattarmi.',
+  ].join('\n\n'),
+  coverAlt: 'Copertina della guida regali di {companyName}',
+  viewGuide: '{link} oppure aprite il PDF allegato.',
+  viewGuideLink: 'Visualizza la guida online',
+  viewGuideText: 'Visualizza la guida online: {url}',
+  bookMeeting: 'Fissa un incontro con me',
+  unsubscribe: 'Non volete più ricevere le nostre guide regali? {link}.',
+  unsubscribeLink: 'Annulla iscrizione',
+  unsubscribeText: 'Non volete più ricevere le nostre guide regali? Annulla iscrizione: {url}',
+};
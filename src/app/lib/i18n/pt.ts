@@ -0,0 +1,72 @@
+/**
+ * Portuguese copy
+ */
+
+import type { Messages } from './index';
+
+export const pt: Messages = {
+  languageName: 'Português',
+
+  guideTitle: 'Guia de Presentes Personalizado',
+  stackedGuideTitle: 'Guia de Presentes\nPersonalizado',
+  guideFor: 'para {companyName}',
+  logoAlt: 'Logotipo de {companyName}',
+  companyLogoAlt: 'Logotipo da empresa',
+  featuredProducts: 'Produtos em Destaque',
+  preparedBy: 'Preparado por {name}',
+  startingAt: 'A partir de {price}',
+  logoAttribution: 'Logotipos fornecidos pela apistemic logos API',
+  defaultAeTitle: 'Executivo de Contas',
+
+  quoteTitle: 'Seu Orçamento',
+  quoteProduct: 'Produto',
+  quoteQuantity: 'Quantidade',
+  quoteUnitPrice: 'Preço unitário',
+  quoteSetupFee: 'Preparação',
+  quoteSubtotal: 'Subtotal',
+  quoteTierPrice: 'Preço para {quantity}+',
+  quoteListTotal: 'Produtos a preço de tabela',
+  quoteDiscounts: 'Descontos por volume',
+  quoteSetupFees: 'Taxas de preparação',
+  quoteTotal: 'Total',
+  quoteValidUntil: 'Preços válidos até {date}',
+  quoteTerms: 'Estimativa sem impostos e frete.',
+
+  ctaTitle: 'Pronto para fazer o pedido?',
+  ctaBody: 'Escolha produtos e quantidades, deixe uma mensagem e {name} preparará seu orçamento.',
+  requestQuote: 'Solicitar orçamento',
+  ctaExpires: 'Link válido até {date}',
+  requestIntro: 'Informe uma quantidade para cada produto de seu interesse.',
+  requestName: 'Seu nome',
+  requestEmail: 'E-mail',
+  requestMessage: 'Mensagem',
+  requestSubmit: 'Enviar solicitação',
+  requestSentTitle: 'Solicitação enviada',
+  requestSentBody: 'Obrigado. {name} entrará em contato sobre seu orçamento.',
+  requestNoProducts: 'Informe uma quantidade para pelo menos um produto.',
+  requestInvalidQuantity: 'As quantidades devem ser números inteiros de 1 a 1.000.000.',
+  requestInvalidEmail: 'Informe um endereço de e-mail válido.',
+  requestLimit: 'Este guia já recebeu o número máximo de solicitações de orçamento.',
+  requestFailed: 'Não foi possível enviar sua solicitação. Tente novamente.',
+  linkExpiredTitle: 'Este link expirou',
+  linkExpiredBody: 'Fale com {name} para receber um orçamento atualizado.',
+  linkInvalidTitle: 'Link não encontrado',
+  linkInvalidBody: 'Este link de solicitação de orçamento é inválido. Verifique se foi copiado por completo.',
+
+  emailSubject: 'Seu Guia de Presentes Personalizado - {{companyName}}',
+  emailBody: [
+    'Olá,',
+    'Obrigado pelo seu interesse em brindes personalizados para {{companyName}}.',
+    'Segue em anexo o seu Guia de Presentes Personalizado, com uma seleção de produtos premium que podem ser personalizados com a sua marca.',
+    'Cada item deste guia foi escolhido para ajudar a criar experiências de marca marcantes para a sua equipe, clientes e parceiros.',
+    'Se tiver alguma dúvida ou quiser conversar sobre as suas necessidades de brindes personalizados, é só responder.',
+  ].join('\n\n'),
+  coverAlt: 'Capa do guia de presentes de {companyName}',
+  viewGuide: '{link} ou abra o PDF em anexo.',
+  viewGuideLink: 'Ver o guia online',
+  viewGuideText: 'Ver o guia online: {url}',
+  bookMeeting: 'Agende uma reunião comigo',
+  unsubscribe: 'Não quer mais receber guias de presentes? {link}.',
+  unsubscribeLink: 'Cancelar inscrição',
+  unsubscribeText: 'Não quer mais receber guias de presentes? Cancelar inscrição: {url}',
+};
@@ -0,0 +1,145 @@
+/**
+ * Pluggable storage for background guide and batch jobs
+ *
+ * JOB_STORE selects the implementation:
+ * - "file" (default): one JSON file per job under DATA_DIR/jobs (guide
+ *   jobs) or DATA_DIR/batch-jobs (batches)
+ * - "memory": process-local map, lost on restart
+ *
+ * The instance that queues a job, the job worker that runs it and the one
+ * answering GET /api/jobs/:id must all see the same store. On Vercel these
+ * are separate function instances, so the file store needs a DATA_DIR they
+ * share (or a JobStore backed by a database) and the memory store is refused.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { BatchJob, GuideJob } from '../types';
+import { getDataDir } from './storage';
+import { isVercel } from './utils';
+
+/**
+ * Fields every stored job carries
+ */
+export interface StoredJob {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Storage backend for jobs
+ */
+export interface JobStore<T extends StoredJob = GuideJob> {
+  create(job: T): Promise<void>;
+  get(id: string): Promise<T | null>;
+  update(id: string, patch: Partial<Omit<T, 'id' | 'createdAt'>>): Promise<T | null>;
+}
+
+/**
+ * In-memory job store for local development and tests
+ */
+export class MemoryJobStore<T extends StoredJob = GuideJob> implements JobStore<T> {
+  private jobs = new Map<string, T>();
+
+  async create(job: T): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(id: string): Promise<T | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async update(id: string, patch: Partial<Omit<T, 'id' | 'createdAt'>>): Promise<T | null> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return null;
+    }
+    const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+    this.jobs.set(id, updated);
+    return { ...updated };
+  }
+}
+
+/**
+ * File-backed job store that survives server restarts
+ */
+export class FileJobStore<T extends StoredJob = GuideJob> implements JobStore<T> {
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  private jobPath(id: string): string {
+    // Job IDs are UUIDs; strip anything that could escape the directory
+    return path.join(this.dir, `${id.replace(/[^a-zA-Z0-9-]/g, '')}.json`);
+  }
+
+  async create(job: T): Promise<void> {
+    await this.write(job);
+  }
+
+  async get(id: string): Promise<T | null> {
+    try {
+      const raw = await fs.promises.readFile(this.jobPath(id), 'utf-8');
+      return JSON.parse(raw) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  async update(id: string, patch: Partial<Omit<T, 'id' | 'createdAt'>>): Promise<T | null> {
+    const job = await this.get(id);
+    if (!job) {
+      return null;
+    }
+    const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+    await this.write(updated);
+    return updated;
+  }
+
+  private async write(job: T): Promise<void> {
+    // Write to a temp file first so readers never see a partial job
+    const target = this.jobPath(job.id);
+    const temp = `${target}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(job, null, 2));
+    await fs.promises.rename(temp, target);
+  }
+}
+
+// Keep one store per process, even across dev-server module reloads
+const globalForJobs = globalThis as unknown as { jobStore?: JobStore; batchJobStore?: JobStore<BatchJob> };
+
+/**
+ * Creates a job store of the configured kind
+ * @param dirName - Directory under DATA_DIR for the file store
+ * @returns New JobStore
+ * @throws Error on Vercel when the store would be local to one function instance
+ */
+function createJobStore<T extends StoredJob>(dirName: string): JobStore<T> {
+  if (isVercel() && (process.env.JOB_STORE === 'memory' || !process.env.DATA_DIR)) {
+    throw new Error('Background jobs on Vercel need JOB_STORE=file with DATA_DIR on storage shared by every function instance');
+  }
+
+  return process.env.JOB_STORE === 'memory'
+    ? new MemoryJobStore<T>()
+    : new FileJobStore<T>(path.join(getDataDir(), dirName));
+}
+
+/**
+ * Returns the configured guide job store
+ * @returns Shared JobStore instance
+ */
+export function getJobStore(): JobStore {
+  globalForJobs.jobStore ??= createJobStore<GuideJob>('jobs');
+  return globalForJobs.jobStore;
+}
+
+/**
+ * Returns the configured batch job store
+ * @returns Shared JobStore instance
+ */
+export function getBatchJobStore(): JobStore<BatchJob> {
+  globalForJobs.batchJobStore ??= createJobStore<BatchJob>('batch-jobs');
+  return globalForJobs.batchJobStore;
+}
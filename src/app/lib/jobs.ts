@@ -0,0 +1,139 @@
+/**
+ * Background execution of the guide pipeline with status tracking
+ *
+ * On Vercel a function's after() work shares the 30 s maxDuration of the
+ * request that queued it, so jobs are handed to the job worker route
+ * (POST /api/jobs/:id/run), which runs them with its own duration. Elsewhere
+ * they run in the server process.
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import type { GenerateGuideRequest, GuideJob } from '../types';
+import { getAppBaseUrl, isVercel, timestamp } from './utils';
+import { runGuidePipeline } from './pipeline';
+import { SendBlockedError } from './send-policy';
+import { getJobStore } from './job-store';
+
+// How long the queuing request waits for a worker route to accept work
+const WORKER_HANDOFF_TIMEOUT_MS = 10_000;
+
+/**
+ * Records a new queued job for a validated request
+ * @param request - Validated generate-guide request
+ * @returns The created job
+ */
+export async function createGuideJob(request: GenerateGuideRequest): Promise<GuideJob> {
+  const now = new Date().toISOString();
+  const job: GuideJob = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    companyName: request.companyName,
+    recipientEmail: request.recipientEmail,
+    aeEmail: request.aeEmail.toLowerCase(),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getJobStore().create(job);
+  console.log(`[${timestamp()}] Created job ${job.id} for ${request.companyName}`);
+
+  return job;
+}
+
+/**
+ * Hands background work to a worker route of this deployment
+ * The worker answers once the work is accepted and keeps running it after responding.
+ * @param workerPath - Worker route path (e.g. /api/jobs/:id/run)
+ * @param body - JSON body for the worker
+ * @throws Error if no worker token is configured or the worker does not accept the work
+ */
+export async function postToWorker(workerPath: string, body: object): Promise<void> {
+  const token = process.env.CRON_SECRET || process.env.ADMIN_TOKEN;
+  if (!token) {
+    throw new Error('CRON_SECRET (or ADMIN_TOKEN) must be set to hand work to a worker route');
+  }
+
+  await axios.post(`${getAppBaseUrl()}${workerPath}`, body, {
+    headers: { Authorization: `Bearer ${token}` },
+    timeout: WORKER_HANDOFF_TIMEOUT_MS,
+  });
+}
+
+/**
+ * Starts a queued job, on the job worker route when running on Vercel
+ * Never throws; a job that cannot be handed over is marked failed.
+ * @param jobId - Job identifier
+ * @param request - Validated generate-guide request
+ * @param callerId - API key ID of the caller, for send rate limits
+ */
+export async function dispatchGuideJob(jobId: string, request: GenerateGuideRequest, callerId?: string): Promise<void> {
+  if (!isVercel()) {
+    await runGuideJob(jobId, request, callerId);
+    return;
+  }
+
+  try {
+    await postToWorker(`/api/jobs/${jobId}/run`, { request, callerId });
+    console.log(`[${timestamp()}] Job ${jobId} handed to the job worker`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`[${timestamp()}] Job ${jobId} could not be started: ${errorMessage}`);
+
+    await getJobStore().update(jobId, {
+      status: 'failed',
+      error: `Job could not be started: ${errorMessage}`,
+      completedAt: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Runs the pipeline for a job, recording each step and the final outcome
+ * Never throws; failures are stored on the job.
+ * @param jobId - Job identifier
+ * @param request - Validated generate-guide request
+ * @param callerId - API key ID of the caller, for send rate limits
+ */
+export async function runGuideJob(jobId: string, request: GenerateGuideRequest, callerId?: string): Promise<void> {
+  const store = getJobStore();
+
+  await store.update(jobId, { status: 'running', startedAt: new Date().toISOString() });
+  console.log(`[${timestamp()}] Job ${jobId} started`);
+
+  try {
+    const result = await runGuidePipeline(request, {
+      callerId,
+      onStep: async (step) => {
+        await store.update(jobId, { step });
+      },
+    });
+
+    await store.update(jobId, {
+      status: 'completed',
+      result: {
+        message: result.message,
+        emailSent: result.emailSent,
+        logoProvider: result.logoProvider,
+        guideId: result.guideId,
+        pdfUrl: result.pdfUrl,
+        sendBlocked: result.sendBlocked,
+        scheduledSend: result.scheduledSend,
+        htmlPreview: result.html,
+      },
+      completedAt: new Date().toISOString(),
+    });
+
+    console.log(`[${timestamp()}] Job ${jobId} completed. Email sent: ${result.emailSent}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`[${timestamp()}] Job ${jobId} failed: ${errorMessage}`);
+
+    await store.update(jobId, {
+      status: 'failed',
+      error: errorMessage,
+      errorCode: error instanceof SendBlockedError ? error.violation.code : undefined,
+      completedAt: new Date().toISOString(),
+    });
+  }
+}
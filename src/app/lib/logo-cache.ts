@@ -0,0 +1,156 @@
+/**
+ * Logo asset cache
+ *
+ * Downloads each company's logo once and keeps the bytes on disk under
+ * DATA_DIR/logo-cache, keyed by domain. Entries expire after
+ * LOGO_CACHE_TTL_HOURS (default 168, one week). Only logos from network
+ * providers (apistemic, site) are cached: request logos are specific to one
+ * request, and curated logos are already local and always take precedence.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { LogoAsset, LogoFetchResult } from '../types';
+import { readPositiveInt, timestamp } from './utils';
+import { getDataDir } from './storage';
+import { fetchPublicUrl } from './public-urls';
+import { fetchCompanyLogo, findCuratedLogo, MAX_LOGO_BYTES, type LogoLookup } from './logos';
+
+/**
+ * Cache entry metadata stored next to the logo bytes
+ */
+type CachedLogoMeta = Omit<LogoAsset, 'data'>;
+
+/**
+ * Resolves the cache file paths for a domain
+ * @param domain - Company domain
+ * @returns Paths of the metadata and bytes files
+ */
+function getCachePaths(domain: string): { metaPath: string; dataPath: string } {
+  const key = domain.toLowerCase().replace(/[^a-z0-9.-]/g, '_');
+  const dir = path.join(getDataDir(), 'logo-cache');
+  return {
+    metaPath: path.join(dir, `${key}.json`),
+    dataPath: path.join(dir, `${key}.bin`),
+  };
+}
+
+/**
+ * Reads a fresh cache entry for a domain
+ * @param domain - Company domain
+ * @returns Cached asset, or null when missing or expired
+ */
+export async function readCachedLogo(domain: string): Promise<LogoAsset | null> {
+  const { metaPath, dataPath } = getCachePaths(domain);
+  const ttlMs = readPositiveInt('LOGO_CACHE_TTL_HOURS', 168) * 60 * 60 * 1000;
+
+  try {
+    const meta = JSON.parse(await fs.promises.readFile(metaPath, 'utf-8')) as CachedLogoMeta;
+
+    if (Date.now() - new Date(meta.fetchedAt).getTime() > ttlMs) {
+      return null;
+    }
+
+    const data = await fs.promises.readFile(dataPath);
+    return { ...meta, data };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores a logo asset for a domain
+ * @param domain - Company domain
+ * @param asset - Downloaded logo
+ */
+async function writeCachedLogo(domain: string, asset: LogoAsset): Promise<void> {
+  const { metaPath, dataPath } = getCachePaths(domain);
+  const { data, ...meta } = asset;
+
+  await fs.promises.mkdir(path.dirname(metaPath), { recursive: true });
+  await fs.promises.writeFile(dataPath, data);
+  await fs.promises.writeFile(metaPath, JSON.stringify(meta, null, 2));
+}
+
+/**
+ * Loads the bytes behind a logo URL or data URI
+ * @param logoUrl - http(s) URL or base64 data URI
+ * @returns Content type and bytes
+ */
+async function downloadLogo(logoUrl: string): Promise<{ contentType: string; data: Buffer }> {
+  const dataUri = logoUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (dataUri) {
+    return { contentType: dataUri[1], data: Buffer.from(dataUri[2], 'base64') };
+  }
+
+  const response = await fetchPublicUrl<ArrayBuffer>(logoUrl, {
+    responseType: 'arraybuffer',
+    timeout: 10000,
+    maxContentLength: MAX_LOGO_BYTES,
+  });
+
+  return {
+    contentType: String(response.headers['content-type'] || 'image/png').split(';')[0].trim(),
+    data: Buffer.from(response.data),
+  };
+}
+
+/**
+ * Encodes a logo asset as a data URI for inlining into HTML
+ * @param asset - Logo asset
+ * @returns Base64 data URI
+ */
+export function toDataUri(asset: LogoAsset): string {
+  return `data:${asset.contentType};base64,${asset.data.toString('base64')}`;
+}
+
+/**
+ * Resolves and downloads a company logo, using the cache when possible
+ * @param lookup - Domain, company name and any logo supplied with the request
+ * @returns Fetch result and, on success, the downloaded asset
+ */
+export async function loadCompanyLogo(
+  lookup: LogoLookup
+): Promise<{ result: LogoFetchResult; asset: LogoAsset | null }> {
+  const hasLocalLogo = !!(lookup.logoUrl || lookup.logoDataUri) || !!findCuratedLogo(lookup.domain);
+
+  if (!hasLocalLogo) {
+    const cached = await readCachedLogo(lookup.domain);
+    if (cached) {
+      console.log(`[${timestamp()}] Logo cache hit for ${lookup.domain} (${cached.provider})`);
+      return {
+        result: { success: true, logoUrl: cached.sourceUrl, provider: cached.provider },
+        asset: cached,
+      };
+    }
+  }
+
+  const result = await fetchCompanyLogo(lookup);
+
+  if (!result.success || !result.logoUrl || !result.provider) {
+    return { result, asset: null };
+  }
+
+  try {
+    const { contentType, data } = await downloadLogo(result.logoUrl);
+    const asset: LogoAsset = {
+      provider: result.provider,
+      sourceUrl: result.logoUrl,
+      contentType,
+      data,
+      fetchedAt: new Date().toISOString(),
+    };
+
+    if (result.provider === 'apistemic' || result.provider === 'site') {
+      await writeCachedLogo(lookup.domain, asset).catch((error) => {
+        console.warn(`[${timestamp()}] Failed to cache logo for ${lookup.domain}: ${error instanceof Error ? error.message : error}`);
+      });
+    }
+
+    return { result, asset };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[${timestamp()}] Logo download failed for ${lookup.domain}: ${errorMessage}`);
+    return { result: { success: false, logoUrl: null, error: errorMessage }, asset: null };
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Company logo lookup through an ordered chain of providers
+ *
+ * Providers are tried in order and the first one that yields a usable image
+ * wins:
+ * 1. request   - logoUrl or logoDataUri supplied with the request
+ * 2. curated   - local directory of curated logos keyed by domain
+ * 3. apistemic - logos-api.apistemic.com
+ * 4. site      - apple-touch-icon, og:image or favicon from the domain itself
+ *
+ * Explicit and curated logos come first because a person chose them.
+ * Request and site URLs are fetched through fetchPublicUrl, which refuses
+ * hosts on private networks (see public-urls.ts).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import type { LogoFetchResult, LogoProviderId } from '../types';
+import { timestamp } from './utils';
+import { fetchPublicUrl } from './public-urls';
+
+// Largest uploaded or downloaded logo accepted (bytes)
+export const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+// Image formats accepted for uploaded and curated logos
+const LOGO_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+};
+
+const DATA_URI_PATTERN = /^data:(image\/(?:png|jpeg|webp|gif|svg\+xml));base64,([A-Za-z0-9+/=\s]+)$/;
+
+/**
+ * Inputs available to logo providers
+ */
+export interface LogoLookup {
+  domain: string;
+  companyName: string;
+  logoUrl?: string;
+  logoDataUri?: string;
+}
+
+/**
+ * A single source of company logos
+ * Resolves to a logo URL (http(s) or data URI), or null when it has none.
+ */
+export interface LogoProvider {
+  id: LogoProviderId;
+  fetch(lookup: LogoLookup): Promise<string | null>;
+}
+
+/**
+ * Checks whether a string is a supported base64 image data URI
+ * @param value - Candidate data URI
+ * @returns boolean indicating if value is a usable logo data URI
+ */
+export function isValidLogoDataUri(value: string): boolean {
+  const match = value.match(DATA_URI_PATTERN);
+  if (!match) {
+    return false;
+  }
+  return Buffer.byteLength(match[2], 'base64') <= MAX_LOGO_BYTES;
+}
+
+/**
+ * Checks whether a string is an absolute http(s) URL
+ * @param value - Candidate URL
+ * @returns boolean indicating if value is an http(s) URL
+ */
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verifies that a URL serves an image
+ * @param url - Image URL to check
+ * @returns boolean indicating if the URL responded 200 with an image
+ */
+async function isReachableImage(url: string): Promise<boolean> {
+  try {
+    const response = await fetchPublicUrl<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      timeout: 5000,
+      maxContentLength: MAX_LOGO_BYTES,
+      validateStatus: (status) => status === 200,
+    });
+    const contentType = String(response.headers['content-type'] || '');
+    return contentType.startsWith('image/') && response.data.byteLength > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Logo supplied with the request (uploaded data URI or explicit URL)
+ */
+const requestProvider: LogoProvider = {
+  id: 'request',
+  async fetch({ logoUrl, logoDataUri }) {
+    if (logoDataUri && isValidLogoDataUri(logoDataUri)) {
+      return logoDataUri.replace(/\s/g, '');
+    }
+    if (logoUrl && isHttpUrl(logoUrl) && await isReachableImage(logoUrl)) {
+      return logoUrl;
+    }
+    return null;
+  },
+};
+
+/**
+ * Finds the curated logo file for a domain
+ * @param domain - Company domain
+ * @returns File path and MIME type, or null if there is none
+ */
+export function findCuratedLogo(domain: string): { filePath: string; mimeType: string } | null {
+  const dir = process.env.CURATED_LOGO_DIR || path.join(process.cwd(), 'src', 'app', 'data', 'logos');
+  const safeDomain = domain.toLowerCase().replace(/[^a-z0-9.-]/g, '');
+
+  for (const [extension, mimeType] of Object.entries(LOGO_MIME_TYPES)) {
+    const filePath = path.join(dir, `${safeDomain}${extension}`);
+    if (fs.existsSync(filePath)) {
+      return { filePath, mimeType };
+    }
+  }
+  return null;
+}
+
+/**
+ * Curated logos stored as <domain>.<ext> in CURATED_LOGO_DIR
+ */
+const curatedProvider: LogoProvider = {
+  id: 'curated',
+  async fetch({ domain }) {
+    const curated = findCuratedLogo(domain);
+    if (!curated) {
+      return null;
+    }
+    const content = await fs.promises.readFile(curated.filePath);
+    return `data:${curated.mimeType};base64,${content.toString('base64')}`;
+  },
+};
+
+/**
+ * Apistemic logo API
+ */
+const apistemicProvider: LogoProvider = {
+  id: 'apistemic',
+  async fetch({ domain }) {
+    const logoApiUrl = `https://logos-api.apistemic.com/domain:${domain}`;
+
+    // Make a HEAD request first to verify the logo exists
+    const response = await axios.head(logoApiUrl, {
+      timeout: 5000,
+      validateStatus: () => true,
+    });
+
+    return response.status === 200 ? logoApiUrl : null;
+  },
+};
+
+/**
+ * Extracts candidate icon URLs from a homepage, best first
+ * @param html - Homepage HTML
+ * @param baseUrl - URL the HTML was loaded from
+ * @returns Absolute candidate URLs
+ */
+function findIconCandidates(html: string, baseUrl: string): string[] {
+  const tags = html.match(/<(?:link|meta)\b[^>]*>/gi) || [];
+  const byKind: Record<'touch' | 'og' | 'icon', string[]> = { touch: [], og: [], icon: [] };
+
+  const attr = (tag: string, name: string): string | undefined => {
+    const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+    return match ? (match[2] ?? match[3] ?? match[4]) : undefined;
+  };
+
+  for (const tag of tags) {
+    const rel = (attr(tag, 'rel') || '').toLowerCase();
+    const property = (attr(tag, 'property') || attr(tag, 'name') || '').toLowerCase();
+
+    if (rel.includes('apple-touch-icon')) {
+      byKind.touch.push(attr(tag, 'href') || '');
+    } else if (property === 'og:image') {
+      byKind.og.push(attr(tag, 'content') || '');
+    } else if (rel.split(/\s+/).includes('icon')) {
+      byKind.icon.push(attr(tag, 'href') || '');
+    }
+  }
+
+  const candidates = [...byKind.touch, ...byKind.og, ...byKind.icon, '/apple-touch-icon.png', '/favicon.ico'];
+  const absolute = new Set<string>();
+
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+    try {
+      const url = new URL(candidate.replace(/&amp;/g, '&'), baseUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        absolute.add(url.toString());
+      }
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  return [...absolute];
+}
+
+/**
+ * Icons and share images published by the company's own site
+ */
+const siteProvider: LogoProvider = {
+  id: 'site',
+  async fetch({ domain }) {
+    const homepageUrl = `https://${domain}/`;
+    let html = '';
+    let baseUrl = homepageUrl;
+
+    try {
+      const response = await fetchPublicUrl(homepageUrl, {
+        responseType: 'text',
+        timeout: 5000,
+        maxContentLength: MAX_LOGO_BYTES,
+        headers: { 'User-Agent': 'Mozilla/5.0 (compatible; GiftGuideGenerator/1.0)' },
+      });
+      html = String(response.data);
+      baseUrl = response.config.url || homepageUrl;
+    } catch {
+      // Homepage unavailable; the well-known icon paths may still work
+    }
+
+    for (const candidate of findIconCandidates(html, baseUrl)) {
+      if (await isReachableImage(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  },
+};
+
+// Providers in priority order
+const LOGO_PROVIDERS: LogoProvider[] = [
+  requestProvider,
+  curatedProvider,
+  apistemicProvider,
+  siteProvider,
+];
+
+/**
+ * Fetches a company logo from the first provider that has one
+ * @param lookup - Domain, company name and any logo supplied with the request
+ * @returns LogoFetchResult with logo URL and provider, or error
+ */
+export async function fetchCompanyLogo(lookup: LogoLookup): Promise<LogoFetchResult> {
+  console.log(`[${timestamp()}] Fetching logo for domain: ${lookup.domain}`);
+
+  const errors: string[] = [];
+
+  for (const provider of LOGO_PROVIDERS) {
+    try {
+      const logoUrl = await provider.fetch(lookup);
+
+      if (logoUrl) {
+        console.log(`[${timestamp()}] Logo found for ${lookup.domain} via ${provider.id}`);
+        return { success: true, logoUrl, provider: provider.id };
+      }
+
+      errors.push(`${provider.id}: no logo`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      errors.push(`${provider.id}: ${errorMessage}`);
+    }
+  }
+
+  const error = errors.join('; ');
+  console.error(`[${timestamp()}] Logo fetch failed for ${lookup.domain}: ${error}`);
+
+  return {
+    success: false,
+    logoUrl: null,
+    error,
+  };
+}
+
+/**
+ * Builds a neutral text logo used when no provider has one
+ * @param companyName - Company name to render
+ * @returns SVG data URI
+ */
+export function generateFallbackLogo(companyName: string): string {
+  const text = companyName
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="360" height="140" viewBox="0 0 360 140">`
+    + `<text x="180" y="70" text-anchor="middle" dominant-baseline="central" `
+    + `font-family="Inter, Helvetica, Arial, sans-serif" font-size="40" font-weight="700" fill="#333333">${text}</text>`
+    + `</svg>`;
+
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
@@ -0,0 +1,209 @@
+/**
+ * Contrast-aware palette derivation from extracted brand colors
+ *
+ * Brand colors are kept as extracted; the derived roles used for text and
+ * borders are darkened or lightened until they meet WCAG AA contrast:
+ * 4.5:1 for text and 3:1 for borders and other non-text UI.
+ */
+
+import type { BaseBrandColors, BrandColors } from '../types';
+
+// WCAG 2.1 AA thresholds
+export const TEXT_CONTRAST = 4.5;
+export const UI_CONTRAST = 3;
+
+// Share of the primary color mixed into the background for tinted panels
+const TINT_AMOUNT = 0.08;
+
+// Neutral text colors tried before falling back to pure black or white
+const DARK_TEXT = '#1A1A1A';
+const LIGHT_TEXT = '#FFFFFF';
+const MUTED_TEXT = '#666666';
+
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+interface Hsl {
+  h: number;
+  s: number;
+  l: number;
+}
+
+/**
+ * Parses a #RRGGBB color
+ * @param hex - HEX color string
+ * @returns RGB components (0-255)
+ */
+function hexToRgb(hex: string): Rgb {
+  const value = hex.replace('#', '');
+  return {
+    r: parseInt(value.slice(0, 2), 16),
+    g: parseInt(value.slice(2, 4), 16),
+    b: parseInt(value.slice(4, 6), 16),
+  };
+}
+
+/**
+ * Formats RGB components as #RRGGBB
+ * @param rgb - RGB components (0-255)
+ * @returns Uppercase HEX color string
+ */
+function rgbToHex({ r, g, b }: Rgb): string {
+  const toHex = (n: number): string => Math.round(Math.min(255, Math.max(0, n))).toString(16).padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+}
+
+function rgbToHsl({ r, g, b }: Rgb): Hsl {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+
+  if (max === min) {
+    return { h: 0, s: 0, l };
+  }
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+
+  if (max === rn) {
+    h = (gn - bn) / d + (gn < bn ? 6 : 0);
+  } else if (max === gn) {
+    h = (bn - rn) / d + 2;
+  } else {
+    h = (rn - gn) / d + 4;
+  }
+
+  return { h: h / 6, s, l };
+}
+
+function hslToRgb({ h, s, l }: Hsl): Rgb {
+  if (s === 0) {
+    return { r: l * 255, g: l * 255, b: l * 255 };
+  }
+
+  const hueToRgb = (p: number, q: number, t: number): number => {
+    const tn = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (tn < 1 / 6) return p + (q - p) * 6 * tn;
+    if (tn < 1 / 2) return q;
+    if (tn < 2 / 3) return p + (q - p) * (2 / 3 - tn) * 6;
+    return p;
+  };
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+
+  return {
+    r: hueToRgb(p, q, h + 1 / 3) * 255,
+    g: hueToRgb(p, q, h) * 255,
+    b: hueToRgb(p, q, h - 1 / 3) * 255,
+  };
+}
+
+/**
+ * Computes WCAG relative luminance
+ * @param hex - HEX color string
+ * @returns Luminance between 0 (black) and 1 (white)
+ */
+export function relativeLuminance(hex: string): number {
+  const { r, g, b } = hexToRgb(hex);
+  const channel = (c: number): number => {
+    const cs = c / 255;
+    return cs <= 0.03928 ? cs / 12.92 : Math.pow((cs + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/**
+ * Computes the WCAG contrast ratio between two colors
+ * @param foreground - HEX color string
+ * @param background - HEX color string
+ * @returns Ratio between 1 and 21
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const l1 = relativeLuminance(foreground);
+  const l2 = relativeLuminance(background);
+  const [lighter, darker] = l1 > l2 ? [l1, l2] : [l2, l1];
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Darkens or lightens a color until it reaches a contrast target
+ * Hue and saturation are preserved; only lightness moves, away from the
+ * background's lightness.
+ * @param color - HEX color to adjust
+ * @param background - HEX background color
+ * @param target - Minimum contrast ratio
+ * @returns Original color if it already passes, otherwise the adjusted color
+ */
+export function ensureContrast(color: string, background: string, target: number): string {
+  if (contrastRatio(color, background) >= target) {
+    return color.toUpperCase();
+  }
+
+  const hsl = rgbToHsl(hexToRgb(color));
+  const darken = relativeLuminance(background) > 0.5;
+
+  for (let step = 1; step <= 50; step++) {
+    const l = darken ? Math.max(0, hsl.l - step * 0.02) : Math.min(1, hsl.l + step * 0.02);
+    const candidate = rgbToHex(hslToRgb({ ...hsl, l }));
+    if (contrastRatio(candidate, background) >= target) {
+      return candidate;
+    }
+  }
+
+  return darken ? '#000000' : '#FFFFFF';
+}
+
+/**
+ * Picks readable text for a fill color
+ * @param fill - HEX background the text sits on
+ * @returns Near-black or white, whichever contrasts more
+ */
+function pickTextOn(fill: string): string {
+  return contrastRatio(DARK_TEXT, fill) >= contrastRatio(LIGHT_TEXT, fill) ? DARK_TEXT : LIGHT_TEXT;
+}
+
+/**
+ * Mixes two colors
+ * @param a - HEX color
+ * @param b - HEX color
+ * @param amount - Share of color a (0-1)
+ * @returns Mixed HEX color
+ */
+function mix(a: string, b: string, amount: number): string {
+  const ca = hexToRgb(a);
+  const cb = hexToRgb(b);
+  return rgbToHex({
+    r: ca.r * amount + cb.r * (1 - amount),
+    g: ca.g * amount + cb.g * (1 - amount),
+    b: ca.b * amount + cb.b * (1 - amount),
+  });
+}
+
+/**
+ * Derives accessible color roles from extracted brand colors
+ * @param base - Extracted primary, secondary, background and accent colors
+ * @returns BrandColors with derived roles
+ */
+export function buildPalette(base: BaseBrandColors): BrandColors {
+  const { primary, secondary, background } = base;
+  const tint = mix(primary, background, TINT_AMOUNT);
+
+  return {
+    ...base,
+    textOnPrimary: pickTextOn(primary),
+    textOnBackground: ensureContrast(pickTextOn(background), background, TEXT_CONTRAST),
+    heading: ensureContrast(primary, background, TEXT_CONTRAST),
+    secondaryText: ensureContrast(secondary, background, TEXT_CONTRAST),
+    mutedText: ensureContrast(MUTED_TEXT, background, TEXT_CONTRAST),
+    border: ensureContrast(primary, background, UI_CONTRAST),
+    tint,
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * PDF rendering with Puppeteer and serverless Chromium
+ */
+
+import puppeteer, { type Page } from 'puppeteer-core';
+import chromium from '@sparticuz/chromium';
+import sharp from 'sharp';
+import { BrowserPool, type BrowserPoolStats } from './browser-pool';
+import { isVercel, readPositiveInt, timestamp } from './utils';
+
+// Keep one pool per process, even across dev-server module reloads
+const globalForPool = globalThis as unknown as { browserPool?: BrowserPool };
+
+// Cover thumbnails are shown 280px wide in the email; twice that stays sharp on high-DPI screens
+const COVER_IMAGE_WIDTH = 560;
+
+/**
+ * Rendered guide PDF with a thumbnail of its cover page
+ */
+export interface GuideRender {
+  pdf: Buffer;
+  /** PNG of the first page, or null if the screenshot failed */
+  coverImage: Buffer | null;
+}
+
+/**
+ * Gets the Chrome executable path based on the environment
+ * - Local Windows: Uses installed Chrome
+ * - Serverless (Vercel): Uses @sparticuz/chromium
+ */
+async function getChromePath(): Promise<string | undefined> {
+  if (isVercel()) {
+    // On Vercel, use @sparticuz/chromium
+    const execPath = await chromium.executablePath(
+      'https://github.com/Sparticuz/chromium/releases/download/v131.0.1/chromium-v131.0.1-pack.tar'
+    );
+    console.log(`[${timestamp()}] Using serverless chromium: ${execPath}`);
+    return execPath;
+  }
+
+  // Local development - try to find Chrome
+  const windowsPaths = [
+    'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+    process.env.LOCALAPPDATA + '\\Google\\Chrome\\Application\\chrome.exe',
+  ];
+
+  const fs = await import('fs');
+  for (const chromePath of windowsPaths) {
+    if (chromePath && fs.existsSync(chromePath)) {
+      console.log(`[${timestamp()}] Using local Chrome: ${chromePath}`);
+      return chromePath;
+    }
+  }
+
+  console.log(`[${timestamp()}] No Chrome found, using chromium fallback`);
+  return undefined;
+}
+
+/**
+ * Launches a headless browser for the current environment
+ */
+async function launchBrowser() {
+  const executablePath = await getChromePath();
+
+  return puppeteer.launch({
+    args: isVercel()
+      ? chromium.args
+      : ['--no-sandbox', '--disable-setuid-sandbox'],
+    defaultViewport: { width: 816, height: 1056 },
+    executablePath,
+    headless: true,
+  });
+}
+
+/**
+ * Returns the shared browser pool, creating it on first use
+ * @returns BrowserPool instance
+ */
+export function getBrowserPool(): BrowserPool {
+  if (!globalForPool.browserPool) {
+    globalForPool.browserPool = new BrowserPool({
+      launch: launchBrowser,
+      maxRendersPerBrowser: readPositiveInt('BROWSER_POOL_MAX_RENDERS', 50),
+      maxConcurrentRenders: readPositiveInt('BROWSER_POOL_CONCURRENCY', 2),
+      idleTimeoutMs: readPositiveInt('BROWSER_POOL_IDLE_MS', 60000),
+    });
+
+    // Close the warm browser when the event loop drains (SIGINT/SIGTERM are handled by Puppeteer)
+    const pool = globalForPool.browserPool;
+    process.once('beforeExit', () => {
+      void pool.shutdown();
+    });
+  }
+  return globalForPool.browserPool;
+}
+
+/**
+ * Returns browser pool statistics for debugging
+ * @returns Current pool stats
+ */
+export function getBrowserPoolStats(): BrowserPoolStats {
+  return getBrowserPool().getStats();
+}
+
+/**
+ * Loads HTML into a page and waits for its images
+ * @param page - Pooled page
+ * @param html - HTML content to render
+ */
+async function loadContent(page: Page, html: string): Promise<void> {
+  console.log(`[${timestamp()}] Setting HTML content...`);
+  await page.setContent(html, {
+    waitUntil: ['networkidle0', 'domcontentloaded'],
+  });
+}
+
+/**
+ * Prints the loaded page to a Letter-size PDF
+ * @param page - Page with content loaded
+ * @returns PDF buffer
+ */
+async function printPdf(page: Page): Promise<Buffer> {
+  console.log(`[${timestamp()}] Generating PDF...`);
+  const pdfBuffer = await page.pdf({
+    format: 'Letter',
+    printBackground: true,
+    preferCSSPageSize: true,
+    margin: { top: 0, right: 0, bottom: 0, left: 0 },
+  });
+
+  console.log(`[${timestamp()}] PDF generated successfully (${pdfBuffer.length} bytes)`);
+
+  return Buffer.from(pdfBuffer);
+}
+
+/**
+ * Screenshots the first page as it prints and shrinks it for email
+ * @param page - Page with content loaded
+ * @returns Palette PNG of the cover, COVER_IMAGE_WIDTH pixels wide
+ */
+async function captureCover(page: Page): Promise<Buffer> {
+  // Print styles, so the thumbnail matches the PDF
+  await page.emulateMediaType('print');
+
+  const cover = await page.$('.page');
+  const screenshot = cover
+    ? await cover.screenshot({ type: 'png' })
+    : await page.screenshot({ type: 'png' });
+
+  // Email clients download the image with the message; a quantized palette keeps it small
+  const image = await sharp(screenshot)
+    .resize({ width: COVER_IMAGE_WIDTH, withoutEnlargement: true })
+    .png({ palette: true, quality: 85, compressionLevel: 9 })
+    .toBuffer();
+
+  console.log(`[${timestamp()}] Cover image captured (${image.length} bytes)`);
+
+  return image;
+}
+
+/**
+ * Generates PDF from HTML using a pooled Puppeteer browser
+ * @param html - HTML content to render
+ * @returns PDF buffer
+ */
+export async function generatePDF(html: string): Promise<Buffer> {
+  return getBrowserPool().withPage(async (page) => {
+    await loadContent(page, html);
+    return printPdf(page);
+  });
+}
+
+/**
+ * Generates the PDF and a cover thumbnail from the same page
+ * A failed screenshot only loses the thumbnail, never the PDF.
+ * @param html - HTML content to render
+ * @returns PDF buffer and cover PNG
+ */
+export async function generatePdfWithCover(html: string): Promise<GuideRender> {
+  return getBrowserPool().withPage(async (page) => {
+    await loadContent(page, html);
+
+    let coverImage: Buffer | null = null;
+    try {
+      coverImage = await captureCover(page);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[${timestamp()}] Cover image capture failed: ${errorMessage}`);
+    }
+
+    return { pdf: await printPdf(page), coverImage };
+  });
+}
@@ -0,0 +1,380 @@
+/**
+ * Gift guide generation pipeline
+ *
+ * Runs logo fetch, color extraction, template generation, PDF rendering,
+ * email delivery and history recording for a single validated request.
+ * Previews run only the first three steps (see renderGuide).
+ */
+
+import crypto from 'crypto';
+import type {
+  GenerateGuideRequest,
+  GuidePipelineResult,
+  GuidePreviewRequest,
+  PipelineStep,
+  TemplateData,
+  AccountExecutive,
+  BrandColors,
+  EmailSendResult,
+  GuideDeliveryStatus,
+  ScheduledSend,
+  SendPolicyViolation
+} from '../types';
+import { extractBrandColors, DEFAULT_COLORS, readPositiveInt, timestamp } from './utils';
+import { generateFallbackLogo, isHttpUrl } from './logos';
+import { loadCompanyLogo, toDataUri } from './logo-cache';
+import { generateEmail, generateGiftGuideTemplate } from './template';
+import { getProduct, selectProducts } from './catalog';
+import { buildQuote, DEFAULT_QUOTE_VALIDITY_DAYS } from './pricing';
+import { generatePDF, generatePdfWithCover } from './pdf';
+import { COVER_IMAGE_CID, isEmailConfigured, sendEmail } from './email';
+import { getGuidePdfUrl, getGuidePreviewUrl, saveGuide, toStoredRequest } from './guides';
+import { getGuideViewUrl } from './guide-links';
+import { checkSendPolicy, releaseSendReservation, SendBlockedError } from './send-policy';
+import { getUnsubscribeUrl } from './unsubscribe';
+import { getQuoteLinkExpiry, getQuoteRequestUrl } from './quote-links';
+import { getAccountExecutive } from './account-executives';
+import { DEFAULT_EMAIL_TEMPLATE_ID, getDefaultEmailTemplate, getEmailTemplate, getMergeValues } from './email-templates';
+import { createScheduledSend, toScheduledSendSummary } from './scheduled-sends';
+
+/**
+ * Options for a pipeline run
+ */
+export interface PipelineOptions {
+  /** Who is sending (API key ID), for per-caller rate limits */
+  callerId?: string;
+  /** Invoked as each step starts */
+  onStep?: (step: PipelineStep) => void | Promise<void>;
+}
+
+/**
+ * Guide HTML together with the inputs it was rendered from
+ */
+export interface RenderedGuide extends TemplateData {
+  html: string;
+  /** Where the logo was downloaded from, when it came from the web */
+  logoSourceUrl?: string;
+}
+
+/**
+ * Formats a send time for messages, in the timezone it was given in
+ * @param sendAt - UTC ISO send time
+ * @param timeZone - IANA timezone
+ * @returns Time such as "Nov 2, 2026, 9:00 AM EST"
+ */
+function formatSendAt(sendAt: string, timeZone: string): string {
+  return new Date(sendAt).toLocaleString('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
+
+/**
+ * Fetches the logo, extracts brand colors and builds the guide HTML
+ * These are the pipeline steps before PDF rendering; previews stop here.
+ * @param request - Validated generate-guide or preview request
+ * @param onStep - Invoked as each step starts
+ * @param guideId - ID the guide will be stored under; previews have none, so their quote-request button goes nowhere
+ * @returns Guide HTML with its logo, colors, AE and products
+ */
+export async function renderGuide(
+  request: GuidePreviewRequest,
+  onStep?: PipelineOptions['onStep'],
+  guideId?: string
+): Promise<RenderedGuide> {
+  const {
+    companyName,
+    domain,
+    aeId,
+    aeName,
+    aeEmail,
+    aePhone,
+    productIds,
+    categories,
+    tags,
+    quantities,
+    logoUrl: requestedLogoUrl,
+    logoDataUri,
+    themeId,
+    locale,
+  } = request;
+
+  // Step 2: Fetch company logo
+  console.log(`[${timestamp()}] Step 2: Fetching company logo...`);
+  await onStep?.('fetching-logo');
+  const { asset: logoAsset } = await loadCompanyLogo({
+    domain,
+    companyName,
+    logoUrl: requestedLogoUrl,
+    logoDataUri,
+  });
+
+  // Inline the logo so Chromium never downloads it again
+  const logoUrl = logoAsset ? toDataUri(logoAsset) : generateFallbackLogo(companyName);
+  const logoProvider = logoAsset?.provider ?? 'fallback';
+
+  if (!logoAsset) {
+    console.warn(`[${timestamp()}] Logo fetch failed, using text fallback`);
+  }
+
+  // Step 3: Extract brand colors
+  console.log(`[${timestamp()}] Step 3: Extracting brand colors...`);
+  await onStep?.('extracting-colors');
+  let colors: BrandColors;
+
+  if (logoAsset) {
+    colors = await extractBrandColors(logoAsset.data);
+  } else {
+    console.log(`[${timestamp()}] Using default colors (no logo available)`);
+    colors = DEFAULT_COLORS;
+  }
+
+  // Directory AEs also bring a title, headshot, signature and booking link
+  const directoryAe = aeId ? getAccountExecutive(aeId) : null;
+  const accountExecutive: AccountExecutive = {
+    name: aeName ?? '',
+    email: aeEmail ?? '',
+    phone: aePhone ?? '',
+    title: directoryAe?.title,
+    headshotUrl: directoryAe?.headshotUrl,
+    signature: directoryAe?.signature,
+    bookingUrl: directoryAe?.bookingUrl,
+  };
+
+  // Step 4: Generate HTML template
+  console.log(`[${timestamp()}] Step 4: Generating HTML template...`);
+  await onStep?.('generating-template');
+  const quoteLinkExpiresAt = getQuoteLinkExpiry();
+  const templateData: TemplateData = {
+    companyName,
+    logoUrl,
+    logoProvider,
+    colors,
+    accountExecutive,
+    products: selectProducts({ productIds, categories, tags }),
+    locale,
+    // Validation guarantees every SKU is an active, priced product in one currency
+    quote: quantities && Object.keys(quantities).length > 0
+      ? buildQuote(
+        Object.entries(quantities).map(([sku, quantity]) => ({ product: getProduct(sku)!, quantity })),
+        { validityDays: readPositiveInt('QUOTE_VALIDITY_DAYS', DEFAULT_QUOTE_VALIDITY_DAYS) }
+      )
+      : undefined,
+    quoteRequestLink: {
+      url: guideId ? getQuoteRequestUrl(guideId, quoteLinkExpiresAt) : '#',
+      expiresAt: quoteLinkExpiresAt.toISOString(),
+    },
+  };
+
+  const html = generateGiftGuideTemplate(templateData, themeId);
+
+  if (!html || html.length === 0) {
+    throw new Error('Failed to generate HTML template');
+  }
+
+  console.log(`[${timestamp()}] HTML template generated (${html.length} characters)`);
+
+  return {
+    ...templateData,
+    html,
+    logoSourceUrl: logoAsset && isHttpUrl(logoAsset.sourceUrl) ? logoAsset.sourceUrl : undefined,
+  };
+}
+
+/**
+ * Generates a gift guide PDF and delivers it by email, download or both
+ * The send policy is checked before any work: a blocked email-only request
+ * throws SendBlockedError, while "both" still produces a downloadable PDF.
+ * With a sendAt, the email is rendered now and stored for the scheduler,
+ * which checks the send policy when it goes out.
+ * @param request - Validated generate-guide request
+ * @param options - Caller ID and step callback
+ * @returns Pipeline result with HTML, PDF, email status and download URL
+ */
+export async function runGuidePipeline(
+  request: GenerateGuideRequest,
+  options: PipelineOptions = {}
+): Promise<GuidePipelineResult> {
+  const { callerId = 'anonymous', onStep } = options;
+  const {
+    companyName,
+    domain,
+    recipientEmail,
+    delivery = 'email',
+    emailTemplateId = DEFAULT_EMAIL_TEMPLATE_ID,
+    personalNote,
+    ccAe,
+    sendAt,
+    timezone = 'UTC',
+    locale,
+  } = request;
+
+  let sendBlocked: SendPolicyViolation | null = null;
+  let reserved = false;
+
+  if (delivery !== 'download' && !sendAt && isEmailConfigured()) {
+    sendBlocked = await checkSendPolicy({ callerId, recipientEmail });
+    reserved = !sendBlocked;
+
+    // Nothing else was asked for, so there is no point rendering the guide
+    if (sendBlocked && delivery === 'email') {
+      throw new SendBlockedError(sendBlocked);
+    }
+  }
+
+  // The allowed send holds a place under the daily cap until its outcome is in history
+  try {
+    // Assigned up front so the guide's quote-request link and the email's unsubscribe link can name it
+    const guideId = crypto.randomUUID();
+    const {
+      html,
+      colors,
+      logoProvider,
+      logoSourceUrl,
+      accountExecutive,
+      products,
+      quote,
+      quoteRequestLink,
+    } = await renderGuide(request, onStep, guideId);
+
+    // Step 5: Generate PDF with Puppeteer
+    console.log(`[${timestamp()}] Step 5: Generating PDF...`);
+    await onStep?.('generating-pdf');
+    // Emails show a thumbnail of the cover, captured from the same page
+    const { pdf: pdfBuffer, coverImage } = delivery === 'download'
+      ? { pdf: await generatePDF(html), coverImage: null }
+      : await generatePdfWithCover(html);
+
+    let emailResult: EmailSendResult | null = null;
+    let scheduledSend: ScheduledSend | null = null;
+    let deliveryStatus: GuideDeliveryStatus = 'skipped';
+    let message: string;
+
+    if (delivery === 'download') {
+      // Download only: keep the PDF and skip email entirely
+      message = `Gift guide PDF generated for ${companyName} and ready to download.`;
+    } else {
+      // Step 6: Send email with PDF attachment
+      console.log(`[${timestamp()}] Step 6: Sending email...`);
+      await onStep?.('sending-email');
+
+      // Check for a configured email transport
+      if (!isEmailConfigured()) {
+        console.warn(`[${timestamp()}] Email transport not configured, skipping email send`);
+        console.log(`[${timestamp()}] PDF generated successfully but email not sent`);
+        message = `Gift guide PDF generated for ${companyName}. Email not sent (email transport not configured).`;
+      } else if (sendBlocked) {
+        deliveryStatus = 'blocked';
+        message = `Gift guide PDF generated for ${companyName} and ready to download. Email blocked: ${sendBlocked.message}`;
+      } else {
+        // A template deleted since validation falls back to the default copy
+        const emailTemplate = getEmailTemplate(emailTemplateId, locale) ?? getDefaultEmailTemplate(locale);
+        const unsubscribeUrl = getUnsubscribeUrl(recipientEmail, guideId);
+        const content = generateEmail(
+          emailTemplate,
+          getMergeValues({ recipientEmail, companyName, domain, accountExecutive, products, locale }),
+          accountExecutive,
+          personalNote,
+          unsubscribeUrl,
+          coverImage
+            ? { contentId: COVER_IMAGE_CID, linkUrl: getGuideViewUrl(guideId) }
+            : undefined,
+          locale
+        );
+
+        if (sendAt) {
+          scheduledSend = await createScheduledSend({
+            guideId,
+            sendAt,
+            timezone,
+            recipientEmail,
+            companyName,
+            accountExecutive,
+            ccAe,
+            callerId,
+            content,
+          });
+          deliveryStatus = 'scheduled';
+          message = `Gift guide generated for ${companyName}. Email to ${recipientEmail} scheduled for ${formatSendAt(sendAt, timezone)}.`;
+        } else {
+          // Try to send email, but don't fail if it doesn't work
+          emailResult = await sendEmail(recipientEmail, companyName, accountExecutive, pdfBuffer, {
+            content,
+            unsubscribeUrl,
+            ccAe,
+            coverImage,
+          });
+          deliveryStatus = emailResult.success ? 'sent' : 'failed';
+          message = emailResult.success
+            ? `Gift guide generated and emailed successfully to ${recipientEmail}`
+            : `Gift guide PDF generated for ${companyName}. Email failed: ${emailResult.error}`;
+        }
+      }
+    }
+
+    const emailSent = deliveryStatus === 'sent';
+
+    // The PDF stays downloadable when requested, or when email was the only way to get it and did not go out
+    // (a scheduled email has not gone out yet; the scheduler attaches the stored PDF)
+    const keepPdf = delivery !== 'email' || !emailSent;
+
+    // Step 7: Record the guide in history
+    let pdfUrl: string | undefined;
+
+    try {
+      await saveGuide(
+        {
+          id: guideId,
+          createdAt: new Date().toISOString(),
+          request: toStoredRequest(request),
+          colors,
+          logoProvider,
+          logoSourceUrl,
+          pdfSha256: crypto.createHash('sha256').update(pdfBuffer).digest('hex'),
+          pdfUrl: keepPdf ? getGuidePdfUrl(guideId) : undefined,
+          previewUrl: getGuidePreviewUrl(guideId),
+          deliveryStatus,
+          messageId: emailResult?.messageId,
+          scheduledSendId: scheduledSend?.id,
+          emailError: emailResult?.error ?? sendBlocked?.message,
+          sendBlockCode: sendBlocked?.code,
+          quote,
+          quoteLinkExpiresAt: quoteRequestLink?.expiresAt,
+        },
+        {
+          html,
+          pdf: keepPdf ? pdfBuffer : undefined,
+          coverImage: scheduledSend && coverImage ? coverImage : undefined,
+        }
+      );
+      pdfUrl = keepPdf ? getGuidePdfUrl(guideId) : undefined;
+      console.log(`[${timestamp()}] Guide ${guideId} recorded in history`);
+    } catch (error) {
+      // The guide was already generated (and possibly emailed); history is best effort
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[${timestamp()}] Failed to record guide ${guideId}: ${errorMessage}`);
+    }
+
+    return {
+      guideId,
+      html,
+      pdfBuffer,
+      emailSent,
+      logoProvider,
+      messageId: emailResult?.messageId,
+      pdfUrl,
+      sendBlocked: sendBlocked ?? undefined,
+      scheduledSend: scheduledSend ? toScheduledSendSummary(scheduledSend) : undefined,
+      message,
+    };
+  } finally {
+    if (reserved) {
+      releaseSendReservation(recipientEmail);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for quote pricing
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Product } from '../types';
+import { buildQuote, findPriceTier, getCurrencyDigits, MAX_QUOTE_QUANTITY, priceLineItem } from './pricing';
+
+/**
+ * Builds a catalog product for a test
+ * @param overrides - Fields that differ from a plain USD product
+ * @returns Product
+ */
+function product(overrides: Partial<Product> = {}): Product {
+  return {
+    sku: 'TST-001',
+    name: 'Test Product',
+    category: 'apparel',
+    description: '',
+    imageUrl: '',
+    basePrice: 10,
+    currency: 'USD',
+    tags: [],
+    active: true,
+    ...overrides,
+  };
+}
+
+// Same prices as APP-TEE-001 and DRK-MUG-001 in the catalog
+const tee = product({
+  sku: 'APP-TEE-001',
+  name: 'Custom T-Shirt',
+  basePrice: 18.99,
+  priceTiers: [
+    { minQuantity: 250, unitPrice: 12.99 },
+    { minQuantity: 50, unitPrice: 16.49 },
+    { minQuantity: 500, unitPrice: 11.49 },
+    { minQuantity: 100, unitPrice: 14.99 },
+  ],
+  setupFee: 75,
+});
+
+const mug = product({
+  sku: 'DRK-MUG-001',
+  name: 'Branded Mug',
+  basePrice: 12.99,
+  priceTiers: [
+    { minQuantity: 72, unitPrice: 10.99 },
+    { minQuantity: 144, unitPrice: 9.49 },
+    { minQuantity: 288, unitPrice: 8.49 },
+  ],
+  setupFee: 55,
+});
+
+describe('findPriceTier', () => {
+  it('returns undefined below the first break', () => {
+    expect(findPriceTier(tee, 49)).toBeUndefined();
+  });
+
+  it('applies a break from its minimum quantity', () => {
+    expect(findPriceTier(tee, 50)).toEqual({ minQuantity: 50, unitPrice: 16.49 });
+    expect(findPriceTier(tee, 99)?.minQuantity).toBe(50);
+  });
+
+  it('picks the highest break reached whatever the tier order', () => {
+    expect(findPriceTier(tee, 250)?.minQuantity).toBe(250);
+    expect(findPriceTier(tee, 499)?.minQuantity).toBe(250);
+    expect(findPriceTier(tee, 10_000)?.minQuantity).toBe(500);
+  });
+
+  it('returns undefined for a product without tiers', () => {
+    expect(findPriceTier(product(), 1000)).toBeUndefined();
+  });
+});
+
+describe('priceLineItem', () => {
+  it('prices at list when no break applies', () => {
+    expect(priceLineItem(tee, 10)).toEqual({
+      sku: 'APP-TEE-001',
+      name: 'Custom T-Shirt',
+      quantity: 10,
+      listUnitPrice: 18.99,
+      unitPrice: 18.99,
+      tierMinQuantity: undefined,
+      discount: 0,
+      setupFee: 75,
+      subtotal: 264.9,
+    });
+  });
+
+  it('applies the quantity break and reports the saving', () => {
+    const line = priceLineItem(tee, 250);
+
+    expect(line.unitPrice).toBe(12.99);
+    expect(line.tierMinQuantity).toBe(250);
+    expect(line.discount).toBe(1500);
+    expect(line.setupFee).toBe(75);
+    expect(line.subtotal).toBe(3322.5);
+  });
+
+  it('leaves out the setup fee when the product has none', () => {
+    const line = priceLineItem(product({ basePrice: 2.5 }), 4);
+
+    expect(line.setupFee).toBe(0);
+    expect(line.subtotal).toBe(10);
+  });
+
+  it('rejects a product without a base price', () => {
+    expect(() => priceLineItem(product({ basePrice: undefined, price: 'Call us' }), 1)).toThrow('has no base price');
+  });
+
+  it.each([0, -5, 1.5, Number.NaN, MAX_QUOTE_QUANTITY + 1])('rejects quantity %s', (quantity) => {
+    expect(() => priceLineItem(tee, quantity)).toThrow('Invalid quantity');
+  });
+});
+
+describe('minor-unit rounding', () => {
+  it('rounds a line half up to the cent', () => {
+    // 1.005 is stored as 1.00499999..., which naive rounding takes down to 1.00
+    expect(priceLineItem(product({ basePrice: 1.005 }), 1).subtotal).toBe(1.01);
+  });
+
+  it('keeps sub-cent unit prices until the line is rounded', () => {
+    expect(priceLineItem(product({ basePrice: 0.0125 }), 3).subtotal).toBe(0.04);
+  });
+
+  it('multiplies without floating-point drift', () => {
+    // 0.1 * 3 is 0.30000000000000004 in floating point
+    expect(priceLineItem(product({ basePrice: 0.1 }), 3).subtotal).toBe(0.3);
+  });
+
+  it('rounds JPY to whole yen', () => {
+    expect(getCurrencyDigits('JPY')).toBe(0);
+    expect(priceLineItem(product({ basePrice: 105.7, currency: 'JPY' }), 3).subtotal).toBe(317);
+  });
+
+  it('rounds KWD to three decimals', () => {
+    expect(getCurrencyDigits('KWD')).toBe(3);
+    expect(priceLineItem(product({ basePrice: 1.2345, currency: 'KWD' }), 3).subtotal).toBe(3.704);
+  });
+});
+
+describe('buildQuote', () => {
+  const issuedAt = new Date('2025-01-15T12:00:00.000Z');
+
+  it('totals the lines in display order', () => {
+    const quote = buildQuote([{ product: tee, quantity: 250 }, { product: mug, quantity: 144 }], { issuedAt });
+
+    expect(quote.currency).toBe('USD');
+    expect(quote.lineItems.map((line) => [line.sku, line.subtotal])).toEqual([
+      ['APP-TEE-001', 3322.5],
+      ['DRK-MUG-001', 1421.56],
+    ]);
+    expect(quote.listTotal).toBe(6618.06);
+    expect(quote.discountTotal).toBe(2004);
+    expect(quote.setupFeeTotal).toBe(130);
+    expect(quote.total).toBe(4744.06);
+  });
+
+  it('sums rounded lines rather than rounding the sum', () => {
+    const halfCent = product({ basePrice: 0.005 });
+    const quote = buildQuote([{ product: halfCent, quantity: 1 }, { product: halfCent, quantity: 1 }], { issuedAt });
+
+    // Each line rounds 0.005 up to 0.01; rounding the unrounded sum would give 0.01
+    expect(quote.total).toBe(0.02);
+  });
+
+  it('sets the validity period from the issue time', () => {
+    expect(buildQuote([{ product: mug, quantity: 1 }], { issuedAt })).toMatchObject({
+      issuedAt: '2025-01-15T12:00:00.000Z',
+      validUntil: '2025-02-14T12:00:00.000Z',
+    });
+    expect(buildQuote([{ product: mug, quantity: 1 }], { issuedAt, validityDays: 7 }).validUntil).toBe('2025-01-22T12:00:00.000Z');
+  });
+
+  it('rejects products in different currencies', () => {
+    const euroMug = product({ sku: 'EUR-MUG-001', currency: 'EUR' });
+
+    expect(() => buildQuote([{ product: mug, quantity: 10 }, { product: euroMug, quantity: 10 }])).toThrow(
+      'Quoted products use different currencies: USD, EUR'
+    );
+  });
+
+  it('rejects an empty quote', () => {
+    expect(() => buildQuote([])).toThrow('A quote needs at least one product');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Quote pricing for catalog products
+ *
+ * Pure functions with no I/O, so quotes can be checked in isolation. Money is
+ * added up in integer minor units (cents for USD, yen for JPY) and only
+ * converted back to major units for the result, so totals never pick up
+ * floating-point drift. Each line is rounded half up to the minor unit once,
+ * and the quote totals are sums of the rounded lines.
+ */
+
+import type { PriceTier, Product, Quote, QuoteLineItem } from '../types';
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
+
+// Largest quantity accepted on one line
+export const MAX_QUOTE_QUANTITY = 1_000_000;
+
+// Most lines that fit on the guide's quote page
+export const MAX_QUOTE_LINES = 12;
+
+// Unit prices are kept to 1/100 of the minor unit (e.g. $0.0125) before a line is rounded
+const UNIT_PRICE_EXTRA_DIGITS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Options for building a quote
+ */
+export interface QuoteOptions {
+  /** When the quote is issued (defaults to now) */
+  issuedAt?: Date;
+  /** Days the prices are honored (defaults to DEFAULT_QUOTE_VALIDITY_DAYS) */
+  validityDays?: number;
+}
+
+/**
+ * Checks whether a product has the structured price a quote needs
+ * @param product - Catalog product
+ * @returns boolean indicating if the product can be quoted
+ */
+export function isQuotable(product: Product): boolean {
+  return product.basePrice !== undefined && !!product.currency;
+}
+
+/**
+ * Reads how many decimal places a currency uses
+ * @param currency - ISO 4217 currency code
+ * @returns Minor unit digits (2 for USD, 0 for JPY, 3 for KWD)
+ */
+export function getCurrencyDigits(currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Finds the quantity break that applies to an order
+ * @param product - Catalog product
+ * @param quantity - Units ordered
+ * @returns Tier with the highest minQuantity not above the quantity, or undefined for list price
+ */
+export function findPriceTier(product: Product, quantity: number): PriceTier | undefined {
+  return (product.priceTiers ?? [])
+    .filter((tier) => tier.minQuantity <= quantity)
+    .reduce<PriceTier | undefined>((best, tier) => (!best || tier.minQuantity > best.minQuantity ? tier : best), undefined);
+}
+
+/**
+ * Multiplies a unit price by a quantity
+ * @param unitPrice - Price in major units
+ * @param quantity - Whole number of units
+ * @param digits - Currency minor unit digits
+ * @returns Line amount in minor units, rounded half up
+ */
+function multiplyToMinor(unitPrice: number, quantity: number, digits: number): number {
+  const fine = Math.round(unitPrice * 10 ** (digits + UNIT_PRICE_EXTRA_DIGITS));
+  return Math.round((fine * quantity) / 10 ** UNIT_PRICE_EXTRA_DIGITS);
+}
+
+/**
+ * Converts an amount to minor units
+ * @param amount - Amount in major units
+ * @param digits - Currency minor unit digits
+ * @returns Amount in minor units, rounded half up
+ */
+function toMinor(amount: number, digits: number): number {
+  return Math.round(amount * 10 ** digits);
+}
+
+/**
+ * Converts minor units back to major units
+ * @param minor - Amount in minor units
+ * @param digits - Currency minor unit digits
+ * @returns Amount in major units
+ */
+function toMajor(minor: number, digits: number): number {
+  return minor / 10 ** digits;
+}
+
+/**
+ * Prices one product at a quantity
+ * @param product - Quotable catalog product
+ * @param quantity - Whole number of units, at least 1
+ * @returns Line item with the tier price, discount, setup fee and subtotal
+ * @throws Error if the product has no basePrice or the quantity is not a positive integer
+ */
+export function priceLineItem(product: Product, quantity: number): QuoteLineItem {
+  if (!isQuotable(product)) {
+    throw new Error(`Product ${product.sku} has no base price to quote`);
+  }
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUOTE_QUANTITY) {
+    throw new Error(`Invalid quantity for ${product.sku}: ${quantity}`);
+  }
+
+  const digits = getCurrencyDigits(product.currency!);
+  const listUnitPrice = product.basePrice!;
+  const tier = findPriceTier(product, quantity);
+  const unitPrice = tier?.unitPrice ?? listUnitPrice;
+
+  const listLine = multiplyToMinor(listUnitPrice, quantity, digits);
+  const line = multiplyToMinor(unitPrice, quantity, digits);
+  const setupFee = toMinor(product.setupFee ?? 0, digits);
+
+  return {
+    sku: product.sku,
+    name: product.name,
+    quantity,
+    listUnitPrice,
+    unitPrice,
+    tierMinQuantity: tier?.minQuantity,
+    discount: toMajor(listLine - line, digits),
+    setupFee: toMajor(setupFee, digits),
+    subtotal: toMajor(line + setupFee, digits),
+  };
+}
+
+/**
+ * Prices a set of products and totals them
+ * @param items - Quotable products with their quantities, in display order
+ * @param options - Issue time and validity period
+ * @returns Quote with line items, totals and a validity date
+ * @throws Error if there are no items, the products use different currencies, or a line cannot be priced
+ */
+export function buildQuote(
+  items: Array<{ product: Product; quantity: number }>,
+  options: QuoteOptions = {}
+): Quote {
+  if (items.length === 0) {
+    throw new Error('A quote needs at least one product');
+  }
+
+  const currencies = [...new Set(items.map(({ product }) => product.currency))];
+  if (currencies.length > 1) {
+    throw new Error(`Quoted products use different currencies: ${currencies.join(', ')}`);
+  }
+
+  const lineItems = items.map(({ product, quantity }) => priceLineItem(product, quantity));
+  const currency = currencies[0]!;
+  const digits = getCurrencyDigits(currency);
+
+  // Line amounts are exact in minor units, so sum them there
+  const sum = (amount: (line: QuoteLineItem) => number): number =>
+    toMajor(lineItems.reduce((total, line) => total + toMinor(amount(line), digits), 0), digits);
+
+  const issuedAt = options.issuedAt ?? new Date();
+  const validityDays = options.validityDays ?? DEFAULT_QUOTE_VALIDITY_DAYS;
+
+  return {
+    currency,
+    lineItems,
+    listTotal: sum((line) => line.subtotal - line.setupFee + line.discount),
+    discountTotal: sum((line) => line.discount),
+    setupFeeTotal: sum((line) => line.setupFee),
+    total: sum((line) => line.subtotal),
+    issuedAt: issuedAt.toISOString(),
+    validUntil: new Date(issuedAt.getTime() + validityDays * DAY_MS).toISOString(),
+  };
+}
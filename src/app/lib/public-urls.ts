@@ -0,0 +1,142 @@
+/**
+ * Fetching URLs from outside the app
+ *
+ * Logo URLs come from API callers and from companies' own homepages, so
+ * without checks a request could make the server fetch localhost, the cloud
+ * metadata service (169.254.169.254) or hosts on the private network. Every
+ * host is resolved and refused unless all its addresses are public; the
+ * connection then uses the addresses that were checked, so the name cannot
+ * be re-resolved elsewhere in between. Redirects are followed one at a time,
+ * up to MAX_REDIRECTS, and each hop is checked the same way.
+ */
+
+import dns from 'dns';
+import net from 'net';
+import axios, { type AxiosRequestConfig, type AxiosResponse, type LookupAddressEntry } from 'axios';
+
+// Redirects followed before a fetch is abandoned
+export const MAX_REDIRECTS = 3;
+
+// Address ranges that are not on the public internet
+// (BlockList also checks IPv4-mapped IPv6 addresses against the IPv4 ranges)
+const BLOCKED_SUBNETS: Array<[address: string, prefix: number, type: 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'], // "this" network
+  ['10.0.0.0', 8, 'ipv4'], // private
+  ['100.64.0.0', 10, 'ipv4'], // carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'], // loopback
+  ['169.254.0.0', 16, 'ipv4'], // link-local, including cloud metadata services
+  ['172.16.0.0', 12, 'ipv4'], // private
+  ['192.0.0.0', 24, 'ipv4'], // IETF protocol assignments
+  ['192.168.0.0', 16, 'ipv4'], // private
+  ['198.18.0.0', 15, 'ipv4'], // benchmarking
+  ['224.0.0.0', 4, 'ipv4'], // multicast
+  ['240.0.0.0', 4, 'ipv4'], // reserved and broadcast
+  ['::', 128, 'ipv6'], // unspecified
+  ['::1', 128, 'ipv6'], // loopback
+  ['64:ff9b::', 96, 'ipv6'], // NAT64, which reaches IPv4 hosts
+  ['fc00::', 7, 'ipv6'], // unique local
+  ['fe80::', 10, 'ipv6'], // link-local
+  ['ff00::', 8, 'ipv6'], // multicast
+];
+
+const blockedAddresses = new net.BlockList();
+for (const [address, prefix, type] of BLOCKED_SUBNETS) {
+  blockedAddresses.addSubnet(address, prefix, type);
+}
+
+/**
+ * Checks whether an IP address is on the public internet
+ * @param address - IPv4 or IPv6 address
+ * @returns boolean indicating if the address may be fetched
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (!family) {
+    return false;
+  }
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves a host name, refusing it unless every address is public
+ * Used as the connection's DNS lookup, so the checked addresses are the ones connected to.
+ * @param hostname - Host name to resolve
+ * @param options - Lookup options from the HTTP client
+ * @param callback - Receives the addresses, or the refusal
+ */
+function lookupPublicAddress(
+  hostname: string,
+  options: object,
+  callback: (error: Error | null, addresses: LookupAddressEntry[]) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      callback(new Error(`Refused to fetch ${hostname}: it resolves to non-public address ${blocked.address}`), []);
+      return;
+    }
+
+    callback(null, addresses.map(({ address, family }) => ({ address, family: family === 6 ? 6 : 4 })));
+  });
+}
+
+/**
+ * Checks a URL before it is fetched
+ * Host names are checked when they are resolved (see lookupPublicAddress);
+ * IP addresses are connected to without a lookup, so they are checked here.
+ * @param url - URL about to be fetched
+ * @throws Error if the URL is not http(s) or names a non-public address
+ */
+function assertFetchableUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Refused to fetch ${url.protocol} URL`);
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw new Error(`Refused to fetch non-public address ${host}`);
+  }
+}
+
+/**
+ * Fetches a URL with GET, refusing non-public hosts at every redirect
+ * The URL the response finally came from is in response.config.url.
+ * @param url - http(s) URL to fetch
+ * @param config - axios options; redirects and DNS lookup are handled here
+ * @returns axios response
+ * @throws Error if a hop is refused, there are too many redirects, or the status is not accepted
+ */
+export async function fetchPublicUrl<T = unknown>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+  const { validateStatus = (status: number) => status >= 200 && status < 300, ...options } = config;
+  let current = new URL(url);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    assertFetchableUrl(current);
+
+    const response = await axios.get<T>(current.toString(), {
+      ...options,
+      maxRedirects: 0,
+      lookup: lookupPublicAddress,
+      validateStatus: () => true,
+    });
+
+    const location = response.headers.location;
+    if (response.status >= 300 && response.status < 400 && location) {
+      current = new URL(String(location), current);
+      continue;
+    }
+
+    if (validateStatus && !validateStatus(response.status)) {
+      throw new Error(`Request to ${current.host} failed with status code ${response.status}`);
+    }
+
+    return response;
+  }
+
+  throw new Error(`Too many redirects fetching ${url} (limit ${MAX_REDIRECTS})`);
+}
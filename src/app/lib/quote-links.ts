@@ -0,0 +1,76 @@
+/**
+ * Signed, expiring links to a guide's quote-request page
+ *
+ * A signed token (see signed-tokens.ts) carries the guide ID and an expiry
+ * time, signed with QUOTE_LINK_SECRET (see loadSecret in storage.ts).
+ * Links stop working QUOTE_LINK_DAYS (default 60) after the guide is
+ * generated, so an old PDF cannot keep sending requests.
+ */
+
+import { getAppBaseUrl, readPositiveInt } from './utils';
+import { loadSecret } from './storage';
+import { createSignedToken, verifySignedToken } from './signed-tokens';
+
+export const DEFAULT_QUOTE_LINK_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Contents of a verified quote-link token
+ */
+export interface QuoteLinkToken {
+  guideId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Returns the quote-link signing key
+ * @returns Secret string
+ */
+function getSecret(): string {
+  return loadSecret('QUOTE_LINK_SECRET', 'quote-link-secret');
+}
+
+/**
+ * Computes when a link issued now stops working
+ * @param now - Issue time
+ * @returns Expiry time, QUOTE_LINK_DAYS after now
+ */
+export function getQuoteLinkExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + readPositiveInt('QUOTE_LINK_DAYS', DEFAULT_QUOTE_LINK_DAYS) * DAY_MS);
+}
+
+/**
+ * Creates a signed quote-link token
+ * @param guideId - Guide the link belongs to
+ * @param expiresAt - When the link stops working
+ * @returns Token of the form "<payload>.<signature>"
+ */
+export function createQuoteLinkToken(guideId: string, expiresAt: Date): string {
+  return createSignedToken({ g: guideId, x: Math.floor(expiresAt.getTime() / 1000) }, getSecret());
+}
+
+/**
+ * Verifies a quote-link token's signature
+ * Expiry is left to the caller so an expired link can say so.
+ * @param token - Token from a quote-request link
+ * @returns Guide ID and expiry, or null if the token is malformed or forged
+ */
+export function verifyQuoteLinkToken(token: string): QuoteLinkToken | null {
+  const data = verifySignedToken(token, getSecret());
+  if (!data || typeof data.g !== 'string' || !Number.isInteger(data.x)) {
+    return null;
+  }
+
+  return { guideId: data.g, expiresAt: new Date((data.x as number) * 1000) };
+}
+
+/**
+ * Builds the public quote-request URL for a guide
+ * @param guideId - Guide the link belongs to
+ * @param expiresAt - When the link stops working
+ * @returns Absolute URL of the quote-request page
+ */
+export function getQuoteRequestUrl(guideId: string, expiresAt: Date): string {
+  return `${getAppBaseUrl()}/api/quote-requests?token=${createQuoteLinkToken(guideId, expiresAt)}`;
+}
@@ -0,0 +1,105 @@
+/**
+ * Quote requests sent by guide recipients
+ *
+ * A guide's closing page links to a public form (see quote-links.ts) where
+ * the recipient picks quantities of the guide's products. Each submission is
+ * stored with the guide and forwarded to the guide's AE by email; when every
+ * product has a base price in one currency, the forwarded request is priced
+ * with the same quantity breaks as guide quotes.
+ */
+
+import crypto from 'crypto';
+import type { GuideRecord, Product, Quote, QuoteRequest, QuoteRequestSubmission } from '../types';
+import { readPositiveInt, timestamp } from './utils';
+import { getProduct, selectProducts } from './catalog';
+import { buildQuote, DEFAULT_QUOTE_VALIDITY_DAYS, isQuotable } from './pricing';
+import { isEmailConfigured, sendQuoteRequestEmail } from './email';
+import { addGuideQuoteRequest, updateGuideQuoteRequest } from './guides';
+import { getGuideViewUrl } from './guide-links';
+import { generateQuoteRequestEmail } from './template';
+
+// Requests accepted from one guide, so a leaked link cannot flood the AE's inbox
+export const MAX_QUOTE_REQUESTS_PER_GUIDE = 20;
+
+/**
+ * Lists the products a guide's recipient can ask to have quoted
+ * @param guide - Stored guide
+ * @returns The guide's featured products followed by any quoted ones, active only
+ */
+export function getQuoteRequestProducts(guide: GuideRecord): Product[] {
+  const { productIds, categories, tags } = guide.request;
+  const quoted = (guide.quote?.lineItems ?? [])
+    .map((line) => getProduct(line.sku))
+    .filter((product): product is Product => !!product?.active);
+
+  const seen = new Set<string>();
+  return [...selectProducts({ productIds, categories, tags }), ...quoted].filter((product) => {
+    if (seen.has(product.sku)) {
+      return false;
+    }
+    seen.add(product.sku);
+    return true;
+  });
+}
+
+/**
+ * Prices a quote request when its products allow it
+ * @param products - Requested products with their quantities
+ * @returns Quote, or undefined when a product has no base price or currencies differ
+ */
+function priceQuoteRequest(products: Array<{ product: Product; quantity: number }>): Quote | undefined {
+  const currencies = new Set(products.map(({ product }) => product.currency));
+  if (!products.every(({ product }) => isQuotable(product)) || currencies.size > 1) {
+    return undefined;
+  }
+
+  return buildQuote(products, { validityDays: readPositiveInt('QUOTE_VALIDITY_DAYS', DEFAULT_QUOTE_VALIDITY_DAYS) });
+}
+
+/**
+ * Stores a recipient's quote request and forwards it to the guide's AE
+ * The request is stored before it is forwarded, so it is never lost and
+ * counts toward the guide's limit straight away; a failed forward is
+ * recorded on it rather than thrown.
+ * @param guide - Guide the request came from
+ * @param submission - Validated submission naming products the guide offers
+ * @returns Stored quote request with its forwarding outcome, or null if the guide has reached its limit
+ */
+export async function submitQuoteRequest(guide: GuideRecord, submission: QuoteRequestSubmission): Promise<QuoteRequest | null> {
+  const products = Object.entries(submission.quantities).map(([sku, quantity]) => ({ product: getProduct(sku)!, quantity }));
+
+  const request: QuoteRequest = {
+    id: crypto.randomUUID(),
+    guideId: guide.id,
+    createdAt: new Date().toISOString(),
+    name: submission.name,
+    email: submission.email,
+    message: submission.message,
+    items: products.map(({ product, quantity }) => ({ sku: product.sku, name: product.name, quantity })),
+    quote: priceQuoteRequest(products),
+    forwardStatus: isEmailConfigured() ? 'pending' : 'not_configured',
+  };
+
+  if (!await addGuideQuoteRequest(request, MAX_QUOTE_REQUESTS_PER_GUIDE)) {
+    console.warn(`[${timestamp()}] Quote request for guide ${guide.id} refused: limit of ${MAX_QUOTE_REQUESTS_PER_GUIDE} reached`);
+    return null;
+  }
+
+  console.log(`[${timestamp()}] Quote request ${request.id} stored for guide ${guide.id}`);
+
+  if (request.forwardStatus === 'not_configured') {
+    console.warn(`[${timestamp()}] Quote request ${request.id} not forwarded: email transport not configured`);
+    return request;
+  }
+
+  const content = generateQuoteRequestEmail(guide, request, getGuideViewUrl(guide.id));
+  const result = await sendQuoteRequestEmail(guide.request.aeEmail, submission.email, content);
+  const outcome: Pick<QuoteRequest, 'forwardStatus' | 'messageId' | 'forwardError'> = {
+    forwardStatus: result.success ? 'sent' : 'failed',
+    messageId: result.messageId,
+    forwardError: result.error,
+  };
+
+  await updateGuideQuoteRequest(guide.id, request.id, outcome);
+  return { ...request, ...outcome };
+}
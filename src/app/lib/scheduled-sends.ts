@@ -0,0 +1,178 @@
+/**
+ * Scheduled guide emails
+ *
+ * A request with a sendAt renders its guide and email right away; the email
+ * is stored here, in DATA_DIR/scheduled-sends.json, until the scheduler (see
+ * ./scheduler) sends it. Keeping sends on disk lets them survive restarts;
+ * the cron dispatcher may run on any instance, so production requires a
+ * shared DATA_DIR (see storage.ts). Every instance runs the scheduler timer
+ * and any of them may answer the cron route; claims are made under the
+ * schedule file's lock (see updateJsonFile), so only one of them takes a send.
+ */
+
+import crypto from 'crypto';
+import type { ScheduledSend, ScheduledSendStatus, ScheduledSendSummary } from '../types';
+import { timestamp } from './utils';
+import { dataPath, readJsonFile, updateJsonFile } from './storage';
+
+export const SCHEDULED_SEND_STATUSES: readonly ScheduledSendStatus[] = [
+  'pending',
+  'sending',
+  'sent',
+  'failed',
+  'blocked',
+  'cancelled',
+];
+
+// A claim this old was interrupted (e.g. by a restart) before the send was recorded
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+/**
+ * Resolves the schedule file path
+ * @returns Absolute path of scheduled-sends.json
+ */
+function getScheduleFile(): string {
+  return dataPath('scheduled-sends.json');
+}
+
+/**
+ * Reads every scheduled send
+ * @returns Stored sends
+ */
+function readScheduledSends(): Promise<ScheduledSend[]> {
+  return readJsonFile<ScheduledSend>(getScheduleFile());
+}
+
+/**
+ * Applies a change to the schedule atomically
+ * @param change - Mutates the entries and returns a result
+ * @returns The change's result
+ */
+function updateScheduledSends<T>(change: (entries: ScheduledSend[]) => T): Promise<T> {
+  return updateJsonFile(getScheduleFile(), change);
+}
+
+/**
+ * Strips the rendered email and caller from a scheduled send
+ * @param send - Scheduled send
+ * @returns Summary safe to return from the API
+ */
+export function toScheduledSendSummary(send: ScheduledSend): ScheduledSendSummary {
+  const summary: Partial<ScheduledSend> = { ...send };
+  delete summary.callerId;
+  delete summary.content;
+  return { ...(summary as Omit<ScheduledSend, 'callerId' | 'content'>), subject: send.content.subject };
+}
+
+/**
+ * Stores a rendered email to be sent later
+ * @param send - Email, recipient, AE and due time
+ * @returns The pending send
+ */
+export async function createScheduledSend(
+  send: Omit<ScheduledSend, 'id' | 'status' | 'createdAt' | 'updatedAt'>
+): Promise<ScheduledSend> {
+  const now = new Date().toISOString();
+  const record: ScheduledSend = { ...send, id: crypto.randomUUID(), status: 'pending', createdAt: now, updatedAt: now };
+
+  await updateScheduledSends((entries) => entries.push(record));
+  console.log(`[${timestamp()}] Scheduled send ${record.id} to ${record.recipientEmail} at ${record.sendAt}`);
+
+  return record;
+}
+
+/**
+ * Looks up a scheduled send
+ * @param id - Scheduled send identifier
+ * @returns Scheduled send, or null if not found
+ */
+export async function getScheduledSend(id: string): Promise<ScheduledSend | null> {
+  return (await readScheduledSends()).find((entry) => entry.id === id) ?? null;
+}
+
+/**
+ * Lists scheduled sends, soonest first
+ * @param filter - Status and AE email (case-insensitive) to match
+ * @returns Matching scheduled sends
+ */
+export async function listScheduledSends(
+  filter: { status?: ScheduledSendStatus; aeEmail?: string } = {}
+): Promise<ScheduledSend[]> {
+  const aeEmail = filter.aeEmail?.toLowerCase();
+
+  return (await readScheduledSends())
+    .filter((entry) => !filter.status || entry.status === filter.status)
+    .filter((entry) => !aeEmail || entry.accountExecutive.email.toLowerCase() === aeEmail)
+    .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+}
+
+/**
+ * Applies changes to a scheduled send
+ * @param id - Scheduled send identifier
+ * @param patch - Fields to change
+ * @returns Updated send, or null if not found
+ */
+export async function updateScheduledSend(
+  id: string,
+  patch: Partial<Omit<ScheduledSend, 'id' | 'createdAt'>>
+): Promise<ScheduledSend | null> {
+  return updateScheduledSends((entries) => {
+    const index = entries.findIndex((entry) => entry.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    entries[index] = { ...entries[index], ...patch, updatedAt: new Date().toISOString() };
+    return entries[index];
+  });
+}
+
+/**
+ * Cancels a pending send
+ * @param id - Scheduled send identifier
+ * @returns The send (cancelled only if it was still pending), or null if not found
+ */
+export async function cancelScheduledSend(id: string): Promise<ScheduledSend | null> {
+  const send = await updateScheduledSends((entries) => {
+    const entry = entries.find((candidate) => candidate.id === id);
+    if (entry?.status === 'pending') {
+      entry.status = 'cancelled';
+      entry.updatedAt = new Date().toISOString();
+    }
+    return entry ?? null;
+  });
+
+  if (send?.status === 'cancelled') {
+    console.log(`[${timestamp()}] Cancelled scheduled send ${id}`);
+  }
+
+  return send;
+}
+
+/**
+ * Claims every pending send that is due so no other run, in any process, sends it too
+ * Claims left over from an interrupted run are marked failed rather than
+ * retried, since the email may already have gone out.
+ * @param now - Current time
+ * @returns Claimed sends, now in "sending" status
+ */
+export async function claimDueSends(now: Date = new Date()): Promise<ScheduledSend[]> {
+  return updateScheduledSends((entries) => {
+    const claimed: ScheduledSend[] = [];
+    const updatedAt = now.toISOString();
+
+    for (const entry of entries) {
+      if (entry.status === 'pending' && new Date(entry.sendAt) <= now) {
+        entry.status = 'sending';
+        entry.updatedAt = updatedAt;
+        claimed.push({ ...entry });
+      } else if (entry.status === 'sending' && now.getTime() - new Date(entry.updatedAt).getTime() > STALE_CLAIM_MS) {
+        entry.status = 'failed';
+        entry.error = 'Interrupted while sending; check the recipient inbox before sending again';
+        entry.updatedAt = updatedAt;
+      }
+    }
+
+    return claimed;
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * Dispatcher for scheduled guide emails
+ *
+ * Due sends are picked up by an in-process timer started from
+ * instrumentation.ts (every SCHEDULER_INTERVAL_SECONDS, default 30; 0 turns
+ * it off) and by the /api/scheduled-sends/dispatch route, which a cron job
+ * can call where no long-lived process exists (e.g. on Vercel). The send
+ * policy is checked when the email goes out, not when it was scheduled.
+ */
+
+import type { ScheduledSend, ScheduledSendStatus } from '../types';
+import { readPositiveInt, timestamp } from './utils';
+import { isEmailConfigured, sendEmail } from './email';
+import { readGuideCover, readGuidePdf, updateGuide } from './guides';
+import { checkSendPolicy, releaseSendReservation } from './send-policy';
+import { getUnsubscribeUrl } from './unsubscribe';
+import { claimDueSends, updateScheduledSend } from './scheduled-sends';
+
+const DEFAULT_INTERVAL_SECONDS = 30;
+
+const globalForScheduler = globalThis as unknown as {
+  schedulerTimer?: NodeJS.Timeout;
+  schedulerRunning?: boolean;
+};
+
+/**
+ * Sends one claimed email and records the outcome on the send and its guide
+ * @param send - Claimed scheduled send
+ * @returns Final status of the send
+ */
+async function dispatchScheduledSend(send: ScheduledSend): Promise<ScheduledSendStatus> {
+  const { id, guideId, recipientEmail, companyName, accountExecutive } = send;
+
+  const fail = async (error: string): Promise<ScheduledSendStatus> => {
+    console.error(`[${timestamp()}] Scheduled send ${id} failed: ${error}`);
+    await updateScheduledSend(id, { status: 'failed', error });
+    await updateGuide(guideId, { deliveryStatus: 'failed', emailError: error });
+    return 'failed';
+  };
+
+  if (!isEmailConfigured()) {
+    return fail('Email transport not configured');
+  }
+
+  const pdf = await readGuidePdf(guideId);
+  if (!pdf) {
+    return fail(`Guide ${guideId} PDF is no longer stored`);
+  }
+
+  const violation = await checkSendPolicy({ callerId: send.callerId, recipientEmail });
+  if (violation) {
+    await updateScheduledSend(id, { status: 'blocked', error: violation.message, sendBlockCode: violation.code });
+    await updateGuide(guideId, { deliveryStatus: 'blocked', emailError: violation.message, sendBlockCode: violation.code });
+    return 'blocked';
+  }
+
+  // The allowed send holds a place under the daily cap until its outcome is on the guide
+  try {
+    const result = await sendEmail(recipientEmail, companyName, accountExecutive, pdf.data, {
+      content: send.content,
+      unsubscribeUrl: getUnsubscribeUrl(recipientEmail, guideId),
+      ccAe: send.ccAe,
+      coverImage: await readGuideCover(guideId),
+    });
+
+    if (!result.success) {
+      return fail(result.error ?? 'Unknown error');
+    }
+
+    const sentAt = new Date().toISOString();
+    await updateScheduledSend(id, { status: 'sent', sentAt, messageId: result.messageId });
+    await updateGuide(guideId, { deliveryStatus: 'sent', sentAt, messageId: result.messageId });
+    console.log(`[${timestamp()}] Scheduled send ${id} sent to ${recipientEmail}`);
+
+    return 'sent';
+  } finally {
+    releaseSendReservation(recipientEmail);
+  }
+}
+
+/**
+ * Sends every scheduled email that is due
+ * Never throws; each send's failure is recorded on it.
+ * @param now - Current time
+ * @returns Number of sends dispatched, by final status
+ */
+export async function dispatchDueSends(now: Date = new Date()): Promise<Partial<Record<ScheduledSendStatus, number>>> {
+  const counts: Partial<Record<ScheduledSendStatus, number>> = {};
+  const due = await claimDueSends(now);
+
+  if (due.length > 0) {
+    console.log(`[${timestamp()}] Dispatching ${due.length} scheduled send(s)`);
+  }
+
+  for (const send of due) {
+    let status: ScheduledSendStatus;
+    try {
+      status = await dispatchScheduledSend(send);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[${timestamp()}] Scheduled send ${send.id} failed: ${errorMessage}`);
+      await updateScheduledSend(send.id, { status: 'failed', error: errorMessage }).catch(() => undefined);
+      status = 'failed';
+    }
+    counts[status] = (counts[status] ?? 0) + 1;
+  }
+
+  return counts;
+}
+
+/**
+ * Starts the in-process scheduler timer, once per process
+ * Sends that fell due while the server was down go out on the first tick.
+ */
+export function startScheduler(): void {
+  const intervalSeconds = process.env.SCHEDULER_INTERVAL_SECONDS === '0'
+    ? 0
+    : readPositiveInt('SCHEDULER_INTERVAL_SECONDS', DEFAULT_INTERVAL_SECONDS);
+
+  if (intervalSeconds === 0 || globalForScheduler.schedulerTimer) {
+    return;
+  }
+
+  const tick = async (): Promise<void> => {
+    // Skip a tick while the previous one is still sending
+    if (globalForScheduler.schedulerRunning) {
+      return;
+    }
+
+    globalForScheduler.schedulerRunning = true;
+    try {
+      await dispatchDueSends();
+    } catch (error) {
+      console.error(`[${timestamp()}] Scheduler tick failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      globalForScheduler.schedulerRunning = false;
+    }
+  };
+
+  globalForScheduler.schedulerTimer = setInterval(tick, intervalSeconds * 1000);
+  globalForScheduler.schedulerTimer.unref();
+  void tick();
+
+  console.log(`[${timestamp()}] Scheduler started (every ${intervalSeconds}s)`);
+}
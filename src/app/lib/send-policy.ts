@@ -0,0 +1,248 @@
+/**
+ * Send policy checked before any guide email goes out
+ *
+ * Rules, in order:
+ * 1. Suppressed recipients (bounced, complained, opted out) are never emailed
+ * 2. Each recipient gets at most SEND_DAILY_RECIPIENT_CAP emails in 24 hours,
+ *    counted from guide history plus sends already allowed but not yet
+ *    recorded there (each allowed send reserves a place until the caller
+ *    releases it with releaseSendReservation)
+ * 3. Token buckets limit how fast each caller (API key) and each recipient
+ *    domain can be sent to: SEND_CALLER_RATE_PER_HOUR / SEND_CALLER_BURST and
+ *    SEND_DOMAIN_RATE_PER_HOUR / SEND_DOMAIN_BURST
+ *
+ * Any limit set to 0 is disabled. Buckets and reservations live in process
+ * memory, so each server instance enforces its own rate limits.
+ */
+
+import type { SendPolicyCode, SendPolicyViolation } from '../types';
+import { timestamp } from './utils';
+import { getSuppression } from './suppressions';
+import { listSendTimes } from './guides';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Reservations older than this were never released (the send was abandoned) and stop counting
+const RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+// HTTP status returned for each blocked-send code
+const STATUS_BY_CODE: Record<SendPolicyCode, number> = {
+  caller_rate_limited: 429,
+  domain_rate_limited: 429,
+  daily_cap_reached: 429,
+  recipient_suppressed: 422,
+};
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface BucketLimit {
+  perHour: number;
+  burst: number;
+}
+
+const globalForSendPolicy = globalThis as unknown as {
+  sendBuckets?: Map<string, TokenBucket>;
+  sendReservations?: Map<string, number[]>;
+};
+
+/**
+ * Email refused by the send policy
+ * Thrown by the pipeline when the request only asked for email delivery.
+ */
+export class SendBlockedError extends Error {
+  constructor(readonly violation: SendPolicyViolation) {
+    super(violation.message);
+    this.name = 'SendBlockedError';
+  }
+
+  /** HTTP status for the blocked send (429 for limits, 422 for suppressed recipients) */
+  get status(): number {
+    return STATUS_BY_CODE[this.violation.code];
+  }
+}
+
+/**
+ * Reads a non-negative integer limit from the environment
+ * @param name - Environment variable name
+ * @param fallback - Default value
+ * @returns Configured limit (0 disables the rule)
+ */
+function readLimit(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Returns the token bucket store
+ * @returns Bucket map keyed by "caller:<id>" or "domain:<domain>"
+ */
+function getBuckets(): Map<string, TokenBucket> {
+  globalForSendPolicy.sendBuckets ??= new Map();
+  return globalForSendPolicy.sendBuckets;
+}
+
+/**
+ * Returns the live send reservations for a recipient, dropping expired ones
+ * @param recipient - Lowercase recipient address
+ * @param now - Current time in milliseconds
+ * @returns Reservation times, oldest first (the stored array, so callers can add to it)
+ */
+function getReservations(recipient: string, now: number): number[] {
+  globalForSendPolicy.sendReservations ??= new Map();
+  const reservations = (globalForSendPolicy.sendReservations.get(recipient) ?? [])
+    .filter((reservedAt) => now - reservedAt < RESERVATION_TTL_MS);
+  globalForSendPolicy.sendReservations.set(recipient, reservations);
+  return reservations;
+}
+
+/**
+ * Releases the place an allowed send held under the daily cap
+ * Call once the send is recorded in guide history, or when it will not happen.
+ * @param recipientEmail - Recipient address the send was checked for
+ */
+export function releaseSendReservation(recipientEmail: string): void {
+  const recipient = recipientEmail.trim().toLowerCase();
+  const reservations = getReservations(recipient, Date.now());
+  reservations.shift();
+
+  if (reservations.length === 0) {
+    globalForSendPolicy.sendReservations!.delete(recipient);
+  }
+}
+
+/**
+ * Refills a bucket for the time elapsed since it was last used
+ * @param key - Bucket key
+ * @param limit - Refill rate and capacity
+ * @param now - Current time in milliseconds
+ * @returns The refilled bucket
+ */
+function refillBucket(key: string, limit: BucketLimit, now: number): TokenBucket {
+  const buckets = getBuckets();
+  const bucket = buckets.get(key) ?? { tokens: limit.burst, updatedAt: now };
+  bucket.tokens = Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) / HOUR_MS) * limit.perHour);
+  bucket.updatedAt = now;
+  buckets.set(key, bucket);
+  return bucket;
+}
+
+/**
+ * Computes how long until a bucket holds a whole token
+ * @param bucket - Refilled bucket
+ * @param limit - Refill rate
+ * @returns Seconds to wait
+ */
+function secondsUntilToken(bucket: TokenBucket, limit: BucketLimit): number {
+  return Math.ceil(((1 - bucket.tokens) / limit.perHour) * 3600);
+}
+
+/**
+ * Checks whether a guide email may be sent, consuming rate-limit tokens if so
+ * An allowed send also reserves a place under the recipient's daily cap, so
+ * concurrent sends cannot all pass; release it with releaseSendReservation.
+ * @param params - Caller ID (API key) and recipient address
+ * @param now - Current time, for tests
+ * @returns The violated rule, or null when the email may be sent
+ */
+export async function checkSendPolicy(
+  params: { callerId: string; recipientEmail: string },
+  now: Date = new Date()
+): Promise<SendPolicyViolation | null> {
+  const recipient = params.recipientEmail.trim().toLowerCase();
+  const recipientDomain = recipient.slice(recipient.lastIndexOf('@') + 1);
+  const violation = await findViolation(params.callerId, recipient, recipientDomain, now);
+
+  if (violation) {
+    console.warn(`[${timestamp()}] Send to ${recipient} blocked (${violation.code}): ${violation.message}`);
+  }
+
+  return violation;
+}
+
+/**
+ * Applies the policy rules in order
+ * @param callerId - Caller ID
+ * @param recipient - Lowercase recipient address
+ * @param recipientDomain - Recipient domain
+ * @param now - Current time
+ * @returns The first violated rule, or null
+ */
+async function findViolation(
+  callerId: string,
+  recipient: string,
+  recipientDomain: string,
+  now: Date
+): Promise<SendPolicyViolation | null> {
+  const suppression = await getSuppression(recipient);
+  if (suppression) {
+    return {
+      code: 'recipient_suppressed',
+      message: `${recipient} is on the suppression list (${suppression.reason} on ${suppression.createdAt.slice(0, 10)})`,
+    };
+  }
+
+  const dailyCap = readLimit('SEND_DAILY_RECIPIENT_CAP', 3);
+  const sendTimes = dailyCap > 0 ? await listSendTimes(recipient, new Date(now.getTime() - DAY_MS)) : [];
+
+  // Nothing below awaits, so the count and the reservation cannot interleave with another check
+  const reservations = getReservations(recipient, now.getTime());
+
+  const sendCount = sendTimes.length + reservations.length;
+
+  if (dailyCap > 0 && sendCount >= dailyCap) {
+    // Sends in progress will be recorded with later times, so only a recorded send can age out first
+    const oldest = sendTimes[sendCount - dailyCap];
+    return {
+      code: 'daily_cap_reached',
+      message: `${recipient} has already been sent ${sendCount} guides in the last 24 hours (limit ${dailyCap})`,
+      retryAfterSeconds: oldest
+        ? Math.max(1, Math.ceil((oldest.getTime() + DAY_MS - now.getTime()) / 1000))
+        : Math.ceil(RESERVATION_TTL_MS / 1000),
+    };
+  }
+
+  const callerLimit: BucketLimit = {
+    perHour: readLimit('SEND_CALLER_RATE_PER_HOUR', 60),
+    burst: readLimit('SEND_CALLER_BURST', 10),
+  };
+  const domainLimit: BucketLimit = {
+    perHour: readLimit('SEND_DOMAIN_RATE_PER_HOUR', 20),
+    burst: readLimit('SEND_DOMAIN_BURST', 5),
+  };
+
+  const buckets: { code: SendPolicyCode; bucket: TokenBucket; limit: BucketLimit; message: string }[] = [];
+
+  if (callerLimit.perHour > 0 && callerLimit.burst > 0) {
+    buckets.push({
+      code: 'caller_rate_limited',
+      bucket: refillBucket(`caller:${callerId}`, callerLimit, now.getTime()),
+      limit: callerLimit,
+      message: `Send rate limit reached for this API key (${callerLimit.perHour} per hour)`,
+    });
+  }
+  if (domainLimit.perHour > 0 && domainLimit.burst > 0) {
+    buckets.push({
+      code: 'domain_rate_limited',
+      bucket: refillBucket(`domain:${recipientDomain}`, domainLimit, now.getTime()),
+      limit: domainLimit,
+      message: `Send rate limit reached for ${recipientDomain} (${domainLimit.perHour} per hour)`,
+    });
+  }
+
+  // Only take tokens when every bucket has one, so a refused send costs nothing
+  const empty = buckets.find(({ bucket }) => bucket.tokens < 1);
+  if (empty) {
+    return { code: empty.code, message: empty.message, retryAfterSeconds: secondsUntilToken(empty.bucket, empty.limit) };
+  }
+
+  for (const { bucket } of buckets) {
+    bucket.tokens -= 1;
+  }
+
+  reservations.push(now.getTime());
+  return null;
+}
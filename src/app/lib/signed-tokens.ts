@@ -0,0 +1,57 @@
+/**
+ * Signed tokens for public links
+ *
+ * A token is a JSON payload, base64url-encoded and signed with HMAC-SHA256:
+ * "<payload>.<signature>". Each kind of link has its own key (see
+ * loadSecret in storage.ts), so a token minted for one link cannot be
+ * replayed against another.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Signs a token payload
+ * @param payload - Base64url-encoded payload
+ * @param secret - Signing key
+ * @returns Base64url HMAC-SHA256 signature
+ */
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Creates a signed token
+ * @param data - Payload to carry; keep it small, it ends up in a URL
+ * @param secret - Signing key
+ * @returns Token of the form "<payload>.<signature>"
+ */
+export function createSignedToken(data: Record<string, unknown>, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(data)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Verifies a signed token and decodes its payload
+ * @param token - Token from a link
+ * @param secret - Signing key the token was created with
+ * @returns Decoded payload, or null if the token is malformed or forged
+ */
+export function verifySignedToken(token: string, secret: string): Record<string, unknown> | null {
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const data: unknown = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    return data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
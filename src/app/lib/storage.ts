@@ -0,0 +1,215 @@
+/**
+ * Local data directory helpers
+ *
+ * Generated files and persisted state live under DATA_DIR, which defaults to
+ * .data in the project root (or the writable temp directory on Vercel).
+ *
+ * Scheduled sends, jobs, API keys and guide history are only as durable as
+ * this directory, and every server instance must see the same one. A temp
+ * directory is neither (on Vercel each function instance has its own), so
+ * production refuses one unless ALLOW_EPHEMERAL_DATA_DIR is "true".
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isVercel, timestamp } from './utils';
+
+// Secrets generated into the data directory, by file name
+const generatedSecrets = new Map<string, string>();
+
+// Serializes read-modify-write cycles on each JSON file within this process, by path
+const jsonFileQueues = new Map<string, Promise<unknown>>();
+
+// Lock files older than this were left by a process that stopped mid-write
+const STALE_LOCK_MS = 30 * 1000;
+
+// How often, and how long, to wait for another process's lock
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Checks whether a directory lies inside the system temp directory
+ * @param dir - Directory path
+ * @returns boolean indicating if the directory is temporary
+ */
+function isTempDir(dir: string): boolean {
+  const relative = path.relative(os.tmpdir(), path.resolve(dir));
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolves the root data directory
+ * @returns Absolute path to the data directory
+ * @throws Error in production when the directory is temporary storage
+ */
+export function getDataDir(): string {
+  const dir = process.env.DATA_DIR || path.join(isVercel() ? os.tmpdir() : process.cwd(), '.data');
+
+  if (process.env.NODE_ENV === 'production' && process.env.ALLOW_EPHEMERAL_DATA_DIR !== 'true' && isTempDir(dir)) {
+    throw new Error(
+      `DATA_DIR (${dir}) is temporary storage local to this instance, so scheduled sends, jobs and guide history ` +
+      'would be lost. Point DATA_DIR at persistent storage shared by every instance, or set ALLOW_EPHEMERAL_DATA_DIR=true'
+    );
+  }
+
+  return dir;
+}
+
+/**
+ * Resolves a path inside the data directory, creating its parent directories
+ * @param segments - Path segments relative to the data directory
+ * @returns Absolute path
+ */
+export function dataPath(...segments: string[]): string {
+  const fullPath = path.join(getDataDir(), ...segments);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  return fullPath;
+}
+
+/**
+ * Checks whether an error is a missing-file error
+ * @param error - Caught error
+ * @returns boolean indicating if the file does not exist
+ */
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Reads a JSON list file
+ * Only a missing file reads as empty: a file that cannot be read or parsed
+ * throws, so a later write can never replace stored entries with nothing.
+ * @param file - Absolute file path
+ * @returns Stored entries
+ * @throws Error if the file exists but cannot be read or parsed
+ */
+export async function readJsonFile<T>(file: string): Promise<T[]> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, 'utf-8')) as T[];
+  } catch (error) {
+    if (isMissingFile(error)) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads a JSON list file synchronously, for lookups made during request validation
+ * @param file - Absolute file path
+ * @returns Stored entries
+ * @throws Error if the file exists but cannot be read or parsed
+ */
+export function readJsonFileSync<T>(file: string): T[] {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as T[];
+  } catch (error) {
+    if (isMissingFile(error)) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Runs a task while holding a file's lock, shared with every process using DATA_DIR
+ * The lock is "<file>.lock", created exclusively so only one process holds it.
+ * @param file - Absolute path of the file being changed
+ * @param task - Work to do under the lock
+ * @returns The task's result
+ * @throws Error if the lock is not acquired within LOCK_TIMEOUT_MS
+ */
+async function withFileLock<R>(file: string, task: () => Promise<R>): Promise<R> {
+  const lockFile = `${file}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await fs.promises.writeFile(lockFile, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const lock = await fs.promises.stat(lockFile).catch(() => null);
+    if (lock && Date.now() - lock.mtimeMs > STALE_LOCK_MS) {
+      console.warn(`[${timestamp()}] Removing stale lock ${lockFile}`);
+      await fs.promises.rm(lockFile, { force: true });
+    } else if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the lock on ${file}`);
+    } else {
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await task();
+  } finally {
+    await fs.promises.rm(lockFile, { force: true });
+  }
+}
+
+/**
+ * Applies a change to a JSON list file, one change per file at a time
+ * Changes are serialized within this process by a queue and across
+ * processes by a lock file, so instances sharing DATA_DIR never overwrite
+ * each other's changes. The file is replaced atomically, so readers never
+ * see a partial write.
+ * @param file - Absolute file path
+ * @param change - Mutates the entries and returns a result
+ * @returns The change's result
+ * @throws Error if the file cannot be read or written; it is then left as it was
+ */
+export function updateJsonFile<T, R>(file: string, change: (entries: T[]) => R): Promise<R> {
+  const run = (jsonFileQueues.get(file) ?? Promise.resolve()).then(() => withFileLock(file, async () => {
+    const entries = await readJsonFile<T>(file);
+    const result = change(entries);
+    await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(entries, null, 2));
+    await fs.promises.rename(`${file}.tmp`, file);
+    return result;
+  }));
+  jsonFileQueues.set(file, run.catch(() => undefined));
+  return run;
+}
+
+/**
+ * Returns a signing key from the environment, or one kept in the data directory
+ * Outside production, when the variable is unset, a random key is generated
+ * once and stored in DATA_DIR so signed links stay valid across restarts.
+ * Production requires the variable: a generated key would differ between
+ * instances and vanish with the instance's storage, breaking links in emails
+ * already sent.
+ * @param envVar - Environment variable holding the key
+ * @param fileName - File in the data directory for the generated key
+ * @returns Secret string
+ * @throws Error in production when the variable is unset
+ */
+export function loadSecret(envVar: string, fileName: string): string {
+  const configured = process.env[envVar];
+  if (configured) {
+    return configured;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`${envVar} must be set in production`);
+  }
+
+  let secret = generatedSecrets.get(fileName);
+  if (!secret) {
+    const file = dataPath(fileName);
+    try {
+      secret = fs.readFileSync(file, 'utf-8').trim();
+    } catch {
+      secret = crypto.randomBytes(32).toString('hex');
+      fs.writeFileSync(file, secret, { mode: 0o600 });
+      console.warn(`[${timestamp()}] ${envVar} not set; generated one in ${file}`);
+    }
+    generatedSecrets.set(fileName, secret);
+  }
+
+  return secret;
+}
@@ -0,0 +1,102 @@
+/**
+ * Email suppression list
+ *
+ * Addresses that bounced, complained or opted out are kept in
+ * DATA_DIR/suppressions.json and never emailed again until an admin removes
+ * them. Addresses are stored and matched in lowercase.
+ */
+
+import type { SuppressionEntry, SuppressionReason } from '../types';
+import { timestamp } from './utils';
+import { dataPath, readJsonFile, updateJsonFile } from './storage';
+
+/**
+ * Resolves the suppression file path
+ * @returns Absolute path of suppressions.json
+ */
+function getSuppressionFile(): string {
+  return dataPath('suppressions.json');
+}
+
+/**
+ * Reads every suppression entry
+ * @returns Stored entries
+ */
+function readSuppressions(): Promise<SuppressionEntry[]> {
+  return readJsonFile<SuppressionEntry>(getSuppressionFile());
+}
+
+/**
+ * Applies a change to the suppression list atomically
+ * @param change - Mutates the entries and returns a result
+ * @returns The change's result
+ */
+function updateSuppressions<T>(change: (entries: SuppressionEntry[]) => T): Promise<T> {
+  return updateJsonFile(getSuppressionFile(), change);
+}
+
+/**
+ * Looks up an address on the suppression list
+ * @param email - Email address
+ * @returns Suppression entry, or null if the address may be emailed
+ */
+export async function getSuppression(email: string): Promise<SuppressionEntry | null> {
+  const address = email.trim().toLowerCase();
+  return (await readSuppressions()).find((entry) => entry.email === address) ?? null;
+}
+
+/**
+ * Adds an address to the suppression list
+ * An address already listed keeps its original entry.
+ * @param email - Email address
+ * @param reason - Why the address is suppressed
+ * @param details - Guide that caused it and a bounce reason or note
+ * @returns The address's suppression entry
+ */
+export async function addSuppression(
+  email: string,
+  reason: SuppressionReason,
+  details: { guideId?: string; detail?: string } = {}
+): Promise<SuppressionEntry> {
+  const address = email.trim().toLowerCase();
+
+  return updateSuppressions((entries) => {
+    const existing = entries.find((entry) => entry.email === address);
+    if (existing) {
+      return existing;
+    }
+
+    const entry: SuppressionEntry = { email: address, reason, createdAt: new Date().toISOString(), ...details };
+    entries.push(entry);
+    console.log(`[${timestamp()}] Suppressed ${address} (${reason})`);
+    return entry;
+  });
+}
+
+/**
+ * Removes an address from the suppression list
+ * @param email - Email address
+ * @returns Removed entry, or null if the address was not listed
+ */
+export async function removeSuppression(email: string): Promise<SuppressionEntry | null> {
+  const address = email.trim().toLowerCase();
+
+  const removed = await updateSuppressions((entries) => {
+    const index = entries.findIndex((entry) => entry.email === address);
+    return index === -1 ? null : entries.splice(index, 1)[0];
+  });
+
+  if (removed) {
+    console.log(`[${timestamp()}] Removed ${address} from the suppression list`);
+  }
+
+  return removed;
+}
+
+/**
+ * Lists suppressed addresses, newest first
+ * @returns Suppression entries
+ */
+export async function listSuppressions(): Promise<SuppressionEntry[]> {
+  return (await readSuppressions()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -1,367 +1,339 @@
 /**
  * HTML Template Generator for Gift Guide PDF
- * Generates a professional, print-optimized multi-page HTML document
+ * Renders the print-optimized guide through the selected theme (see
+ * ./themes), builds the delivery email from its template, and renders the
+ * public unsubscribe and quote-request pages
  */
 
-import type { TemplateData, Product } from '../types';
-
-// Default products for the gift guide
-const DEFAULT_PRODUCTS: Product[] = [
-  {
-    name: 'Custom T-Shirt',
-    price: 'Starting at $18.99',
-    imageUrl: 'https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=400&h=300&fit=crop',
-  },
-  {
-    name: 'Branded Mug',
-    price: 'Starting at $12.99',
-    imageUrl: 'https://images.unsplash.com/photo-1514228742587-6b1558fcca3d?w=400&h=300&fit=crop',
-  },
-  {
-    name: 'Custom Tote Bag',
-    price: 'Starting at $15.99',
-    imageUrl: 'https://images.unsplash.com/photo-1590874103328-eac38a683ce7?w=400&h=300&fit=crop',
-  },
-  {
-    name: 'Sticker Pack',
-    price: 'Starting at $8.99',
-    imageUrl: 'https://images.unsplash.com/photo-1611532736597-de2d4265fba3?w=400&h=300&fit=crop',
-  },
-];
+import type {
+  AccountExecutive,
+  EmailContent,
+  EmailCover,
+  EmailTemplate,
+  FieldError,
+  GuideRecord,
+  MergeValues,
+  Product,
+  QuoteRequest,
+  QuoteRequestSubmission,
+  TemplateData
+} from '../types';
+import { DEFAULT_THEME_ID, getTheme } from './themes';
+import {
+  escapeHtml,
+  formatHtmlMessage,
+  formatProductPrice,
+  generateColorVariables,
+  generateDocumentAttributes,
+  generateScriptFont
+} from './themes/shared';
+import { applyMergeFields } from './email-templates';
+import { DEFAULT_LOCALE, formatCurrency, formatMessage, formatNumber, getMessages, type Messages } from './i18n';
+import { MAX_QUOTE_QUANTITY } from './pricing';
+import { DEFAULT_COLORS } from './utils';
+
+/**
+ * Contents of a guide's quote-request form
+ */
+export interface QuoteRequestPageOptions {
+  guide: GuideRecord;
+  /** Products the recipient can pick from */
+  products: Product[];
+  /** Signed link token the form posts back with */
+  token: string;
+  /** Values from a rejected submission, shown again as entered */
+  values?: Partial<Omit<QuoteRequestSubmission, 'quantities'>> & { quantities?: Record<string, string> };
+  fieldErrors?: Partial<Record<keyof QuoteRequestSubmission, FieldError>>;
+  /** Problem with the submission as a whole, such as the request limit */
+  error?: string;
+}
 
 /**
  * Generates the complete HTML template for the gift guide PDF
  * @param data - Template data including company info, logo, colors, and AE info
+ * @param themeId - Registered theme to render with (defaults to "classic")
  * @returns Complete HTML string ready for Puppeteer rendering
  */
-export function generateGiftGuideTemplate(data: TemplateData): string {
-  const { companyName, logoUrl, colors, accountExecutive } = data;
-  const { primary, secondary, background } = colors;
+export function generateGiftGuideTemplate(data: TemplateData, themeId: string = DEFAULT_THEME_ID): string {
+  const theme = getTheme(themeId);
 
-  return `<!DOCTYPE html>
-<html lang="en">
+  if (!theme) {
+    throw new Error(`Unknown theme: ${themeId}`);
+  }
+
+  return theme.render(data);
+}
+
+/**
+ * Splits template text into paragraphs
+ * @param text - Plain text with blank lines between paragraphs
+ * @returns Trimmed, non-empty paragraphs
+ */
+function toParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+}
+
+/**
+ * Renders a plain-text paragraph as HTML, keeping its line breaks
+ * @param paragraph - Plain-text paragraph
+ * @param className - Optional CSS class
+ * @returns HTML paragraph
+ */
+function toHtmlParagraph(paragraph: string, className?: string): string {
+  return `<p${className ? ` class="${className}"` : ''}>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`;
+}
+
+/**
+ * Generates the gift guide delivery email from a template
+ * The plain-text part carries the same copy, note, signature and opt-out link,
+ * and the hosted guide link in place of the cover thumbnail.
+ * @param template - Email template copy
+ * @param values - Merge field values for this guide
+ * @param accountExecutive - Account Executive for the signature
+ * @param personalNote - Optional note from the AE, shown above the signature
+ * @param unsubscribeUrl - Signed opt-out link shown in the footer
+ * @param cover - Inline cover thumbnail and the guide it links to, when one was captured
+ * @param locale - Language of the links, footer and default AE title (defaults to English)
+ * @returns Subject, HTML body and plain-text body
+ */
+export function generateEmail(
+  template: EmailTemplate,
+  values: MergeValues,
+  accountExecutive: AccountExecutive,
+  personalNote: string | undefined,
+  unsubscribeUrl: string,
+  cover?: EmailCover,
+  locale?: string
+): EmailContent {
+  const { name, title, signature, bookingUrl } = accountExecutive;
+  const messages = getMessages(locale);
+  const paragraphs = toParagraphs(applyMergeFields(template.body, values));
+  const jobTitle = title || messages.defaultAeTitle;
+
+  const html = `<!DOCTYPE html>
+<html ${generateDocumentAttributes(locale)}>
 <head>
   <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Custom Gift Guide - ${escapeHtml(companyName)}</title>
-  <link rel="preconnect" href="https://fonts.googleapis.com">
-  <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
-  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;600;700&display=swap" rel="stylesheet">
   <style>
-    /* CSS Custom Properties for Brand Colors */
-    :root {
-      --primary-color: ${primary};
-      --secondary-color: ${secondary};
-      --background-color: ${background};
-      --text-dark: #1a1a1a;
-      --text-gray: #666666;
-      --text-light: #999999;
-    }
-
-    /* Reset and Base Styles */
-    * {
-      margin: 0;
-      padding: 0;
-      box-sizing: border-box;
-    }
-
     body {
-      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      font-size: 14px;
-      line-height: 1.5;
-      color: var(--text-dark);
-      background-color: white;
-      margin: 0;
-      padding: 0;
-      -webkit-print-color-adjust: exact;
-      print-color-adjust: exact;
-    }
-
-    /* Page Structure for Print */
-    .page {
-      width: 8.5in;
-      height: 11in;
-      padding: 0.75in;
-      background-color: white;
-      page-break-after: always;
-      position: relative;
-      overflow: hidden;
-    }
-
-    .page:last-child {
-      page-break-after: auto;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      font-size: 16px;
+      line-height: 1.6;
+      color: #333333;
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
     }
-
-    /* Header Styles */
-    .header {
-      display: flex;
-      justify-content: space-between;
-      align-items: flex-start;
-      padding-bottom: 20px;
-      margin-bottom: 40px;
-      border-bottom: 3px solid var(--primary-color);
+    .message {
+      margin-bottom: 20px;
     }
-
-    .header-logo {
-      max-width: 180px;
-      max-height: 70px;
-      object-fit: contain;
+    .cover {
+      margin: 24px 0;
+      text-align: center;
     }
-
-    .header-ae-info {
-      text-align: right;
+    .cover img {
+      width: 280px;
+      max-width: 100%;
+      height: auto;
+      border: 1px solid #eeeeee;
     }
-
-    .ae-name {
+    .cover-caption {
       font-size: 14px;
-      font-weight: 700;
-      color: var(--primary-color);
-      margin-bottom: 4px;
+      color: #666666;
     }
-
-    .ae-contact {
-      font-size: 12px;
-      color: var(--text-gray);
-      line-height: 1.6;
+    .personal-note {
+      margin: 20px 0;
+      padding: 12px 16px;
+      border-left: 3px solid #0066CC;
+      background-color: #f5f9ff;
+      font-style: italic;
     }
-
-    /* Cover Page Styles */
-    .cover-content {
-      display: flex;
-      flex-direction: column;
-      justify-content: center;
-      align-items: center;
-      height: calc(100% - 150px);
-      text-align: center;
-      margin-top: 100px;
+    [dir="rtl"] .personal-note {
+      border-left: none;
+      border-right: 3px solid #0066CC;
     }
-
-    .cover-title {
-      font-size: 48px;
-      font-weight: 700;
-      color: var(--primary-color);
-      margin-bottom: 16px;
-      letter-spacing: -1px;
+    .signature {
+      margin-top: 30px;
+      padding-top: 20px;
+      border-top: 1px solid #eeeeee;
     }
-
-    .cover-subtitle {
-      font-size: 32px;
-      font-weight: 400;
-      color: var(--text-gray);
+    .signature-name {
+      font-weight: 600;
+      color: #0066CC;
     }
-
-    /* Products Page Styles */
-    .section-heading {
-      font-size: 28px;
-      font-weight: 700;
-      color: var(--primary-color);
-      margin-bottom: 30px;
+    .signature-title {
+      color: #666666;
+      font-size: 14px;
     }
-
-    .products-grid {
-      display: grid;
-      grid-template-columns: repeat(2, 1fr);
-      gap: 30px;
+    .footer {
+      margin-top: 30px;
+      color: #999999;
+      font-size: 12px;
     }
-
-    .product-card {
-      border: 2px solid var(--primary-color);
-      border-radius: 12px;
-      padding: 20px;
-      background-color: white;
+    .footer a {
+      color: #999999;
     }
+  </style>
+</head>
+<body>
+  <div class="message">
+    ${paragraphs.map((paragraph) => toHtmlParagraph(paragraph)).join('\n    ')}
+  </div>
 
-    .product-image-container {
-      height: 220px;
-      background-color: rgba(153, 153, 153, 0.1);
-      border-radius: 8px;
-      display: flex;
-      justify-content: center;
-      align-items: center;
-      margin-bottom: 15px;
-      position: relative;
-      overflow: hidden;
-    }
+  ${cover ? `<div class="cover">
+    <a href="${escapeHtml(cover.linkUrl)}"><img src="cid:${escapeHtml(cover.contentId)}" width="280" alt="${escapeHtml(formatMessage(messages.coverAlt, { companyName: values.companyName }))}"></a>
+    <p class="cover-caption">${formatHtmlMessage(messages.viewGuide, { link: `<a href="${escapeHtml(cover.linkUrl)}">${escapeHtml(messages.viewGuideLink)}</a>` })}</p>
+  </div>` : ''}
 
-    .product-image {
-      max-width: 80%;
-      max-height: 80%;
-      object-fit: contain;
-    }
+  ${personalNote ? toHtmlParagraph(personalNote, 'personal-note') : ''}
 
-    .logo-overlay {
-      position: absolute;
-      bottom: 10px;
-      right: 10px;
-      max-width: 50px;
-      max-height: 50px;
-      background-color: white;
-      padding: 5px;
-      border-radius: 4px;
-      box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
-    }
+  <div class="signature">
+    ${signature ? toHtmlParagraph(signature) : ''}
+    <p class="signature-name">${escapeHtml(name)}</p>
+    <p class="signature-title">${escapeHtml(jobTitle)}<br>UpMerch</p>
+    ${bookingUrl ? `<p><a href="${escapeHtml(bookingUrl)}">${escapeHtml(messages.bookMeeting)}</a></p>` : ''}
+  </div>
 
-    .logo-overlay img {
-      max-width: 100%;
-      max-height: 100%;
-      object-fit: contain;
-      display: block;
-    }
+  <div class="footer">
+    <p>${formatHtmlMessage(messages.unsubscribe, { link: `<a href="${escapeHtml(unsubscribeUrl)}">${escapeHtml(messages.unsubscribeLink)}</a>` })}</p>
+  </div>
+</body>
+</html>`;
 
-    .product-name {
-      font-size: 18px;
-      font-weight: 700;
-      color: var(--primary-color);
-      margin-bottom: 8px;
-    }
+  const text = [
+    ...paragraphs,
+    ...(cover ? [formatMessage(messages.viewGuideText, { url: cover.linkUrl })] : []),
+    ...(personalNote ? [personalNote] : []),
+    // "-- " is the conventional plain-text signature delimiter
+    ['-- ', signature, name, jobTitle, 'UpMerch'].filter(Boolean).join('\n'),
+    ...(bookingUrl ? [`${messages.bookMeeting}: ${bookingUrl}`] : []),
+    formatMessage(messages.unsubscribeText, { url: unsubscribeUrl }),
+  ].join('\n\n');
+
+  return {
+    subject: applyMergeFields(template.subject, values),
+    html,
+    text,
+  };
+}
 
-    .product-price {
-      font-size: 14px;
-      color: var(--text-gray);
+/**
+ * Wraps an unsubscribe page's content in the page layout
+ * @param heading - Page heading and title
+ * @param content - HTML below the heading
+ * @returns HTML string for the page
+ */
+function generateUnsubscribeShell(heading: string, content: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${heading}</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      font-size: 16px;
+      line-height: 1.6;
+      color: #333333;
+      background-color: #f3f4f6;
+      margin: 0;
+      padding: 48px 16px;
     }
-
-    /* Footer Attribution */
-    .footer-attribution {
-      position: absolute;
-      bottom: 0.5in;
-      left: 0.75in;
-      right: 0.75in;
+    .card {
+      max-width: 480px;
+      margin: 0 auto;
+      background-color: #ffffff;
+      border-radius: 16px;
+      box-shadow: 0 10px 40px rgba(0, 0, 0, 0.1);
+      padding: 32px;
       text-align: center;
-      font-size: 10px;
-      color: var(--text-light);
     }
-
-    /* Print-specific styles */
-    @media print {
-      body {
-        margin: 0;
-        padding: 0;
-      }
-
-      .page {
-        margin: 0;
-        box-shadow: none;
-      }
+    h1 {
+      font-size: 22px;
+      color: #111827;
+      margin-top: 0;
     }
-
-    /* Responsive fallback for preview */
-    @media screen and (max-width: 8.5in) {
-      .products-grid {
-        grid-template-columns: 1fr;
-      }
+    button {
+      font: inherit;
+      font-weight: 600;
+      color: #ffffff;
+      background-color: #111827;
+      border: none;
+      border-radius: 8px;
+      padding: 12px 24px;
+      cursor: pointer;
     }
   </style>
 </head>
 <body>
-  <!-- PAGE 1: Cover Page -->
-  <div class="page">
-    <header class="header">
-      <img
-        src="${escapeHtml(logoUrl)}"
-        alt="${escapeHtml(companyName)} Logo"
-        class="header-logo"
-        crossorigin="anonymous"
-      />
-      <div class="header-ae-info">
-        <div class="ae-name">${escapeHtml(accountExecutive.name)}</div>
-        <div class="ae-contact">
-          ${escapeHtml(accountExecutive.email)}<br>
-          ${escapeHtml(accountExecutive.phone)}
-        </div>
-      </div>
-    </header>
-
-    <div class="cover-content">
-      <h1 class="cover-title">Custom Gift Guide</h1>
-      <p class="cover-subtitle">for ${escapeHtml(companyName)}</p>
-    </div>
-  </div>
-
-  <!-- PAGE 2: Products Page -->
-  <div class="page">
-    <header class="header">
-      <img
-        src="${escapeHtml(logoUrl)}"
-        alt="${escapeHtml(companyName)} Logo"
-        class="header-logo"
-        crossorigin="anonymous"
-      />
-      <div class="header-ae-info">
-        <div class="ae-name">${escapeHtml(accountExecutive.name)}</div>
-        <div class="ae-contact">
-          ${escapeHtml(accountExecutive.email)}<br>
-          ${escapeHtml(accountExecutive.phone)}
-        </div>
-      </div>
-    </header>
-
-    <h2 class="section-heading">Featured Products</h2>
-
-    <div class="products-grid">
-      ${DEFAULT_PRODUCTS.map(product => generateProductCard(product, logoUrl)).join('\n      ')}
-    </div>
-
-    <footer class="footer-attribution">
-      Logos provided by apistemic logos API
-    </footer>
+  <div class="card">
+    <h1>${heading}</h1>
+    ${content}
   </div>
 </body>
 </html>`;
 }
 
 /**
- * Generates HTML for a single product card
- * @param product - Product data
- * @param logoUrl - Company logo URL for overlay
- * @returns HTML string for the product card
+ * Generates the page an unsubscribe link opens, asking the recipient to confirm
+ * Following the link changes nothing, so link scanners and prefetchers cannot
+ * unsubscribe anyone; the button POSTs the form to actionUrl.
+ * @param email - Address the link would unsubscribe
+ * @param actionUrl - Unsubscribe URL the form posts to
+ * @param confirmField - Form field marking the POST as coming from this page
+ * @returns HTML string for the confirmation page
  */
-function generateProductCard(product: Product, logoUrl: string): string {
-  return `<div class="product-card">
-        <div class="product-image-container">
-          <img
-            src="${escapeHtml(product.imageUrl)}"
-            alt="${escapeHtml(product.name)}"
-            class="product-image"
-            crossorigin="anonymous"
-          />
-          <div class="logo-overlay">
-            <img
-              src="${escapeHtml(logoUrl)}"
-              alt="Company Logo"
-              crossorigin="anonymous"
-            />
-          </div>
-        </div>
-        <div class="product-name">${escapeHtml(product.name)}</div>
-        <div class="product-price">${escapeHtml(product.price)}</div>
-      </div>`;
+export function generateUnsubscribeConfirmPage(email: string, actionUrl: string, confirmField: string): string {
+  return generateUnsubscribeShell('Unsubscribe from gift guides?', `<p>Stop sending gift guides from UpMerch to <strong>${escapeHtml(email)}</strong>?</p>
+    <form method="post" action="${escapeHtml(actionUrl)}">
+      <input type="hidden" name="${escapeHtml(confirmField)}" value="1">
+      <button type="submit">Unsubscribe</button>
+    </form>`);
 }
 
 /**
- * Escapes HTML special characters to prevent XSS
- * @param str - String to escape
- * @returns Escaped string safe for HTML insertion
+ * Generates the page shown after unsubscribing
+ * @param email - Address that was unsubscribed, or null when the link was invalid
+ * @returns HTML string for the confirmation page
  */
-function escapeHtml(str: string): string {
-  const htmlEntities: Record<string, string> = {
-    '&': '&amp;',
-    '<': '&lt;',
-    '>': '&gt;',
-    '"': '&quot;',
-    "'": '&#39;',
-  };
-  return str.replace(/[&<>"']/g, (char) => htmlEntities[char] || char);
+export function generateUnsubscribePage(email: string | null): string {
+  const heading = email ? 'You have been unsubscribed' : 'This link is not valid';
+  const message = email
+    ? `<p><strong>${escapeHtml(email)}</strong> will no longer receive gift guides from UpMerch.</p>
+    <p>If this was a mistake, reply to any of our emails or contact your account executive.</p>`
+    : `<p>This unsubscribe link is incomplete or has been altered. Please use the link from the email exactly as it was sent.</p>`;
+
+  return generateUnsubscribeShell(heading, message);
 }
 
 /**
- * Generates HTML email body for the gift guide delivery
- * @param companyName - Company name for personalization
- * @param aeName - Account Executive name for signature
- * @returns HTML string for email body
+ * Generates the quote-request email forwarded to the guide's AE
+ * Written in English for the sales team, whatever the guide's language.
+ * @param guide - Guide the request came from
+ * @param request - Stored quote request
+ * @param guideUrl - Hosted copy of the guide
+ * @returns Subject, HTML body and plain-text body
  */
-export function generateEmailBody(companyName: string, aeName: string): string {
-  return `<!DOCTYPE html>
-<html>
+export function generateQuoteRequestEmail(guide: GuideRecord, request: QuoteRequest, guideUrl: string): EmailContent {
+  const { companyName, recipientEmail } = guide.request;
+  const { quote } = request;
+  const sender = request.name ? `${request.name} <${request.email}>` : request.email;
+  const money = (amount: number): string => formatCurrency(amount, quote!.currency);
+  const intro = `${sender} requested a quote from the ${companyName} gift guide sent to ${recipientEmail}.`;
+
+  const rows = request.items.map((item) => {
+    const line = quote?.lineItems.find((lineItem) => lineItem.sku === item.sku);
+    return [
+      `${item.name} (${item.sku})`,
+      formatNumber(item.quantity),
+      ...(quote ? [line ? money(line.unitPrice) : '', line ? money(line.subtotal) : ''] : []),
+    ];
+  });
+  const headings = ['Product', 'Quantity', ...(quote ? ['Unit price', 'Subtotal'] : [])];
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
 <head>
   <meta charset="UTF-8">
   <style>
@@ -374,43 +346,286 @@ export function generateEmailBody(companyName: string, aeName: string): string {
       margin: 0 auto;
       padding: 20px;
     }
-    .greeting {
-      margin-bottom: 20px;
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 14px;
     }
-    .message {
-      margin-bottom: 20px;
+    th, td {
+      padding: 8px;
+      border-bottom: 1px solid #eeeeee;
+      text-align: left;
     }
-    .signature {
-      margin-top: 30px;
-      padding-top: 20px;
-      border-top: 1px solid #eeeeee;
+    th {
+      color: #666666;
+      font-weight: 600;
     }
-    .signature-name {
+    .amount {
+      text-align: right;
+      white-space: nowrap;
+    }
+    .total td {
       font-weight: 600;
-      color: #0066CC;
+      border-bottom: none;
     }
-    .signature-title {
-      color: #666666;
-      font-size: 14px;
+    .request-message {
+      margin: 20px 0;
+      padding: 12px 16px;
+      border-left: 3px solid #0066CC;
+      background-color: #f5f9ff;
+    }
+    .footer {
+      margin-top: 30px;
+      color: #999999;
+      font-size: 12px;
     }
   </style>
 </head>
 <body>
-  <div class="greeting">
-    <p>Hello,</p>
-  </div>
+  <p>${escapeHtml(intro)}</p>
 
-  <div class="message">
-    <p>Thank you for your interest in custom branded merchandise for <strong>${escapeHtml(companyName)}</strong>.</p>
-    <p>Please find attached your personalized Custom Gift Guide, featuring a curated selection of premium products that can be customized with your brand.</p>
-    <p>Each item in this guide has been selected to help you create memorable branded experiences for your team, clients, and partners.</p>
-    <p>If you have any questions or would like to discuss your custom merchandise needs, please don't hesitate to reach out.</p>
+  <table>
+    <thead>
+      <tr>${headings.map((heading, index) => `<th${index > 0 ? ' class="amount"' : ''}>${heading}</th>`).join('')}</tr>
+    </thead>
+    <tbody>
+      ${rows.map((cells) => `<tr>${cells.map((cell, index) => `<td${index > 0 ? ' class="amount"' : ''}>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n      ')}
+      ${quote ? `<tr class="total"><td colspan="3">Estimated total (incl. ${escapeHtml(money(quote.setupFeeTotal))} setup)</td><td class="amount">${escapeHtml(money(quote.total))}</td></tr>` : ''}
+    </tbody>
+  </table>
+
+  ${request.message ? toHtmlParagraph(request.message, 'request-message') : ''}
+
+  <p><a href="${escapeHtml(guideUrl)}">View the guide</a></p>
+
+  <div class="footer">
+    <p>Reply to this email to answer ${escapeHtml(request.email)} directly.</p>
   </div>
+</body>
+</html>`;
 
-  <div class="signature">
-    <p class="signature-name">${escapeHtml(aeName)}</p>
-    <p class="signature-title">Account Executive<br>UpMerch</p>
+  const text = [
+    intro,
+    rows.map((cells) => cells.filter(Boolean).join(' - ')).join('\n'),
+    ...(quote ? [`Estimated total (incl. ${money(quote.setupFeeTotal)} setup): ${money(quote.total)}`] : []),
+    ...(request.message ? [request.message] : []),
+    `View the guide: ${guideUrl}`,
+  ].join('\n\n');
+
+  return {
+    subject: `Quote request from ${companyName}`,
+    html,
+    text,
+  };
+}
+
+/**
+ * Wraps quote-request page content in a card styled with the guide's brand colors
+ * @param title - Page title
+ * @param body - Card contents, already safe HTML
+ * @param guide - Guide whose colors and language the page uses; null uses the defaults
+ * @returns Complete HTML page
+ */
+function generateQuoteRequestShell(title: string, body: string, guide: GuideRecord | null): string {
+  const locale = guide?.request.locale ?? DEFAULT_LOCALE;
+
+  return `<!DOCTYPE html>
+<html ${generateDocumentAttributes(locale)}>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    ${generateColorVariables(guide?.colors ?? DEFAULT_COLORS)}
+
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      font-size: 16px;
+      line-height: 1.6;
+      color: #333333;
+      background-color: #f3f4f6;
+      margin: 0;
+      padding: 48px 16px;
+    }
+    .card {
+      max-width: 640px;
+      margin: 0 auto;
+      background-color: #ffffff;
+      border-top: 6px solid var(--primary-color);
+      border-radius: 16px;
+      box-shadow: 0 10px 40px rgba(0, 0, 0, 0.1);
+      padding: 32px;
+    }
+    h1 {
+      font-size: 22px;
+      color: var(--heading-color);
+      margin-top: 0;
+    }
+    .products {
+      width: 100%;
+      border-collapse: collapse;
+      margin: 16px 0 24px;
+    }
+    .products td {
+      padding: 10px 6px;
+      border-bottom: 1px solid #eeeeee;
+      vertical-align: middle;
+    }
+    .products img {
+      width: 56px;
+      height: 56px;
+      object-fit: cover;
+      border-radius: 8px;
+    }
+    .product-name {
+      font-weight: 600;
+    }
+    .product-price {
+      font-size: 13px;
+      color: #6b7280;
+    }
+    .products input {
+      width: 96px;
+    }
+    label {
+      display: block;
+      margin-top: 16px;
+      font-size: 14px;
+      font-weight: 600;
+    }
+    input, textarea {
+      box-sizing: border-box;
+      width: 100%;
+      padding: 8px 10px;
+      border: 1px solid #d1d5db;
+      border-radius: 6px;
+      font: inherit;
+    }
+    .error {
+      margin: 4px 0 0;
+      font-size: 14px;
+      color: #b91c1c;
+    }
+    button {
+      margin-top: 24px;
+      padding: 12px 32px;
+      border: none;
+      border-radius: 6px;
+      background-color: var(--primary-color);
+      color: var(--text-on-primary);
+      font: inherit;
+      font-weight: 700;
+      cursor: pointer;
+    }
+  </style>
+  ${generateScriptFont(locale)}
+</head>
+<body>
+  <div class="card">
+    <h1>${escapeHtml(title)}</h1>
+    ${body}
   </div>
 </body>
 </html>`;
 }
+
+/**
+ * Translates a quote-request field error for the recipient
+ * @param field - Field that failed validation
+ * @param fieldError - Validation error
+ * @param messages - Catalog for the guide's language
+ * @returns Message in the guide's language where one exists
+ */
+function toRequestErrorMessage(field: keyof QuoteRequestSubmission, fieldError: FieldError, messages: Messages): string {
+  if (field === 'email') {
+    return messages.requestInvalidEmail;
+  }
+  if (field === 'quantities') {
+    return fieldError.code === 'required' ? messages.requestNoProducts : messages.requestInvalidQuantity;
+  }
+  return fieldError.message;
+}
+
+/**
+ * Generates a guide's public quote-request form
+ * Quantities start from the ones quoted in the guide, and the email from the guide's recipient.
+ * @param options - Guide, products, link token and any rejected submission
+ * @returns HTML string for the form page
+ */
+export function generateQuoteRequestPage(options: QuoteRequestPageOptions): string {
+  const { guide, products, token, values = {}, fieldErrors = {}, error } = options;
+  const { locale, companyName } = guide.request;
+  const messages = getMessages(locale);
+  const quantities: Record<string, unknown> = values.quantities ?? guide.request.quantities ?? {};
+  const email = values.email ?? guide.request.recipientEmail;
+
+  const errorFor = (field: keyof QuoteRequestSubmission): string => {
+    const fieldError = fieldErrors[field];
+    return fieldError ? `<p class="error">${escapeHtml(toRequestErrorMessage(field, fieldError, messages))}</p>` : '';
+  };
+
+  const rows = products.map((product) => `<tr>
+        <td><img src="${escapeHtml(product.imageUrl)}" alt=""></td>
+        <td>
+          <div class="product-name">${escapeHtml(product.name)}</div>
+          <div class="product-price">${escapeHtml(formatProductPrice(product, locale))}</div>
+        </td>
+        <td>
+          <input type="number" name="qty:${escapeHtml(product.sku)}" min="0" max="${MAX_QUOTE_QUANTITY}" step="1"
+            value="${escapeHtml(String(quantities[product.sku] ?? ''))}" aria-label="${escapeHtml(`${messages.quoteQuantity}: ${product.name}`)}">
+        </td>
+      </tr>`);
+
+  const body = `${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+    <p>${escapeHtml(messages.requestIntro)}</p>
+
+    <form method="post" action="/api/quote-requests?token=${encodeURIComponent(token)}">
+      <table class="products">
+        ${rows.join('\n        ')}
+      </table>
+      ${errorFor('quantities')}
+
+      <label for="name">${escapeHtml(messages.requestName)}</label>
+      <input id="name" name="name" maxlength="200" autocomplete="name" value="${escapeHtml(values.name ?? '')}">
+
+      <label for="email">${escapeHtml(messages.requestEmail)}</label>
+      <input id="email" name="email" type="email" required autocomplete="email" value="${escapeHtml(email)}">
+      ${errorFor('email')}
+
+      <label for="message">${escapeHtml(messages.requestMessage)}</label>
+      <textarea id="message" name="message" rows="4" maxlength="2000">${escapeHtml(values.message ?? '')}</textarea>
+      ${errorFor('message')}
+
+      <button type="submit">${escapeHtml(messages.requestSubmit)}</button>
+    </form>`;
+
+  return generateQuoteRequestShell(`${messages.requestQuote} · ${companyName}`, body, guide);
+}
+
+/**
+ * Generates the page shown once a quote request is sent
+ * @param guide - Guide the request came from
+ * @returns HTML string for the confirmation page
+ */
+export function generateQuoteRequestSentPage(guide: GuideRecord): string {
+  const messages = getMessages(guide.request.locale);
+  const body = `<p>${escapeHtml(formatMessage(messages.requestSentBody, { name: guide.request.aeName }))}</p>`;
+  return generateQuoteRequestShell(messages.requestSentTitle, body, guide);
+}
+
+/**
+ * Generates the page shown for a quote-request link that cannot be used
+ * @param guide - Guide of an expired link, or null when the link is invalid or its guide is gone
+ * @returns HTML string for the error page
+ */
+export function generateQuoteLinkErrorPage(guide: GuideRecord | null): string {
+  if (!guide) {
+    const messages = getMessages(DEFAULT_LOCALE);
+    return generateQuoteRequestShell(messages.linkInvalidTitle, `<p>${escapeHtml(messages.linkInvalidBody)}</p>`, null);
+  }
+
+  const messages = getMessages(guide.request.locale);
+  const body = `<p>${escapeHtml(formatMessage(messages.linkExpiredBody, { name: guide.request.aeName }))}
+    <a href="mailto:${escapeHtml(guide.request.aeEmail)}">${escapeHtml(guide.request.aeEmail)}</a></p>`;
+  return generateQuoteRequestShell(messages.linkExpiredTitle, body, guide);
+}
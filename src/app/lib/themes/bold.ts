@@ -0,0 +1,401 @@
+/**
+ * Bold theme: full-bleed cover in the primary brand color, a colored band
+ * across each products page and solid-filled product cards
+ */
+
+import type { TemplateData, Product, Quote, QuoteRequestLink } from '../../types';
+import type { GuideTheme } from './index';
+import { getMessages, formatMessage } from '../i18n';
+import {
+  chunk,
+  escapeHtml,
+  formatProductPrice,
+  generateColorVariables,
+  generateDocumentAttributes,
+  generateHeadshot,
+  generateQuote,
+  generateQuoteRequestCta,
+  generateQuoteRequestStyles,
+  generateQuoteStyles,
+  generateScriptFont,
+  PRODUCTS_PER_PAGE
+} from './shared';
+
+/**
+ * Generates the complete bold gift guide HTML
+ * @param data - Template data including company info, logo, colors, and AE info
+ * @returns Complete HTML string ready for Puppeteer rendering
+ */
+function renderBold(data: TemplateData): string {
+  const { companyName, logoUrl, colors, accountExecutive, products, locale } = data;
+  const messages = getMessages(locale);
+
+  return `<!DOCTYPE html>
+<html ${generateDocumentAttributes(locale)}>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(messages.guideTitle)} - ${escapeHtml(companyName)}</title>
+  <link rel="preconnect" href="https://fonts.googleapis.com">
+  <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
+  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;700;800&display=swap" rel="stylesheet">
+  <style>
+    ${generateColorVariables(colors)}
+
+    * {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+    }
+
+    body {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 16px;
+      line-height: 1.5;
+      color: var(--text-dark);
+      background-color: var(--background-color);
+      -webkit-print-color-adjust: exact;
+      print-color-adjust: exact;
+    }
+
+    .page {
+      width: 8.5in;
+      height: 11in;
+      background-color: var(--background-color);
+      page-break-after: always;
+      position: relative;
+      overflow: hidden;
+    }
+
+    .page:last-child {
+      page-break-after: auto;
+    }
+
+    /* Cover Page: full-bleed primary color */
+    .cover {
+      height: 100%;
+      padding: 0.75in;
+      display: flex;
+      flex-direction: column;
+      justify-content: space-between;
+      background-color: var(--primary-color);
+      color: var(--text-on-primary);
+    }
+
+    .cover-logo-panel {
+      align-self: flex-start;
+      padding: 16px 20px;
+      background-color: white;
+      border-radius: 8px;
+    }
+
+    .cover-logo {
+      display: block;
+      max-width: 200px;
+      max-height: 72px;
+      object-fit: contain;
+    }
+
+    .cover-title {
+      font-size: 72px;
+      font-weight: 800;
+      line-height: 1;
+      letter-spacing: -2px;
+      text-transform: uppercase;
+    }
+
+    .cover-company {
+      margin-top: 20px;
+      font-size: 28px;
+      font-weight: 700;
+    }
+
+    .cover-ae {
+      font-size: 14px;
+      line-height: 1.6;
+    }
+
+    .cover-ae strong {
+      font-weight: 700;
+    }
+
+    .cover-ae-headshot {
+      display: block;
+      width: 72px;
+      height: 72px;
+      margin-bottom: 12px;
+      border-radius: 50%;
+      object-fit: cover;
+      border: 3px solid var(--text-on-primary);
+    }
+
+    /* Products Pages */
+    .band {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 0.35in 0.75in;
+      background-color: var(--primary-color);
+      color: var(--text-on-primary);
+    }
+
+    .band-title {
+      font-size: 26px;
+      font-weight: 800;
+      text-transform: uppercase;
+      letter-spacing: -0.5px;
+    }
+
+    .band-ae {
+      font-size: 12px;
+      text-align: end;
+    }
+
+    .quote-body {
+      padding: 0.5in 0.75in;
+    }
+
+    .products-grid {
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 24px;
+      padding: 0.5in 0.75in;
+    }
+
+    .product-card {
+      background-color: var(--tint-color);
+      border-inline-start: 6px solid var(--border-color);
+      border-radius: 4px;
+      padding: 18px;
+    }
+
+    .product-image-container {
+      height: 170px;
+      background-color: white;
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      margin-bottom: 14px;
+      position: relative;
+      overflow: hidden;
+    }
+
+    .product-image {
+      max-width: 80%;
+      max-height: 80%;
+      object-fit: contain;
+    }
+
+    .logo-overlay {
+      position: absolute;
+      top: 8px;
+      inset-inline-start: 8px;
+      max-width: 44px;
+      max-height: 44px;
+    }
+
+    .logo-overlay img {
+      max-width: 100%;
+      max-height: 100%;
+      object-fit: contain;
+      display: block;
+    }
+
+    .product-category {
+      font-size: 11px;
+      font-weight: 700;
+      text-transform: uppercase;
+      letter-spacing: 1px;
+      color: var(--secondary-text);
+      margin-bottom: 4px;
+    }
+
+    .product-name {
+      font-size: 19px;
+      font-weight: 800;
+      color: var(--heading-color);
+      margin-bottom: 6px;
+    }
+
+    .product-description {
+      font-size: 12px;
+      color: var(--text-gray);
+      margin-bottom: 8px;
+    }
+
+    .product-price {
+      font-size: 15px;
+      font-weight: 700;
+      color: var(--text-dark);
+    }
+
+    .footer-attribution {
+      position: absolute;
+      bottom: 0.5in;
+      left: 0.75in;
+      right: 0.75in;
+      text-align: center;
+      font-size: 10px;
+      color: var(--text-light);
+    }
+
+    ${generateQuoteStyles()}
+
+    ${generateQuoteRequestStyles()}
+  </style>
+  ${generateScriptFont(locale)}
+</head>
+<body>
+  <!-- PAGE 1: Cover Page -->
+  <div class="page">
+    <div class="cover">
+      <div class="cover-logo-panel">
+        <img
+          src="${escapeHtml(logoUrl)}"
+          alt="${escapeHtml(formatMessage(messages.logoAlt, { companyName }))}"
+          class="cover-logo"
+          crossorigin="anonymous"
+        />
+      </div>
+      <div>
+        <h1 class="cover-title">${escapeHtml(messages.stackedGuideTitle).replace(/\n/g, '<br>')}</h1>
+        <p class="cover-company">${escapeHtml(formatMessage(messages.guideFor, { companyName }))}</p>
+      </div>
+      <div class="cover-ae">
+        ${generateHeadshot(accountExecutive, 'cover-ae-headshot')}
+        <strong>${escapeHtml(accountExecutive.name)}</strong><br>
+        ${accountExecutive.title ? `${escapeHtml(accountExecutive.title)}<br>` : ''}
+        ${escapeHtml(accountExecutive.email)}<br>
+        ${escapeHtml(accountExecutive.phone)}
+      </div>
+    </div>
+  </div>
+
+  <!-- PAGES 2+: Products Pages -->
+  ${chunk(products, PRODUCTS_PER_PAGE).map(pageProducts => generateProductsPage(data, pageProducts)).join('\n  ')}
+
+  <!-- Quote page, when quantities were requested -->
+  ${data.quote ? generateQuotePage(data, data.quote) : ''}
+
+  <!-- LAST PAGE: Request a quote -->
+  ${data.quoteRequestLink ? generateQuoteRequestPage(data, data.quoteRequestLink) : ''}
+</body>
+</html>`;
+}
+
+/**
+ * Generates HTML for a products page
+ * @param data - Template data for the page band
+ * @param products - Products shown on this page
+ * @returns HTML string for one products page
+ */
+function generateProductsPage(data: TemplateData, products: Product[]): string {
+  const { logoUrl, logoProvider, accountExecutive, locale } = data;
+  const messages = getMessages(locale);
+
+  return `<div class="page">
+    <div class="band">
+      <div class="band-title">${escapeHtml(messages.featuredProducts)}</div>
+      <div class="band-ae">
+        ${escapeHtml(accountExecutive.name)}<br>
+        ${escapeHtml(accountExecutive.email)}
+      </div>
+    </div>
+
+    <div class="products-grid">
+      ${products.map(product => generateProductCard(product, logoUrl, locale)).join('\n      ')}
+    </div>
+
+    ${logoProvider === 'apistemic' ? `<footer class="footer-attribution">
+      ${escapeHtml(messages.logoAttribution)}
+    </footer>` : ''}
+  </div>`;
+}
+
+/**
+ * Generates HTML for the quote page
+ * @param data - Template data for the page band
+ * @param quote - Priced quote
+ * @returns HTML string for the quote page
+ */
+function generateQuotePage(data: TemplateData, quote: Quote): string {
+  const { accountExecutive, locale } = data;
+  const messages = getMessages(locale);
+
+  return `<div class="page">
+    <div class="band">
+      <div class="band-title">${escapeHtml(messages.quoteTitle)}</div>
+      <div class="band-ae">
+        ${escapeHtml(accountExecutive.name)}<br>
+        ${escapeHtml(accountExecutive.email)}
+      </div>
+    </div>
+
+    <div class="quote-body">
+      ${generateQuote(quote, locale)}
+    </div>
+  </div>`;
+}
+
+/**
+ * Generates HTML for the closing page that invites a quote request
+ * @param data - Template data for the band
+ * @param link - Signed quote-request link
+ * @returns HTML string for the quote-request page
+ */
+function generateQuoteRequestPage(data: TemplateData, link: QuoteRequestLink): string {
+  const { accountExecutive, locale } = data;
+  const messages = getMessages(locale);
+
+  return `<div class="page">
+    <div class="band">
+      <div class="band-title">${escapeHtml(messages.ctaTitle)}</div>
+      <div class="band-ae">
+        ${escapeHtml(accountExecutive.name)}<br>
+        ${escapeHtml(accountExecutive.email)}
+      </div>
+    </div>
+
+    <div class="quote-body">
+      ${generateQuoteRequestCta(link, accountExecutive, locale)}
+    </div>
+  </div>`;
+}
+
+/**
+ * Generates HTML for a single product card
+ * @param product - Product data
+ * @param logoUrl - Company logo URL for overlay
+ * @param locale - BCP 47 tag for the price and overlay text
+ * @returns HTML string for the product card
+ */
+function generateProductCard(product: Product, logoUrl: string, locale?: string): string {
+  return `<div class="product-card">
+        <div class="product-image-container">
+          <img
+            src="${escapeHtml(product.imageUrl)}"
+            alt="${escapeHtml(product.name)}"
+            class="product-image"
+            crossorigin="anonymous"
+          />
+          <div class="logo-overlay">
+            <img
+              src="${escapeHtml(logoUrl)}"
+              alt="${escapeHtml(getMessages(locale).companyLogoAlt)}"
+              crossorigin="anonymous"
+            />
+          </div>
+        </div>
+        <div class="product-category">${escapeHtml(product.category)}</div>
+        <div class="product-name">${escapeHtml(product.name)}</div>
+        <div class="product-description">${escapeHtml(product.description)}</div>
+        <div class="product-price">${escapeHtml(formatProductPrice(product, locale))}</div>
+      </div>`;
+}
+
+export const boldTheme: GuideTheme = {
+  id: 'bold',
+  name: 'Bold',
+  description: 'Full-bleed brand-color cover with solid product cards',
+  render: renderBold,
+};
@@ -0,0 +1,449 @@
+/**
+ * Classic theme: branded header on every page, centered cover title and
+ * bordered product cards in a two-column grid
+ */
+
+import type { AccountExecutive, TemplateData, Product, Quote, QuoteRequestLink } from '../../types';
+import type { GuideTheme } from './index';
+import { getMessages, formatMessage } from '../i18n';
+import {
+  chunk,
+  escapeHtml,
+  formatProductPrice,
+  generateColorVariables,
+  generateDocumentAttributes,
+  generateHeadshot,
+  generateQuote,
+  generateQuoteRequestCta,
+  generateQuoteRequestStyles,
+  generateQuoteStyles,
+  generateScriptFont,
+  PRODUCTS_PER_PAGE
+} from './shared';
+
+/**
+ * Generates the complete classic gift guide HTML
+ * @param data - Template data including company info, logo, colors, and AE info
+ * @returns Complete HTML string ready for Puppeteer rendering
+ */
+function renderClassic(data: TemplateData): string {
+  const { companyName, logoUrl, colors, accountExecutive, products, locale } = data;
+  const messages = getMessages(locale);
+
+  return `<!DOCTYPE html>
+<html ${generateDocumentAttributes(locale)}>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(messages.guideTitle)} - ${escapeHtml(companyName)}</title>
+  <link rel="preconnect" href="https://fonts.googleapis.com">
+  <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
+  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;600;700&display=swap" rel="stylesheet">
+  <style>
+    ${generateColorVariables(colors)}
+
+    /* Reset and Base Styles */
+    * {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+    }
+
+    body {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 14px;
+      line-height: 1.5;
+      color: var(--text-dark);
+      background-color: var(--background-color);
+      margin: 0;
+      padding: 0;
+      -webkit-print-color-adjust: exact;
+      print-color-adjust: exact;
+    }
+
+    /* Page Structure for Print */
+    .page {
+      width: 8.5in;
+      height: 11in;
+      padding: 0.75in;
+      background-color: var(--background-color);
+      page-break-after: always;
+      position: relative;
+      overflow: hidden;
+    }
+
+    .page:last-child {
+      page-break-after: auto;
+    }
+
+    /* Header Styles */
+    .header {
+      display: flex;
+      justify-content: space-between;
+      align-items: flex-start;
+      padding-bottom: 20px;
+      margin-bottom: 40px;
+      border-bottom: 3px solid var(--border-color);
+    }
+
+    .header-logo {
+      max-width: 180px;
+      max-height: 70px;
+      object-fit: contain;
+    }
+
+    .header-ae-info {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      text-align: end;
+    }
+
+    .ae-headshot {
+      width: 56px;
+      height: 56px;
+      border-radius: 50%;
+      object-fit: cover;
+      border: 2px solid var(--border-color);
+    }
+
+    .ae-name {
+      font-size: 14px;
+      font-weight: 700;
+      color: var(--heading-color);
+      margin-bottom: 4px;
+    }
+
+    .ae-title {
+      font-size: 12px;
+      color: var(--secondary-text);
+      margin-bottom: 4px;
+    }
+
+    .ae-contact {
+      font-size: 12px;
+      color: var(--text-gray);
+      line-height: 1.6;
+    }
+
+    /* Cover Page Styles */
+    .cover-content {
+      display: flex;
+      flex-direction: column;
+      justify-content: center;
+      align-items: center;
+      height: calc(100% - 150px);
+      text-align: center;
+      margin-top: 100px;
+    }
+
+    .cover-title {
+      font-size: 48px;
+      font-weight: 700;
+      color: var(--heading-color);
+      margin-bottom: 16px;
+      letter-spacing: -1px;
+    }
+
+    .cover-subtitle {
+      font-size: 32px;
+      font-weight: 400;
+      color: var(--text-gray);
+    }
+
+    /* Products Page Styles */
+    .section-heading {
+      font-size: 28px;
+      font-weight: 700;
+      color: var(--heading-color);
+      margin-bottom: 30px;
+    }
+
+    .products-grid {
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 30px;
+    }
+
+    .product-card {
+      border: 2px solid var(--border-color);
+      border-radius: 12px;
+      padding: 20px;
+      background-color: var(--background-color);
+    }
+
+    .product-image-container {
+      height: 170px;
+      background-color: var(--tint-color);
+      border-radius: 8px;
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      margin-bottom: 15px;
+      position: relative;
+      overflow: hidden;
+    }
+
+    .product-image {
+      max-width: 80%;
+      max-height: 80%;
+      object-fit: contain;
+    }
+
+    .logo-overlay {
+      position: absolute;
+      bottom: 10px;
+      inset-inline-end: 10px;
+      max-width: 50px;
+      max-height: 50px;
+      background-color: white;
+      padding: 5px;
+      border-radius: 4px;
+      box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+    }
+
+    .logo-overlay img {
+      max-width: 100%;
+      max-height: 100%;
+      object-fit: contain;
+      display: block;
+    }
+
+    .product-name {
+      font-size: 18px;
+      font-weight: 700;
+      color: var(--heading-color);
+      margin-bottom: 8px;
+    }
+
+    .product-category {
+      font-size: 11px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      color: var(--text-light);
+      margin-bottom: 4px;
+    }
+
+    .product-description {
+      font-size: 12px;
+      color: var(--text-gray);
+      margin-bottom: 8px;
+    }
+
+    .product-price {
+      font-size: 14px;
+      color: var(--text-gray);
+    }
+
+    /* Footer Attribution */
+    .footer-attribution {
+      position: absolute;
+      bottom: 0.5in;
+      left: 0.75in;
+      right: 0.75in;
+      text-align: center;
+      font-size: 10px;
+      color: var(--text-light);
+    }
+
+    /* Print-specific styles */
+    @media print {
+      body {
+        margin: 0;
+        padding: 0;
+      }
+
+      .page {
+        margin: 0;
+        box-shadow: none;
+      }
+    }
+
+    /* Responsive fallback for preview */
+    @media screen and (max-width: 8.5in) {
+      .products-grid {
+        grid-template-columns: 1fr;
+      }
+    }
+
+    ${generateQuoteStyles()}
+
+    ${generateQuoteRequestStyles()}
+  </style>
+  ${generateScriptFont(locale)}
+</head>
+<body>
+  <!-- PAGE 1: Cover Page -->
+  <div class="page">
+    <header class="header">
+      <img
+        src="${escapeHtml(logoUrl)}"
+        alt="${escapeHtml(formatMessage(messages.logoAlt, { companyName }))}"
+        class="header-logo"
+        crossorigin="anonymous"
+      />
+      ${generateAeInfo(accountExecutive)}
+    </header>
+
+    <div class="cover-content">
+      <h1 class="cover-title">${escapeHtml(messages.guideTitle)}</h1>
+      <p class="cover-subtitle">${escapeHtml(formatMessage(messages.guideFor, { companyName }))}</p>
+    </div>
+  </div>
+
+  <!-- PAGES 2+: Products Pages -->
+  ${chunk(products, PRODUCTS_PER_PAGE).map(pageProducts => generateProductsPage(data, pageProducts)).join('\n  ')}
+
+  <!-- Quote page, when quantities were requested -->
+  ${data.quote ? generateQuotePage(data, data.quote) : ''}
+
+  <!-- LAST PAGE: Request a quote -->
+  ${data.quoteRequestLink ? generateQuoteRequestPage(data, data.quoteRequestLink) : ''}
+</body>
+</html>`;
+}
+
+/**
+ * Generates the AE block shown in every page header
+ * @param accountExecutive - AE details
+ * @returns HTML string for the header AE info
+ */
+function generateAeInfo(accountExecutive: AccountExecutive): string {
+  return `<div class="header-ae-info">
+        <div>
+          <div class="ae-name">${escapeHtml(accountExecutive.name)}</div>
+          ${accountExecutive.title ? `<div class="ae-title">${escapeHtml(accountExecutive.title)}</div>` : ''}
+          <div class="ae-contact">
+            ${escapeHtml(accountExecutive.email)}<br>
+            ${escapeHtml(accountExecutive.phone)}
+          </div>
+        </div>
+        ${generateHeadshot(accountExecutive, 'ae-headshot')}
+      </div>`;
+}
+
+/**
+ * Generates HTML for a products page
+ * @param data - Template data for the page header
+ * @param products - Products shown on this page
+ * @returns HTML string for one products page
+ */
+function generateProductsPage(data: TemplateData, products: Product[]): string {
+  const { companyName, logoUrl, logoProvider, accountExecutive, locale } = data;
+  const messages = getMessages(locale);
+
+  return `<div class="page">
+    <header class="header">
+      <img
+        src="${escapeHtml(logoUrl)}"
+        alt="${escapeHtml(formatMessage(messages.logoAlt, { companyName }))}"
+        class="header-logo"
+        crossorigin="anonymous"
+      />
+      ${generateAeInfo(accountExecutive)}
+    </header>
+
+    <h2 class="section-heading">${escapeHtml(messages.featuredProducts)}</h2>
+
+    <div class="products-grid">
+      ${products.map(product => generateProductCard(product, logoUrl, locale)).join('\n      ')}
+    </div>
+
+    ${logoProvider === 'apistemic' ? `<footer class="footer-attribution">
+      ${escapeHtml(messages.logoAttribution)}
+    </footer>` : ''}
+  </div>`;
+}
+
+/**
+ * Generates HTML for the quote page
+ * @param data - Template data for the page header
+ * @param quote - Priced quote
+ * @returns HTML string for the quote page
+ */
+function generateQuotePage(data: TemplateData, quote: Quote): string {
+  const { companyName, logoUrl, accountExecutive, locale } = data;
+  const messages = getMessages(locale);
+
+  return `<div class="page">
+    <header class="header">
+      <img
+        src="${escapeHtml(logoUrl)}"
+        alt="${escapeHtml(formatMessage(messages.logoAlt, { companyName }))}"
+        class="header-logo"
+        crossorigin="anonymous"
+      />
+      ${generateAeInfo(accountExecutive)}
+    </header>
+
+    <h2 class="section-heading">${escapeHtml(messages.quoteTitle)}</h2>
+
+    ${generateQuote(quote, locale)}
+  </div>`;
+}
+
+/**
+ * Generates HTML for the closing page that invites a quote request
+ * @param data - Template data for the header
+ * @param link - Signed quote-request link
+ * @returns HTML string for the quote-request page
+ */
+function generateQuoteRequestPage(data: TemplateData, link: QuoteRequestLink): string {
+  const { companyName, logoUrl, accountExecutive, locale } = data;
+  const messages = getMessages(locale);
+
+  return `<div class="page">
+    <header class="header">
+      <img
+        src="${escapeHtml(logoUrl)}"
+        alt="${escapeHtml(formatMessage(messages.logoAlt, { companyName }))}"
+        class="header-logo"
+        crossorigin="anonymous"
+      />
+      ${generateAeInfo(accountExecutive)}
+    </header>
+
+    <h2 class="section-heading">${escapeHtml(messages.ctaTitle)}</h2>
+
+    ${generateQuoteRequestCta(link, accountExecutive, locale)}
+  </div>`;
+}
+
+/**
+ * Generates HTML for a single product card
+ * @param product - Product data
+ * @param logoUrl - Company logo URL for overlay
+ * @param locale - BCP 47 tag for the price and overlay text
+ * @returns HTML string for the product card
+ */
+function generateProductCard(product: Product, logoUrl: string, locale?: string): string {
+  return `<div class="product-card">
+        <div class="product-image-container">
+          <img
+            src="${escapeHtml(product.imageUrl)}"
+            alt="${escapeHtml(product.name)}"
+            class="product-image"
+            crossorigin="anonymous"
+          />
+          <div class="logo-overlay">
+            <img
+              src="${escapeHtml(logoUrl)}"
+              alt="${escapeHtml(getMessages(locale).companyLogoAlt)}"
+              crossorigin="anonymous"
+            />
+          </div>
+        </div>
+        <div class="product-category">${escapeHtml(product.category)}</div>
+        <div class="product-name">${escapeHtml(product.name)}</div>
+        <div class="product-description">${escapeHtml(product.description)}</div>
+        <div class="product-price">${escapeHtml(formatProductPrice(product, locale))}</div>
+      </div>`;
+}
+
+export const classicTheme: GuideTheme = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'Branded header on every page with bordered product cards',
+  render: renderClassic,
+};
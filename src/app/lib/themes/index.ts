@@ -0,0 +1,44 @@
+/**
+ * Registry of gift guide themes
+ *
+ * Every theme renders the same TemplateData into a complete HTML document,
+ * so the pipeline, PDF rendering and previews work unchanged whichever theme
+ * is selected.
+ */
+
+import type { TemplateData } from '../../types';
+import { classicTheme } from './classic';
+import { minimalTheme } from './minimal';
+import { boldTheme } from './bold';
+
+/**
+ * A selectable gift guide layout
+ */
+export interface GuideTheme {
+  id: string;
+  name: string;
+  description: string;
+  render(data: TemplateData): string;
+}
+
+// Theme used when a request does not choose one
+export const DEFAULT_THEME_ID = 'classic';
+
+const THEMES: GuideTheme[] = [classicTheme, minimalTheme, boldTheme];
+
+/**
+ * Looks up a theme by ID
+ * @param id - Theme identifier
+ * @returns The theme, or undefined if no theme has that ID
+ */
+export function getTheme(id: string): GuideTheme | undefined {
+  return THEMES.find(theme => theme.id === id);
+}
+
+/**
+ * Lists the registered themes in display order
+ * @returns Theme ID, name and description for each theme
+ */
+export function listThemes(): Array<Pick<GuideTheme, 'id' | 'name' | 'description'>> {
+  return THEMES.map(({ id, name, description }) => ({ id, name, description }));
+}
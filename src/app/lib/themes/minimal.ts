@@ -0,0 +1,323 @@
+/**
+ * Minimal theme: quiet cover with a small logo, thin rules instead of card
+ * borders and a single-column product list with large images
+ */
+
+import type { TemplateData, Product, Quote, QuoteRequestLink } from '../../types';
+import type { GuideTheme } from './index';
+import { getMessages, formatMessage } from '../i18n';
+import {
+  chunk,
+  escapeHtml,
+  formatHtmlMessage,
+  formatProductPrice,
+  generateColorVariables,
+  generateDocumentAttributes,
+  generateHeadshot,
+  generateQuote,
+  generateQuoteRequestCta,
+  generateQuoteRequestStyles,
+  generateQuoteStyles,
+  generateScriptFont,
+  PRODUCTS_PER_PAGE
+} from './shared';
+
+/**
+ * Generates the complete minimal gift guide HTML
+ * @param data - Template data including company info, logo, colors, and AE info
+ * @returns Complete HTML string ready for Puppeteer rendering
+ */
+function renderMinimal(data: TemplateData): string {
+  const { companyName, logoUrl, colors, accountExecutive, products, locale } = data;
+  const messages = getMessages(locale);
+
+  return `<!DOCTYPE html>
+<html ${generateDocumentAttributes(locale)}>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(messages.guideTitle)} - ${escapeHtml(companyName)}</title>
+  <link rel="preconnect" href="https://fonts.googleapis.com">
+  <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
+  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;600&display=swap" rel="stylesheet">
+  <style>
+    ${generateColorVariables(colors)}
+
+    * {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+    }
+
+    body {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 15px;
+      line-height: 1.6;
+      color: var(--text-dark);
+      background-color: var(--background-color);
+      -webkit-print-color-adjust: exact;
+      print-color-adjust: exact;
+    }
+
+    .page {
+      width: 8.5in;
+      height: 11in;
+      padding: 1in;
+      background-color: var(--background-color);
+      page-break-after: always;
+      position: relative;
+      overflow: hidden;
+    }
+
+    .page:last-child {
+      page-break-after: auto;
+    }
+
+    /* Cover Page */
+    .cover {
+      display: flex;
+      flex-direction: column;
+      justify-content: space-between;
+      height: 100%;
+    }
+
+    .cover-logo {
+      max-width: 120px;
+      max-height: 48px;
+      object-fit: contain;
+    }
+
+    .cover-title {
+      font-size: 56px;
+      font-weight: 300;
+      line-height: 1.1;
+      color: var(--text-dark);
+      letter-spacing: -1.5px;
+    }
+
+    .cover-company {
+      margin-top: 16px;
+      font-size: 20px;
+      font-weight: 600;
+      color: var(--heading-color);
+    }
+
+    .cover-ae {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding-top: 16px;
+      border-top: 1px solid var(--border-color);
+      font-size: 12px;
+      color: var(--text-gray);
+    }
+
+    .cover-ae-headshot {
+      width: 40px;
+      height: 40px;
+      border-radius: 50%;
+      object-fit: cover;
+    }
+
+    .cover-ae strong {
+      color: var(--text-dark);
+      font-weight: 600;
+    }
+
+    /* Products Pages */
+    .page-label {
+      font-size: 11px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 2px;
+      color: var(--text-gray);
+      padding-bottom: 12px;
+      margin-bottom: 12px;
+      border-bottom: 1px solid var(--border-color);
+    }
+
+    .product-row {
+      display: flex;
+      gap: 28px;
+      align-items: center;
+      padding: 18px 0;
+      border-bottom: 1px solid var(--tint-color);
+    }
+
+    .product-image-container {
+      flex: 0 0 150px;
+      height: 150px;
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      background-color: var(--tint-color);
+    }
+
+    .product-image {
+      max-width: 85%;
+      max-height: 85%;
+      object-fit: contain;
+    }
+
+    .product-category {
+      font-size: 10px;
+      text-transform: uppercase;
+      letter-spacing: 1px;
+      color: var(--text-light);
+      margin-bottom: 4px;
+    }
+
+    .product-name {
+      font-size: 18px;
+      font-weight: 600;
+      color: var(--text-dark);
+      margin-bottom: 6px;
+    }
+
+    .product-description {
+      font-size: 12px;
+      color: var(--text-gray);
+      margin-bottom: 6px;
+    }
+
+    .product-price {
+      font-size: 13px;
+      font-weight: 600;
+      color: var(--heading-color);
+    }
+
+    .footer-attribution {
+      position: absolute;
+      bottom: 0.5in;
+      left: 1in;
+      right: 1in;
+      font-size: 10px;
+      color: var(--text-light);
+    }
+
+    ${generateQuoteStyles()}
+
+    ${generateQuoteRequestStyles()}
+  </style>
+  ${generateScriptFont(locale)}
+</head>
+<body>
+  <!-- PAGE 1: Cover Page -->
+  <div class="page">
+    <div class="cover">
+      <img
+        src="${escapeHtml(logoUrl)}"
+        alt="${escapeHtml(formatMessage(messages.logoAlt, { companyName }))}"
+        class="cover-logo"
+        crossorigin="anonymous"
+      />
+      <div>
+        <h1 class="cover-title">${escapeHtml(messages.stackedGuideTitle).replace(/\n/g, '<br>')}</h1>
+        <p class="cover-company">${escapeHtml(companyName)}</p>
+      </div>
+      <div class="cover-ae">
+        ${generateHeadshot(accountExecutive, 'cover-ae-headshot')}
+        <div>
+          ${formatHtmlMessage(messages.preparedBy, { name: `<strong>${escapeHtml(accountExecutive.name)}</strong>` })}${accountExecutive.title ? `, ${escapeHtml(accountExecutive.title)}` : ''}
+          &middot; ${escapeHtml(accountExecutive.email)}
+          &middot; ${escapeHtml(accountExecutive.phone)}
+        </div>
+      </div>
+    </div>
+  </div>
+
+  <!-- PAGES 2+: Products Pages -->
+  ${chunk(products, PRODUCTS_PER_PAGE).map(pageProducts => generateProductsPage(data, pageProducts)).join('\n  ')}
+
+  <!-- Quote page, when quantities were requested -->
+  ${data.quote ? generateQuotePage(data, data.quote) : ''}
+
+  <!-- LAST PAGE: Request a quote -->
+  ${data.quoteRequestLink ? generateQuoteRequestPage(data, data.quoteRequestLink) : ''}
+</body>
+</html>`;
+}
+
+/**
+ * Generates HTML for a products page
+ * @param data - Template data for the page label and attribution
+ * @param products - Products shown on this page
+ * @returns HTML string for one products page
+ */
+function generateProductsPage(data: TemplateData, products: Product[]): string {
+  const messages = getMessages(data.locale);
+
+  return `<div class="page">
+    <div class="page-label">${escapeHtml(messages.featuredProducts)} &middot; ${escapeHtml(data.companyName)}</div>
+
+    ${products.map(product => generateProductRow(product, data.locale)).join('\n    ')}
+
+    ${data.logoProvider === 'apistemic' ? `<footer class="footer-attribution">
+      ${escapeHtml(messages.logoAttribution)}
+    </footer>` : ''}
+  </div>`;
+}
+
+/**
+ * Generates HTML for the quote page
+ * @param data - Template data for the page label
+ * @param quote - Priced quote
+ * @returns HTML string for the quote page
+ */
+function generateQuotePage(data: TemplateData, quote: Quote): string {
+  const messages = getMessages(data.locale);
+
+  return `<div class="page">
+    <div class="page-label">${escapeHtml(messages.quoteTitle)} &middot; ${escapeHtml(data.companyName)}</div>
+
+    ${generateQuote(quote, data.locale)}
+  </div>`;
+}
+
+/**
+ * Generates HTML for the closing page that invites a quote request
+ * @param data - Template data for the page label
+ * @param link - Signed quote-request link
+ * @returns HTML string for the quote-request page
+ */
+function generateQuoteRequestPage(data: TemplateData, link: QuoteRequestLink): string {
+  const messages = getMessages(data.locale);
+
+  return `<div class="page">
+    <div class="page-label">${escapeHtml(messages.ctaTitle)} &middot; ${escapeHtml(data.companyName)}</div>
+
+    ${generateQuoteRequestCta(link, data.accountExecutive, data.locale)}
+  </div>`;
+}
+
+/**
+ * Generates HTML for a single product row
+ * @param product - Product data
+ * @param locale - BCP 47 tag for the price
+ * @returns HTML string for the product row
+ */
+function generateProductRow(product: Product, locale?: string): string {
+  return `<div class="product-row">
+      <div class="product-image-container">
+        <img
+          src="${escapeHtml(product.imageUrl)}"
+          alt="${escapeHtml(product.name)}"
+          class="product-image"
+          crossorigin="anonymous"
+        />
+      </div>
+      <div>
+        <div class="product-category">${escapeHtml(product.category)}</div>
+        <div class="product-name">${escapeHtml(product.name)}</div>
+        <div class="product-description">${escapeHtml(product.description)}</div>
+        <div class="product-price">${escapeHtml(formatProductPrice(product, locale))}</div>
+      </div>
+    </div>`;
+}
+
+export const minimalTheme: GuideTheme = {
+  id: 'minimal',
+  name: 'Minimal',
+  description: 'Understated layout with thin rules and a single-column product list',
+  render: renderMinimal,
+};
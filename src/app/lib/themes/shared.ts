@@ -0,0 +1,352 @@
+/**
+ * Helpers shared by all guide themes
+ */
+
+import type { AccountExecutive, BrandColors, Product, Quote, QuoteLineItem, QuoteRequestLink } from '../../types';
+import {
+  DEFAULT_LOCALE,
+  formatCurrency,
+  formatDate,
+  formatMessage,
+  formatNumber,
+  getMessages,
+  getTextDirection
+} from '../i18n';
+
+// Number of product cards that fit on one products page
+export const PRODUCTS_PER_PAGE = 4;
+
+/**
+ * Generates the :root block exposing brand colors as CSS custom properties
+ * Text and border roles meet WCAG AA against the background.
+ * @param colors - Brand colors with derived roles
+ * @returns CSS rule string
+ */
+export function generateColorVariables(colors: BrandColors): string {
+  return `/* CSS Custom Properties for Brand Colors (text and border roles meet WCAG AA) */
+    :root {
+      --primary-color: ${colors.primary};
+      --secondary-color: ${colors.secondary};
+      --background-color: ${colors.background};
+      --text-on-primary: ${colors.textOnPrimary};
+      --heading-color: ${colors.heading};
+      --secondary-text: ${colors.secondaryText};
+      --border-color: ${colors.border};
+      --tint-color: ${colors.tint};
+      --text-dark: ${colors.textOnBackground};
+      --text-gray: ${colors.mutedText};
+      --text-light: ${colors.mutedText};
+    }`;
+}
+
+/**
+ * Builds the lang and dir attributes for the <html> element
+ * @param locale - BCP 47 tag the guide is written in
+ * @returns Attribute string such as 'lang="ar" dir="rtl"'
+ */
+export function generateDocumentAttributes(locale: string = DEFAULT_LOCALE): string {
+  return `lang="${escapeHtml(locale)}" dir="${getTextDirection(locale)}"`;
+}
+
+/**
+ * Loads a font for scripts Inter does not cover
+ * Placed after a theme's own styles so the font stack wins. Letter spacing is
+ * reset because it breaks the joins between letters in cursive scripts.
+ * @param locale - BCP 47 tag the guide is written in
+ * @returns Stylesheet link and rule, or an empty string for Latin scripts
+ */
+export function generateScriptFont(locale: string = DEFAULT_LOCALE): string {
+  const { scriptFont } = getMessages(locale);
+  if (!scriptFont) {
+    return '';
+  }
+
+  return `<link href="https://fonts.googleapis.com/css2?family=${encodeURIComponent(scriptFont).replace(/%20/g, '+')}:wght@300;400;600;700;800&display=swap" rel="stylesheet">
+  <style>
+    body, body * {
+      font-family: 'Inter', '${scriptFont}', sans-serif;
+      letter-spacing: normal !important;
+    }
+  </style>`;
+}
+
+/**
+ * Formats a product's price for the guide's locale
+ * @param product - Catalog product
+ * @param locale - BCP 47 tag the guide is written in
+ * @returns Text such as "Desde US$18.99", or the product's free-text price
+ */
+export function formatProductPrice(product: Product, locale: string = DEFAULT_LOCALE): string {
+  if (product.basePrice === undefined || !product.currency) {
+    return product.price ?? '';
+  }
+
+  return formatMessage(getMessages(locale).startingAt, {
+    price: formatCurrency(product.basePrice, product.currency, locale),
+  });
+}
+
+/**
+ * Fills a message's {placeholders} with HTML, escaping the message itself
+ * @param message - Catalog message
+ * @param html - Placeholder values, already safe HTML
+ * @returns HTML string
+ */
+export function formatHtmlMessage(message: string, html: Record<string, string>): string {
+  return message
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const name = part.match(/^\{(\w+)\}$/)?.[1];
+      return name && name in html ? html[name] : escapeHtml(part);
+    })
+    .join('');
+}
+
+/**
+ * Generates the quote table styles, in the theme's brand colors
+ * @returns CSS rules for generateQuote's markup
+ */
+export function generateQuoteStyles(): string {
+  return `/* Quote Page */
+    .quote-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 12px;
+      color: var(--text-dark);
+    }
+
+    .quote-table th {
+      font-size: 10px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      color: var(--secondary-text);
+      text-align: start;
+      padding: 8px 6px;
+      border-bottom: 2px solid var(--border-color);
+    }
+
+    .quote-table td {
+      padding: 10px 6px;
+      border-bottom: 1px solid var(--tint-color);
+      vertical-align: top;
+    }
+
+    .quote-table .quote-amount {
+      text-align: end;
+      white-space: nowrap;
+    }
+
+    .quote-product {
+      font-weight: 600;
+      color: var(--heading-color);
+    }
+
+    .quote-sku,
+    .quote-tier {
+      font-size: 10px;
+      color: var(--text-gray);
+    }
+
+    .quote-totals {
+      width: 50%;
+      margin-top: 16px;
+      margin-inline-start: auto;
+      font-size: 12px;
+    }
+
+    .quote-totals div {
+      display: flex;
+      justify-content: space-between;
+      padding: 4px 6px;
+    }
+
+    .quote-totals .quote-grand-total {
+      margin-top: 4px;
+      padding-top: 8px;
+      border-top: 2px solid var(--border-color);
+      font-size: 16px;
+      font-weight: 700;
+      color: var(--heading-color);
+    }
+
+    .quote-validity {
+      margin-top: 24px;
+      font-size: 11px;
+      color: var(--text-gray);
+    }`;
+}
+
+/**
+ * Generates the quote's line items, totals and validity note
+ * @param quote - Priced quote
+ * @param locale - BCP 47 tag the guide is written in
+ * @returns HTML string to place on a theme's quote page
+ */
+export function generateQuote(quote: Quote, locale: string = DEFAULT_LOCALE): string {
+  const messages = getMessages(locale);
+  const money = (amount: number): string => escapeHtml(formatCurrency(amount, quote.currency, locale));
+
+  const totals = [
+    [messages.quoteListTotal, money(quote.listTotal)],
+    ...(quote.discountTotal > 0 ? [[messages.quoteDiscounts, money(-quote.discountTotal)]] : []),
+    ...(quote.setupFeeTotal > 0 ? [[messages.quoteSetupFees, money(quote.setupFeeTotal)]] : []),
+  ];
+
+  return `<table class="quote-table">
+      <thead>
+        <tr>
+          <th>${escapeHtml(messages.quoteProduct)}</th>
+          <th class="quote-amount">${escapeHtml(messages.quoteQuantity)}</th>
+          <th class="quote-amount">${escapeHtml(messages.quoteUnitPrice)}</th>
+          <th class="quote-amount">${escapeHtml(messages.quoteSetupFee)}</th>
+          <th class="quote-amount">${escapeHtml(messages.quoteSubtotal)}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${quote.lineItems.map((line) => generateQuoteRow(line, money, locale)).join('\n        ')}
+      </tbody>
+    </table>
+
+    <div class="quote-totals">
+      ${totals.map(([label, amount]) => `<div><span>${escapeHtml(label)}</span><span>${amount}</span></div>`).join('\n      ')}
+      <div class="quote-grand-total"><span>${escapeHtml(messages.quoteTotal)}</span><span>${money(quote.total)}</span></div>
+    </div>
+
+    <p class="quote-validity">
+      ${escapeHtml(formatMessage(messages.quoteValidUntil, { date: formatDate(quote.validUntil, locale) }))}.
+      ${escapeHtml(messages.quoteTerms)}
+    </p>`;
+}
+
+/**
+ * Generates one quote table row
+ * @param line - Priced line item
+ * @param money - Formats an amount in the quote's currency as HTML
+ * @param locale - BCP 47 tag the guide is written in
+ * @returns HTML table row
+ */
+function generateQuoteRow(line: QuoteLineItem, money: (amount: number) => string, locale: string): string {
+  const messages = getMessages(locale);
+  const tierNote = line.tierMinQuantity !== undefined
+    ? `<div class="quote-tier"><s>${money(line.listUnitPrice)}</s> &middot; ${escapeHtml(formatMessage(messages.quoteTierPrice, { quantity: formatNumber(line.tierMinQuantity, locale) }))}</div>`
+    : '';
+
+  return `<tr>
+          <td>
+            <div class="quote-product">${escapeHtml(line.name)}</div>
+            <div class="quote-sku">${escapeHtml(line.sku)}</div>
+          </td>
+          <td class="quote-amount">${escapeHtml(formatNumber(line.quantity, locale))}</td>
+          <td class="quote-amount">${money(line.unitPrice)}${tierNote}</td>
+          <td class="quote-amount">${line.setupFee > 0 ? money(line.setupFee) : '&mdash;'}</td>
+          <td class="quote-amount">${money(line.subtotal)}</td>
+        </tr>`;
+}
+
+/**
+ * Generates the quote-request call-to-action styles, in the theme's brand colors
+ * @returns CSS rules for generateQuoteRequestCta's markup
+ */
+export function generateQuoteRequestStyles(): string {
+  return `/* Request a Quote Page */
+    .cta {
+      margin-top: 0.75in;
+      text-align: center;
+    }
+
+    .cta-body {
+      max-width: 4.5in;
+      margin: 0 auto 28px;
+      font-size: 15px;
+      line-height: 1.6;
+      color: var(--text-dark);
+    }
+
+    .cta-button {
+      display: inline-block;
+      padding: 14px 36px;
+      border-radius: 6px;
+      background-color: var(--primary-color);
+      color: var(--text-on-primary);
+      font-size: 15px;
+      font-weight: 700;
+      text-decoration: none;
+    }
+
+    .cta-expiry {
+      margin-top: 16px;
+      font-size: 11px;
+      color: var(--text-gray);
+    }`;
+}
+
+/**
+ * Generates the quote-request call to action: invitation, button and link expiry
+ * @param link - Signed quote-request link
+ * @param accountExecutive - AE who receives the requests
+ * @param locale - BCP 47 tag the guide is written in
+ * @returns HTML string to place on a theme's closing page
+ */
+export function generateQuoteRequestCta(
+  link: QuoteRequestLink,
+  accountExecutive: AccountExecutive,
+  locale: string = DEFAULT_LOCALE
+): string {
+  const messages = getMessages(locale);
+
+  return `<div class="cta">
+      <p class="cta-body">${escapeHtml(formatMessage(messages.ctaBody, { name: accountExecutive.name }))}</p>
+      <a class="cta-button" href="${escapeHtml(link.url)}">${escapeHtml(messages.requestQuote)}</a>
+      <p class="cta-expiry">${escapeHtml(formatMessage(messages.ctaExpires, { date: formatDate(link.expiresAt, locale) }))}</p>
+    </div>`;
+}
+
+/**
+ * Splits an array into consecutive chunks
+ * @param items - Items to split
+ * @param size - Maximum chunk size
+ * @returns Array of chunks
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Generates the AE headshot image
+ * @param accountExecutive - AE details
+ * @param className - CSS class for the image
+ * @returns Image tag, or an empty string when the AE has no headshot
+ */
+export function generateHeadshot(accountExecutive: AccountExecutive, className: string): string {
+  if (!accountExecutive.headshotUrl) {
+    return '';
+  }
+
+  return `<img
+        src="${escapeHtml(accountExecutive.headshotUrl)}"
+        alt="${escapeHtml(accountExecutive.name)}"
+        class="${className}"
+        crossorigin="anonymous"
+      />`;
+}
+
+/**
+ * Escapes HTML special characters to prevent XSS
+ * @param str - String to escape
+ * @returns Escaped string safe for HTML insertion
+ */
+export function escapeHtml(str: string): string {
+  const htmlEntities: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  };
+  return str.replace(/[&<>"']/g, (char) => htmlEntities[char] || char);
+}
@@ -0,0 +1,63 @@
+/**
+ * Signed unsubscribe links for guide emails
+ *
+ * A signed token (see signed-tokens.ts) carries the recipient address and
+ * the guide it was sent with. The key comes from UNSUBSCRIBE_SECRET, which
+ * production requires; elsewhere, when unset, a random key is generated once
+ * and kept in DATA_DIR so links stay valid across restarts. Tokens do not
+ * expire: an opt-out link must keep working for as long as the email exists.
+ */
+
+import { getAppBaseUrl } from './utils';
+import { loadSecret } from './storage';
+import { createSignedToken, verifySignedToken } from './signed-tokens';
+
+/**
+ * Contents of a verified unsubscribe token
+ */
+export interface UnsubscribeToken {
+  email: string;
+  guideId?: string;
+}
+
+/**
+ * Returns the unsubscribe signing key
+ * @returns Secret string
+ */
+function getSecret(): string {
+  return loadSecret('UNSUBSCRIBE_SECRET', 'unsubscribe-secret');
+}
+
+/**
+ * Creates a signed unsubscribe token
+ * @param email - Recipient address
+ * @param guideId - Guide the email carries
+ * @returns Token of the form "<payload>.<signature>"
+ */
+export function createUnsubscribeToken(email: string, guideId?: string): string {
+  return createSignedToken({ e: email.trim().toLowerCase(), g: guideId }, getSecret());
+}
+
+/**
+ * Verifies an unsubscribe token
+ * @param token - Token from an unsubscribe link
+ * @returns Recipient address and guide ID, or null if the token is malformed or forged
+ */
+export function verifyUnsubscribeToken(token: string): UnsubscribeToken | null {
+  const data = verifySignedToken(token, getSecret());
+  if (!data || typeof data.e !== 'string') {
+    return null;
+  }
+
+  return { email: data.e, guideId: typeof data.g === 'string' ? data.g : undefined };
+}
+
+/**
+ * Builds the public unsubscribe URL for a recipient
+ * @param email - Recipient address
+ * @param guideId - Guide the email carries
+ * @returns Absolute URL of the unsubscribe route
+ */
+export function getUnsubscribeUrl(email: string, guideId?: string): string {
+  return `${getAppBaseUrl()}/api/unsubscribe?token=${createUnsubscribeToken(email, guideId)}`;
+}
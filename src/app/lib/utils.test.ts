@@ -0,0 +1,29 @@
+/**
+ * Unit tests for date-time parsing
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseZonedDateTime } from './utils';
+
+describe('parseZonedDateTime', () => {
+  it('reads an absolute time with a UTC offset', () => {
+    expect(parseZonedDateTime('2026-12-01T09:00:00+05:30', 'America/New_York')?.toISOString()).toBe('2026-12-01T03:30:00.000Z');
+    expect(parseZonedDateTime('2026-12-01T09:00Z', 'America/New_York')?.toISOString()).toBe('2026-12-01T09:00:00.000Z');
+  });
+
+  it('reads a wall-clock time in the timezone', () => {
+    expect(parseZonedDateTime('2026-12-01T09:00', 'America/New_York')?.toISOString()).toBe('2026-12-01T14:00:00.000Z');
+  });
+
+  it('moves a time skipped by a DST change forward', () => {
+    expect(parseZonedDateTime('2026-03-08T02:30', 'America/New_York')?.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  it.each(['2026-02-30T09:00', '2026-12-01T24:00', '2026-12-01 09:00', 'tomorrow'])('rejects %s', (value) => {
+    expect(parseZonedDateTime(value, 'UTC')).toBeNull();
+  });
+
+  it.each(['2026-12-01T09:00:00+25:00', '2026-12-01T09:00:00+05:99'])('rejects the out-of-range offset in %s', (value) => {
+    expect(parseZonedDateTime(value, 'UTC')).toBeNull();
+  });
+});
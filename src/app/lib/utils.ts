@@ -1,56 +1,19 @@
 /**
- * Utility functions for logo fetching, color extraction, and helper methods
+ * Utility functions for color extraction and helper methods
  */
 
-import axios from 'axios';
+import sharp from 'sharp';
 import { extractColors } from 'extract-colors';
-import type { BrandColors, LogoFetchResult, ExtractedColor } from '../types';
+import { parsePhoneNumberFromString, type CountryCode } from 'libphonenumber-js';
+import type { BrandColors, ExtractedColor } from '../types';
+import { buildPalette } from './palette';
 
 // Default fallback colors if extraction fails
-const DEFAULT_COLORS: BrandColors = {
+export const DEFAULT_COLORS: BrandColors = buildPalette({
   primary: '#0066CC',
   secondary: '#999999',
   background: '#FFFFFF',
-};
-
-/**
- * Fetches company logo from apistemic logo API
- * @param domain - Company domain (e.g., "nike.com")
- * @returns LogoFetchResult with logo URL or error
- */
-export async function fetchCompanyLogo(domain: string): Promise<LogoFetchResult> {
-  const logoApiUrl = `https://logos-api.apistemic.com/domain:${domain}`;
-
-  console.log(`[${new Date().toISOString()}] Fetching logo for domain: ${domain}`);
-  console.log(`[${new Date().toISOString()}] Logo API URL: ${logoApiUrl}`);
-
-  try {
-    // Make a HEAD request first to verify the logo exists
-    const response = await axios.head(logoApiUrl, {
-      timeout: 5000,
-      validateStatus: (status) => status === 200,
-    });
-
-    if (response.status === 200) {
-      console.log(`[${new Date().toISOString()}] Logo fetch successful for ${domain}`);
-      return {
-        success: true,
-        logoUrl: logoApiUrl,
-      };
-    }
-
-    throw new Error(`Unexpected status code: ${response.status}`);
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`[${new Date().toISOString()}] Logo fetch failed for ${domain}: ${errorMessage}`);
-
-    return {
-      success: false,
-      logoUrl: null,
-      error: errorMessage,
-    };
-  }
-}
+});
 
 /**
  * Converts RGB values to HEX color string
@@ -77,36 +40,32 @@ export function isValidHexColor(color: string): boolean {
 }
 
 /**
- * Extracts brand colors from a logo image URL
- * @param logoUrl - URL of the logo image
+ * Extracts brand colors from downloaded logo bytes
+ * @param image - Logo image bytes (any format sharp can decode, including SVG)
  * @returns BrandColors object with extracted or default colors
  */
-export async function extractBrandColors(logoUrl: string): Promise<BrandColors> {
-  console.log(`[${new Date().toISOString()}] Extracting colors from logo: ${logoUrl}`);
+export async function extractBrandColors(image: Buffer): Promise<BrandColors> {
+  console.log(`[${new Date().toISOString()}] Extracting colors from logo (${image.length} bytes)`);
 
   try {
-    // Download the image as a buffer
-    const response = await axios.get(logoUrl, {
-      responseType: 'arraybuffer',
-      timeout: 10000,
-    });
-
-    const imageBuffer = Buffer.from(response.data);
-
-    // Convert buffer to base64 data URL for extract-colors
-    const contentType = response.headers['content-type'] || 'image/webp';
-    const base64 = imageBuffer.toString('base64');
-    const dataUrl = `data:${contentType};base64,${base64}`;
+    // Decode to raw RGBA pixels; extract-colors only accepts ImageData in Node.js
+    const { data, info } = await sharp(image)
+      .resize(256, 256, { fit: 'inside', withoutEnlargement: true })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
 
     // Extract colors from the image
-    const colors = await extractColors(dataUrl, {
-      pixels: 64000,
-      distance: 0.2,
-      crossOrigin: 'anonymous',
-      saturationDistance: 0.2,
-      lightnessDistance: 0.2,
-      hueDistance: 0.05,
-    }) as ExtractedColor[];
+    const colors = await extractColors(
+      { data: new Uint8ClampedArray(data), width: info.width, height: info.height },
+      {
+        pixels: 64000,
+        distance: 0.2,
+        saturationDistance: 0.2,
+        lightnessDistance: 0.2,
+        hueDistance: 0.05,
+      }
+    ) as ExtractedColor[];
 
     console.log(`[${new Date().toISOString()}] Extracted ${colors.length} colors from logo`);
 
@@ -136,12 +95,12 @@ export async function extractBrandColors(logoUrl: string): Promise<BrandColors>
     const accentColor = colorsToUse[2]?.hex;
 
     // Validate extracted colors
-    const result: BrandColors = {
+    const result = buildPalette({
       primary: isValidHexColor(primaryColor) ? primaryColor : DEFAULT_COLORS.primary,
       secondary: isValidHexColor(secondaryColor) ? secondaryColor : DEFAULT_COLORS.secondary,
       background: DEFAULT_COLORS.background,
       accent: accentColor && isValidHexColor(accentColor) ? accentColor : undefined,
-    };
+    });
 
     console.log(`[${new Date().toISOString()}] Extracted brand colors:`, result);
 
@@ -179,13 +138,123 @@ export function isValidEmail(email: string): boolean {
 }
 
 /**
- * Validates domain format
- * @param domain - Domain to validate
- * @returns boolean indicating if domain is valid
+ * Parses a phone number and formats it as E.164
+ * Numbers without a country code are read as DEFAULT_PHONE_COUNTRY (default US).
+ * @param phone - Phone number as entered
+ * @returns E.164 number (e.g. "+12125550100"), or null if invalid
+ */
+export function normalizePhoneNumber(phone: string): string | null {
+  const defaultCountry = (process.env.DEFAULT_PHONE_COUNTRY || 'US').toUpperCase() as CountryCode;
+  const parsed = parsePhoneNumberFromString(phone, defaultCountry);
+  return parsed && parsed.isValid() ? parsed.number : null;
+}
+
+/**
+ * Checks whether a string is an IANA timezone name
+ * @param timeZone - Timezone name (e.g. "America/New_York")
+ * @returns boolean indicating if the runtime knows the timezone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Computes a timezone's UTC offset at an instant
+ * @param time - Instant in milliseconds
+ * @param timeZone - IANA timezone name
+ * @returns Offset in milliseconds (local time minus UTC)
+ */
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(time);
+  const part = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find((p) => p.type === type)!.value);
+
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return local - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Parses a date-time as either an absolute ISO 8601 time or a wall-clock time in a timezone
+ * "2026-11-02T09:00:00Z" and "2026-11-02T09:00-05:00" are absolute; "2026-11-02T09:00"
+ * is read in the given timezone. Wall-clock times skipped by a DST change move forward.
+ * @param value - Date-time string
+ * @param timeZone - IANA timezone for wall-clock times
+ * @returns The instant, or null if the string is not a valid date-time
+ */
+export function parseZonedDateTime(value: string, timeZone: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = '0', utcOffset] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  const check = new Date(wallClock);
+
+  // Reject dates that roll over, such as February 30 or 24:00
+  if (check.getUTCMonth() !== +month - 1 || check.getUTCDate() !== +day || check.getUTCHours() !== +hour) {
+    return null;
+  }
+
+  if (utcOffset) {
+    // Out-of-range offsets such as +25:00 or +05:99 do not parse
+    const instant = Date.parse(value);
+    return Number.isNaN(instant) ? null : new Date(instant);
+  }
+
+  // The offset depends on the instant, so refine once for times near a DST change
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  const offset = getTimeZoneOffset(guess, timeZone);
+  const instant = wallClock - offset;
+
+  // Inside a DST gap no offset holds; both candidates straddle the gap and the later one follows it
+  return new Date(getTimeZoneOffset(instant, timeZone) === offset ? instant : Math.max(instant, guess));
+}
+
+/**
+ * Check if running on Vercel serverless
+ */
+export function isVercel(): boolean {
+  return !!process.env.VERCEL || !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+}
+
+/**
+ * Resolves the public base URL used in links sent to recipients
+ * APP_BASE_URL wins; on Vercel the deployment URL is used.
+ * @returns Base URL without a trailing slash
+ */
+export function getAppBaseUrl(): string {
+  if (process.env.APP_BASE_URL) {
+    return process.env.APP_BASE_URL.replace(/\/+$/, '');
+  }
+  if (process.env.VERCEL_URL) {
+    return `https://${process.env.VERCEL_URL}`;
+  }
+  return `http://localhost:${process.env.PORT || 3000}`;
+}
+
+/**
+ * Reads a positive integer from the environment
+ * @param name - Environment variable name
+ * @param fallback - Value used when unset or invalid
+ * @returns Parsed value or fallback
  */
-export function isValidDomain(domain: string): boolean {
-  const domainRegex = /^[a-zA-Z0-9][a-zA-Z0-9-]*[a-zA-Z0-9]*\.[a-zA-Z]{2,}$/;
-  return domainRegex.test(domain);
+export function readPositiveInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
 }
 
 /**
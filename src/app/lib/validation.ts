@@ -0,0 +1,571 @@
+/**
+ * Request validation for gift guide generation and previews, the AE directory,
+ * email templates, recipients' quote requests and email provider webhooks
+ *
+ * The request schema checks every field in one pass, so callers get all
+ * problems at once as a fieldErrors map with machine-readable codes. Valid
+ * requests come back normalized (trimmed strings, bare domain, E.164 phone
+ * number, a company name suggested from the domain when omitted, AE details
+ * filled in from the directory when an aeId is given, sendAt in UTC and the
+ * locale in canonical casing).
+ */
+
+import { z } from 'zod';
+import type {
+  AccountExecutive,
+  AccountExecutivePatch,
+  EmailTemplate,
+  EmailWebhookPayload,
+  FieldError,
+  FieldErrors,
+  GenerateGuideRequest,
+  GuidePreviewRequest,
+  QuoteRequestSubmission,
+  ValidationErrorCode
+} from '../types';
+import { isValidEmail, isValidTimeZone, normalizePhoneNumber, parseZonedDateTime } from './utils';
+import { normalizeDomain, suggestCompanyName } from './domains';
+import { findUnknownProductIds, getProduct, selectProducts } from './catalog';
+import { isQuotable, MAX_QUOTE_LINES, MAX_QUOTE_QUANTITY } from './pricing';
+import { isHttpUrl, isValidLogoDataUri } from './logos';
+import { getTheme, listThemes } from './themes';
+import { canonicalizeLocale, isSupportedLocale, listLocales } from './i18n';
+import { getAccountExecutive } from './account-executives';
+import { findUnknownMergeFields, getEmailTemplate, MERGE_FIELDS } from './email-templates';
+
+/**
+ * Outcome of validating a request payload
+ */
+export interface ValidationResult<T = GenerateGuideRequest> {
+  isValid: boolean;
+  /** Normalized payload when valid */
+  data?: T;
+  /** Summary of every field error when invalid */
+  error?: string;
+  fieldErrors?: Partial<Record<keyof T, FieldError>>;
+}
+
+/**
+ * Builds refinement options carrying a validation code
+ * @param code - Validation error code
+ * @param message - Human-readable message
+ * @returns Options for z.refine
+ */
+function failWith(code: ValidationErrorCode, message: string) {
+  return { message, params: { code } };
+}
+
+const requiredString = z.string().trim().min(1);
+
+const stringList = z.array(z.string().trim().min(1)).optional();
+
+const phoneNumber = requiredString.transform((value, ctx) => {
+  const phone = normalizePhoneNumber(value);
+  if (!phone) {
+    ctx.addIssue({ code: 'custom', ...failWith('invalid_phone', 'Invalid phone number (include the country code, e.g. +1 212 555 0100)') });
+    return z.NEVER;
+  }
+  return phone;
+});
+
+/**
+ * Checks one requested quantity
+ * @param quantity - Value given for a SKU
+ * @returns boolean indicating if the quantity is a whole number in the quotable range
+ */
+function isValidQuantity(quantity: unknown): boolean {
+  return Number.isInteger(quantity) && (quantity as number) >= 1 && (quantity as number) <= MAX_QUOTE_QUANTITY;
+}
+
+/**
+ * Checks requested quote quantities against the catalog
+ * @param quantities - Quantities keyed by SKU
+ * @returns Refinement options for the first problem, or null when the quote can be priced
+ */
+function checkQuantities(quantities: Record<string, unknown>) {
+  const entries = Object.entries(quantities);
+  if (entries.length > MAX_QUOTE_LINES) {
+    return failWith('invalid_value', `Invalid quantities: at most ${MAX_QUOTE_LINES} products per quote`);
+  }
+
+  const invalid = entries.find(([, quantity]) => !isValidQuantity(quantity));
+  if (invalid) {
+    return failWith('invalid_value', `Invalid quantity for ${invalid[0]}: expected a whole number from 1 to ${MAX_QUOTE_QUANTITY}`);
+  }
+
+  const skus = entries.map(([sku]) => sku);
+  const unknownIds = findUnknownProductIds(skus);
+  if (unknownIds.length > 0) {
+    return failWith('unknown_product', `Unknown product IDs: ${unknownIds.join(', ')}`);
+  }
+
+  const products = skus.map((sku) => getProduct(sku)!);
+  const unpriced = products.filter((product) => !isQuotable(product));
+  if (unpriced.length > 0) {
+    return failWith('unpriced_product', `Products without a base price cannot be quoted: ${unpriced.map((product) => product.sku).join(', ')}`);
+  }
+
+  const currencies = new Set(products.map((product) => product.currency));
+  if (currencies.size > 1) {
+    return failWith('mixed_currency', `Quoted products must share one currency, got ${[...currencies].join(', ')}`);
+  }
+
+  return null;
+}
+
+// Free-text AE fields, required unless the request names a directory AE
+const AE_FIELDS = ['aeName', 'aeEmail', 'aePhone'] as const;
+
+const requestSchema = z.object({
+  companyName: z.string().trim().optional(),
+  domain: requiredString.transform((value, ctx) => {
+    const domain = normalizeDomain(value);
+    if (!domain) {
+      ctx.addIssue({ code: 'custom', ...failWith('invalid_domain', 'Invalid domain (e.g. nike.com, https://www.nike.co.uk/ or jane@acme.io)') });
+      return z.NEVER;
+    }
+    return domain;
+  }),
+  recipientEmail: requiredString
+    .refine(isValidEmail, failWith('invalid_email', 'Invalid recipient email format')),
+  aeId: z.string().trim()
+    .refine((id) => !!getAccountExecutive(id), failWith('unknown_ae', 'Unknown aeId: no such AE in the directory'))
+    .optional(),
+  aeName: requiredString.optional(),
+  aeEmail: requiredString
+    .refine(isValidEmail, failWith('invalid_email', 'Invalid AE email format'))
+    .optional(),
+  aePhone: phoneNumber.optional(),
+  productIds: stringList.superRefine((ids, ctx) => {
+    const unknownIds = ids ? findUnknownProductIds(ids) : [];
+    if (unknownIds.length > 0) {
+      ctx.addIssue({ code: 'custom', ...failWith('unknown_product', `Unknown product IDs: ${unknownIds.join(', ')}`) });
+    }
+  }),
+  categories: stringList,
+  tags: stringList,
+  quantities: z.record(z.string(), z.unknown())
+    .superRefine((quantities, ctx) => {
+      const problem = checkQuantities(quantities);
+      if (problem) {
+        ctx.addIssue({ code: 'custom', ...problem });
+      }
+    })
+    .transform((quantities) => quantities as Record<string, number>)
+    .optional(),
+  logoUrl: z.string()
+    .refine(isHttpUrl, failWith('invalid_url', 'Invalid logoUrl: expected an http(s) URL'))
+    .optional(),
+  logoDataUri: z.string()
+    .refine(isValidLogoDataUri, failWith('invalid_logo', 'Invalid logoDataUri: expected a base64 PNG, JPEG, WebP, GIF or SVG data URI up to 2 MB'))
+    .optional(),
+  themeId: z.string()
+    .refine((id) => !!getTheme(id), failWith('unknown_theme', `Unknown themeId: expected one of ${listThemes().map((theme) => theme.id).join(', ')}`))
+    .optional(),
+  locale: z.string().trim()
+    .refine(isSupportedLocale, failWith('unknown_locale', `Unknown locale: expected a BCP 47 tag in one of ${listLocales().map((locale) => locale.id).join(', ')} (e.g. es-MX)`))
+    .transform(canonicalizeLocale)
+    .optional(),
+  delivery: z.enum(['email', 'download', 'both']).optional(),
+  emailTemplateId: z.string().trim()
+    .refine((id) => !!getEmailTemplate(id), failWith('unknown_template', 'Unknown emailTemplateId: no such email template'))
+    .optional(),
+  personalNote: z.string().trim().max(1000).optional(),
+  ccAe: z.boolean().optional(),
+  sendAt: z.string().trim().optional(),
+  timezone: z.string().trim()
+    .refine(isValidTimeZone, failWith('invalid_timezone', 'Invalid timezone: expected an IANA name such as America/New_York'))
+    .optional(),
+  async: z.boolean().optional(),
+});
+
+// Previews render whatever AE details have been typed so far
+const previewSchema = requestSchema
+  .pick({
+    companyName: true,
+    domain: true,
+    aeId: true,
+    productIds: true,
+    categories: true,
+    tags: true,
+    quantities: true,
+    logoUrl: true,
+    logoDataUri: true,
+    themeId: true,
+    locale: true,
+  })
+  .extend({
+    aeName: z.string().trim().optional(),
+    aeEmail: z.string().trim().optional(),
+    aePhone: z.string().trim().optional(),
+  });
+
+const headshotUrl = z.string().refine(
+  (value) => isHttpUrl(value) || isValidLogoDataUri(value),
+  failWith('invalid_url', 'Invalid headshotUrl: expected an http(s) URL or image data URI')
+);
+
+const bookingUrl = z.string().refine(isHttpUrl, failWith('invalid_url', 'Invalid bookingUrl: expected an http(s) URL'));
+
+const accountExecutiveSchema = z.object({
+  name: requiredString,
+  email: requiredString.refine(isValidEmail, failWith('invalid_email', 'Invalid email format')),
+  phone: phoneNumber,
+  title: z.string().trim().max(100).optional(),
+  headshotUrl: headshotUrl.optional(),
+  signature: z.string().trim().max(1000).optional(),
+  bookingUrl: bookingUrl.optional(),
+});
+
+// Updates may change any field; null clears an optional one
+const accountExecutivePatchSchema = z.object({
+  name: requiredString.optional(),
+  email: requiredString.refine(isValidEmail, failWith('invalid_email', 'Invalid email format')).optional(),
+  phone: phoneNumber.optional(),
+  title: z.string().trim().max(100).nullable().optional(),
+  headshotUrl: headshotUrl.nullable().optional(),
+  signature: z.string().trim().max(1000).nullable().optional(),
+  bookingUrl: bookingUrl.nullable().optional(),
+});
+
+/**
+ * Checks that template text only uses known merge fields
+ * @param value - Template subject or body
+ * @param ctx - Refinement context
+ */
+function checkMergeFields(value: string, ctx: z.RefinementCtx): void {
+  const unknown = findUnknownMergeFields(value);
+  if (unknown.length > 0) {
+    ctx.addIssue({
+      code: 'custom',
+      ...failWith('unknown_merge_field', `Unknown merge fields: ${unknown.join(', ')} (available: ${MERGE_FIELDS.join(', ')})`),
+    });
+  }
+}
+
+const templateSubject = requiredString.max(200)
+  .refine((value) => !/[\r\n]/.test(value), failWith('invalid_value', 'Invalid subject: must be a single line'))
+  .superRefine(checkMergeFields);
+
+const templateBody = requiredString.max(10000).superRefine(checkMergeFields);
+
+const emailTemplateSchema = z.object({
+  name: requiredString.max(100),
+  subject: templateSubject,
+  body: templateBody,
+});
+
+const emailTemplatePatchSchema = z.object({
+  name: requiredString.max(100).optional(),
+  subject: templateSubject.optional(),
+  body: templateBody.optional(),
+});
+
+const quoteRequestSchema = z.object({
+  name: z.string().trim().max(200).transform((name) => name || undefined).optional(),
+  email: requiredString.refine(isValidEmail, failWith('invalid_email', 'Invalid email format')),
+  message: z.string().trim().max(2000).transform((message) => message || undefined).optional(),
+  quantities: z.record(z.string(), z.unknown())
+    .refine((quantities) => Object.keys(quantities).length > 0, failWith('required', 'Enter a quantity for at least one product'))
+    .refine(
+      (quantities) => Object.values(quantities).every(isValidQuantity),
+      failWith('invalid_value', `Invalid quantities: expected whole numbers from 1 to ${MAX_QUOTE_QUANTITY}`)
+    )
+    .transform((quantities) => quantities as Record<string, number>),
+});
+
+// Other fields of the provider's events are ignored
+const emailWebhookSchema = z.object({
+  type: requiredString,
+  created_at: requiredString,
+  data: z.object({
+    email_id: requiredString.optional(),
+    bounce: z.object({ message: z.string().optional() }).optional(),
+  }),
+});
+
+/**
+ * Converts a schema issue into a field error
+ * @param issue - Zod issue
+ * @param body - Original request body
+ * @returns Field error with code and message
+ */
+function toFieldError(issue: z.core.$ZodIssue, body: Record<string, unknown>): FieldError {
+  const field = String(issue.path[0]);
+
+  if (issue.code === 'custom') {
+    return { code: (issue.params?.code as ValidationErrorCode) ?? 'invalid_value', message: issue.message };
+  }
+
+  if ((issue.code === 'invalid_type' && body[field] === undefined) || issue.code === 'too_small') {
+    return { code: 'required', message: 'Missing or empty required field' };
+  }
+
+  if (issue.code === 'too_big') {
+    return { code: 'invalid_value', message: `Invalid ${field}: at most ${issue.maximum} characters` };
+  }
+
+  if (issue.code === 'invalid_value') {
+    return { code: 'invalid_value', message: `Invalid ${field}: expected one of ${issue.values.join(', ')}` };
+  }
+
+  if (issue.code === 'invalid_type' && issue.path.length > 1) {
+    return { code: 'invalid_type', message: `Invalid ${field}: expected an array of strings` };
+  }
+
+  return { code: 'invalid_type', message: `Invalid ${field}: expected ${'expected' in issue ? issue.expected : 'a different value'}` };
+}
+
+/**
+ * Maps schema issues to field errors, keeping the first problem per field
+ * @param issues - Zod issues
+ * @param body - Original request body
+ * @returns Field errors keyed by field name
+ */
+function collectFieldErrors<T>(issues: z.core.$ZodIssue[], body: Record<string, unknown>): Partial<Record<keyof T, FieldError>> {
+  const fieldErrors: Partial<Record<keyof T, FieldError>> = {};
+  for (const issue of issues) {
+    const field = String(issue.path[0]) as keyof T;
+    fieldErrors[field] ??= toFieldError(issue, body);
+  }
+  return fieldErrors;
+}
+
+/**
+ * Formats field errors as a single summary string
+ * @param fieldErrors - Field errors
+ * @returns Summary such as "aePhone: Invalid phone number; domain: ..."
+ */
+function summarize(fieldErrors: Partial<Record<string, FieldError>>): string {
+  return Object.entries(fieldErrors)
+    .map(([field, fieldError]) => `${field}: ${fieldError!.message}`)
+    .join('; ');
+}
+
+/**
+ * Checks that a product selection by category or tag still leaves something to show
+ * @param selection - Parsed selection, or the raw body when parsing failed
+ * @param fieldErrors - Field errors so far; a no_products error is added here
+ */
+function checkProductSelection(
+  selection: Pick<GenerateGuideRequest, 'productIds' | 'categories' | 'tags'>,
+  fieldErrors: Partial<Record<'productIds' | 'categories' | 'tags', FieldError>>
+): void {
+  if (fieldErrors.productIds || fieldErrors.categories || fieldErrors.tags) {
+    return;
+  }
+
+  const byIds = selection.productIds && selection.productIds.length > 0;
+  if (!byIds && selectProducts(selection).length === 0) {
+    fieldErrors[selection.categories?.length ? 'categories' : selection.tags?.length ? 'tags' : 'productIds'] = {
+      code: 'no_products',
+      message: 'No active products match the requested categories and tags',
+    };
+  }
+}
+
+/**
+ * Resolves a request's sendAt to an instant that is still in the future
+ * @param input - Raw request body
+ * @returns Send time, or the sendAt field error
+ */
+function resolveSendAt(input: Record<string, unknown>): { sendAt?: Date; error?: FieldError } {
+  const timeZone = typeof input.timezone === 'string' ? input.timezone.trim() : 'UTC';
+  const sendAt = parseZonedDateTime(String(input.sendAt).trim(), timeZone);
+
+  if (!sendAt || Number.isNaN(sendAt.getTime())) {
+    return {
+      error: { code: 'invalid_date', message: 'Invalid sendAt: expected an ISO 8601 time such as 2026-11-02T09:00 or 2026-11-02T09:00:00Z' },
+    };
+  }
+  if (sendAt.getTime() <= Date.now()) {
+    return { error: { code: 'send_at_in_past', message: `Invalid sendAt: ${sendAt.toISOString()} is in the past` } };
+  }
+  if (input.delivery === 'download') {
+    return { error: { code: 'invalid_value', message: 'Invalid sendAt: scheduling needs "email" or "both" delivery' } };
+  }
+
+  return { sendAt };
+}
+
+/**
+ * Validates and normalizes a generate-guide request payload
+ * @param body - Request body to validate
+ * @returns Validation result with normalized data, or every field error
+ */
+export function validateRequest(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { isValid: false, error: 'Request body must be a JSON object' };
+  }
+
+  const input = body as Record<string, unknown>;
+  const parsed = requestSchema.safeParse(input);
+  const fieldErrors: FieldErrors = parsed.success ? {} : collectFieldErrors<GenerateGuideRequest>(parsed.error.issues, input);
+
+  if (input.aeId === undefined) {
+    for (const field of AE_FIELDS) {
+      if (input[field] === undefined) {
+        fieldErrors[field] ??= { code: 'required', message: 'Missing or empty required field (or give an aeId)' };
+      }
+    }
+  }
+
+  let sendAt: Date | undefined;
+  if (typeof input.sendAt === 'string' && !fieldErrors.sendAt && !fieldErrors.timezone) {
+    const resolved = resolveSendAt(input);
+    sendAt = resolved.sendAt;
+    if (resolved.error) {
+      fieldErrors.sendAt = resolved.error;
+    }
+  }
+
+  checkProductSelection(parsed.success ? parsed.data : (input as Partial<GenerateGuideRequest>), fieldErrors);
+
+  if (!parsed.success || Object.keys(fieldErrors).length > 0) {
+    return { isValid: false, error: summarize(fieldErrors), fieldErrors };
+  }
+
+  const { data } = parsed;
+  const ae = data.aeId ? getAccountExecutive(data.aeId)! : null;
+
+  return {
+    isValid: true,
+    data: {
+      ...data,
+      companyName: data.companyName || suggestCompanyName(data.domain),
+      // A directory AE replaces any free-text AE fields
+      aeName: ae ? ae.name : data.aeName!,
+      aeEmail: ae ? ae.email : data.aeEmail!,
+      aePhone: ae ? ae.phone : data.aePhone!,
+      sendAt: sendAt?.toISOString(),
+      timezone: sendAt ? data.timezone ?? 'UTC' : data.timezone,
+    },
+  };
+}
+
+/**
+ * Validates and normalizes a preview-guide request payload
+ * Like validateRequest, but without recipient or delivery fields, and AE
+ * details are optional and shown as typed (phone numbers normalized when valid).
+ * @param body - Request body to validate
+ * @returns Validation result with normalized data, or every field error
+ */
+export function validatePreviewRequest(body: unknown): ValidationResult<GuidePreviewRequest> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { isValid: false, error: 'Request body must be a JSON object' };
+  }
+
+  const input = body as Record<string, unknown>;
+  const parsed = previewSchema.safeParse(input);
+  const fieldErrors = parsed.success ? {} : collectFieldErrors<GuidePreviewRequest>(parsed.error.issues, input);
+
+  checkProductSelection(parsed.success ? parsed.data : (input as Partial<GuidePreviewRequest>), fieldErrors);
+
+  if (!parsed.success || Object.keys(fieldErrors).length > 0) {
+    return { isValid: false, error: summarize(fieldErrors), fieldErrors };
+  }
+
+  const { data } = parsed;
+  const ae = data.aeId ? getAccountExecutive(data.aeId)! : null;
+
+  return {
+    isValid: true,
+    data: {
+      ...data,
+      companyName: data.companyName || suggestCompanyName(data.domain),
+      aeName: ae ? ae.name : data.aeName,
+      aeEmail: ae ? ae.email : data.aeEmail,
+      aePhone: ae ? ae.phone : data.aePhone && (normalizePhoneNumber(data.aePhone) ?? data.aePhone),
+    },
+  };
+}
+
+/**
+ * Validates a payload against an AE directory or email template schema
+ * @param schema - Full or patch schema
+ * @param body - Request body to validate
+ * @returns Validation result with normalized details, or every field error
+ */
+function validateWith<T>(schema: z.ZodType<T>, body: unknown): ValidationResult<T> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { isValid: false, error: 'Request body must be a JSON object' };
+  }
+
+  const input = body as Record<string, unknown>;
+  const parsed = schema.safeParse(input);
+
+  if (!parsed.success) {
+    const fieldErrors = collectFieldErrors<T>(parsed.error.issues, input);
+    return { isValid: false, error: summarize(fieldErrors), fieldErrors };
+  }
+
+  return { isValid: true, data: parsed.data };
+}
+
+/**
+ * Validates and normalizes a new AE directory entry
+ * @param body - Request body to validate
+ * @returns Validation result with normalized details, or every field error
+ */
+export function validateAccountExecutive(body: unknown): ValidationResult<AccountExecutive> {
+  return validateWith(accountExecutiveSchema, body);
+}
+
+/**
+ * Validates and normalizes changes to an AE directory entry
+ * @param body - Request body to validate
+ * @returns Validation result with normalized changes, or every field error
+ */
+export function validateAccountExecutivePatch(body: unknown): ValidationResult<AccountExecutivePatch> {
+  return validateWith(accountExecutivePatchSchema, body);
+}
+
+/**
+ * Validates and normalizes a new email template
+ * @param body - Request body to validate
+ * @returns Validation result with normalized copy, or every field error
+ */
+export function validateEmailTemplate(body: unknown): ValidationResult<EmailTemplate> {
+  return validateWith(emailTemplateSchema, body);
+}
+
+/**
+ * Validates and normalizes changes to an email template
+ * @param body - Request body to validate
+ * @returns Validation result with normalized changes, or every field error
+ */
+export function validateEmailTemplatePatch(body: unknown): ValidationResult<Partial<EmailTemplate>> {
+  return validateWith(emailTemplatePatchSchema, body);
+}
+
+/**
+ * Validates a recipient's quote request against the products their guide offers
+ * @param body - Submitted fields, with quantities keyed by SKU
+ * @param offeredSkus - SKUs the guide's quote-request page lists
+ * @returns Validation result with the normalized request, or every field error
+ */
+export function validateQuoteRequest(body: unknown, offeredSkus: string[]): ValidationResult<QuoteRequestSubmission> {
+  const result = validateWith(quoteRequestSchema, body);
+  if (!result.isValid) {
+    return result;
+  }
+
+  const offered = new Set(offeredSkus);
+  const unknownSkus = Object.keys(result.data!.quantities).filter((sku) => !offered.has(sku));
+  if (unknownSkus.length > 0) {
+    const fieldErrors = { quantities: { code: 'unknown_product' as const, message: `Products not offered in this guide: ${unknownSkus.join(', ')}` } };
+    return { isValid: false, error: summarize(fieldErrors), fieldErrors };
+  }
+
+  return result;
+}
+
+/**
+ * Checks the shape of a verified email webhook event
+ * Event types that are not tracked pass as long as they have this shape.
+ * @param body - Parsed webhook body
+ * @returns Validation result with the event, or every field error
+ */
+export function validateEmailWebhookPayload(body: unknown): ValidationResult<EmailWebhookPayload> {
+  return validateWith(emailWebhookSchema, body);
+}
@@ -0,0 +1,162 @@
+/**
+ * Email provider delivery webhooks
+ *
+ * Resend signs webhooks with the Svix scheme: an HMAC-SHA256 over
+ * "<id>.<timestamp>.<body>" keyed with the base64 part of the "whsec_"
+ * signing secret, sent as "v1,<base64 signature>" in the svix-signature
+ * header (several space-separated signatures during secret rotation).
+ * Verified events are matched to a guide by message ID and recorded on it.
+ * Bounces and complaints also put the recipient on the suppression list.
+ */
+
+import crypto from 'crypto';
+import type { EmailEventType, EmailWebhookPayload, GuideDeliveryStatus, GuideRecord } from '../types';
+import { timestamp } from './utils';
+import { findGuideByMessageId, updateGuide } from './guides';
+import { addSuppression } from './suppressions';
+
+// Reject signatures older or newer than this, to stop replays
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// Provider event types we record, and the status each one maps to
+const EVENT_TYPES: Record<string, EmailEventType> = {
+  'email.delivered': 'delivered',
+  'email.opened': 'opened',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+};
+
+// Later stages win; events arriving out of order never move a guide backwards
+const STATUS_RANK: Partial<Record<GuideDeliveryStatus, number>> = {
+  sent: 0,
+  delivered: 1,
+  opened: 2,
+  bounced: 3,
+  complained: 3,
+};
+
+/**
+ * Webhook delivery headers used for signature verification
+ */
+export interface WebhookHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+/**
+ * Computes the Svix signature of a payload
+ * @param secret - Signing secret ("whsec_..." or raw base64)
+ * @param id - Webhook delivery ID
+ * @param sentAt - Unix timestamp in seconds
+ * @param payload - Raw request body
+ * @returns Base64 signature (without the "v1," prefix)
+ */
+export function signWebhookPayload(secret: string, id: string, sentAt: string, payload: string): string {
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  return crypto.createHmac('sha256', key).update(`${id}.${sentAt}.${payload}`).digest('base64');
+}
+
+/**
+ * Verifies a webhook's signature and timestamp
+ * @param secret - Signing secret ("whsec_..." or raw base64)
+ * @param headers - svix-id, svix-timestamp and svix-signature values
+ * @param payload - Raw request body
+ * @param now - Current time, for tests and fixture replay
+ * @returns Object with isValid flag and error message if invalid
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  headers: WebhookHeaders,
+  payload: string,
+  now: Date = new Date()
+): { isValid: boolean; error?: string } {
+  if (!headers.id || !headers.timestamp || !headers.signature) {
+    return { isValid: false, error: 'Missing webhook signature headers' };
+  }
+
+  const sentAt = Number.parseInt(headers.timestamp, 10);
+  if (!Number.isFinite(sentAt) || Math.abs(now.getTime() / 1000 - sentAt) > WEBHOOK_TOLERANCE_SECONDS) {
+    return { isValid: false, error: 'Webhook timestamp outside the allowed window' };
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, headers.id, headers.timestamp, payload));
+
+  const matches = headers.signature.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature) {
+      return false;
+    }
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  });
+
+  return matches ? { isValid: true } : { isValid: false, error: 'Invalid webhook signature' };
+}
+
+/**
+ * Records a verified email event on the guide it belongs to
+ * @param payload - Parsed webhook payload
+ * @param webhookId - Webhook delivery ID (svix-id)
+ * @returns Updated guide, or null when the event type is not tracked or no guide matches
+ */
+export async function applyEmailEvent(payload: EmailWebhookPayload, webhookId: string): Promise<GuideRecord | null> {
+  const type = EVENT_TYPES[payload.type];
+  const messageId = payload.data?.email_id;
+
+  if (!type || !messageId) {
+    return null;
+  }
+
+  const guide = await findGuideByMessageId(messageId);
+  if (!guide) {
+    console.warn(`[${timestamp()}] Webhook ${payload.type} for unknown message ${messageId}`);
+    return null;
+  }
+
+  // Providers retry deliveries; each webhook ID is recorded once
+  const isRecorded = (record: GuideRecord): boolean =>
+    !!record.deliveryEvents?.some((event) => event.webhookId === webhookId);
+
+  if (isRecorded(guide)) {
+    return guide;
+  }
+
+  if (type === 'bounced' || type === 'complained') {
+    await addSuppression(guide.request.recipientEmail, type, {
+      guideId: guide.id,
+      detail: payload.data.bounce?.message,
+    });
+  }
+
+  // Worked out from the record as stored when the update runs, so concurrent events are all kept
+  let recorded = false;
+  const updated = await updateGuide(guide.id, (current) => {
+    if (isRecorded(current)) {
+      return {};
+    }
+
+    recorded = true;
+
+    const currentRank = STATUS_RANK[current.deliveryStatus] ?? -1;
+
+    return {
+      deliveryStatus: STATUS_RANK[type]! >= currentRank ? type : current.deliveryStatus,
+      deliveryEvents: [
+        ...current.deliveryEvents ?? [],
+        {
+          type,
+          occurredAt: payload.created_at,
+          webhookId,
+          detail: payload.data.bounce?.message,
+        },
+      ],
+    };
+  });
+
+  if (updated && recorded) {
+    console.log(`[${timestamp()}] Guide ${guide.id} email ${type} (status: ${updated.deliveryStatus})`);
+  }
+
+  return updated;
+}
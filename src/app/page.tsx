@@ -1,59 +1,265 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
 
 interface FormData {
   companyName: string;
   domain: string;
   recipientEmail: string;
+  aeId: string;
   aeName: string;
   aeEmail: string;
   aePhone: string;
+  themeId: string;
+  locale: string;
+  delivery: "email" | "download" | "both";
+  emailTemplateId: string;
+  personalNote: string;
+  ccAe: boolean;
+  sendAt: string;
+  timezone: string;
+}
+
+// The API key is kept in this browser only
+const API_KEY_STORAGE_KEY = "giftGuideApiKey";
+
+// Wait for a pause in typing before rendering a preview
+const PREVIEW_DELAY_MS = 600;
+
+interface ThemeOption {
+  id: string;
+  name: string;
+  description: string;
+}
+
+interface LocaleOption {
+  id: string;
+  name: string;
+}
+
+interface AccountExecutiveOption {
+  id: string;
+  name: string;
+  email: string;
+  title?: string;
+}
+
+interface EmailTemplateOption {
+  id: string;
+  name: string;
+}
+
+interface FieldError {
+  code: string;
+  message: string;
 }
 
 interface ApiResponse {
   success: boolean;
   message?: string;
   error?: string;
+  fieldErrors?: Partial<Record<keyof FormData, FieldError>>;
   companyName?: string;
   recipientEmail?: string;
+  logoProvider?: string;
+  pdfUrl?: string;
   htmlPreview?: string;
 }
 
+interface PreviewResponse {
+  success: boolean;
+  error?: string;
+  html?: string;
+  logoUrl?: string;
+  logoProvider?: string;
+  colors?: {
+    primary: string;
+    secondary: string;
+    accent?: string;
+  };
+}
+
 export default function Home() {
   const [formData, setFormData] = useState<FormData>({
     companyName: "Nike",
     domain: "nike.com",
     recipientEmail: "test@example.com",
+    aeId: "",
     aeName: "Name",
     aeEmail: "email@test.com",
-    aePhone: "+1-234-0100",
+    aePhone: "+1 212 555 0100",
+    themeId: "classic",
+    locale: "en",
+    delivery: "email",
+    emailTemplateId: "default",
+    personalNote: "",
+    ccAe: false,
+    sendAt: "",
+    timezone: "UTC",
   });
 
+  const [themes, setThemes] = useState<ThemeOption[]>([]);
+  const [locales, setLocales] = useState<LocaleOption[]>([]);
+  const [accountExecutives, setAccountExecutives] = useState<AccountExecutiveOption[]>([]);
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplateOption[]>([]);
+  const [timeZones, setTimeZones] = useState<string[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<ApiResponse["fieldErrors"]>({});
+  const [apiKey, setApiKey] = useState("");
+  const [authError, setAuthError] = useState<string | null>(null);
+
   const [isLoading, setIsLoading] = useState(false);
   const [response, setResponse] = useState<ApiResponse | null>(null);
   const [showResult, setShowResult] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/themes")
+      .then((res) => res.json())
+      .then((data) => setThemes(data.themes ?? []))
+      .catch(() => setThemes([]));
+
+    fetch("/api/locales")
+      .then((res) => res.json())
+      .then((data) => setLocales(data.locales ?? []))
+      .catch(() => setLocales([]));
+
+    setApiKey(localStorage.getItem(API_KEY_STORAGE_KEY) ?? "");
+    setFormData((prev) => ({ ...prev, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }));
+    setTimeZones(Intl.supportedValuesOf("timeZone"));
+  }, []);
+
+  // The AE directory and email templates need an API key, so reload them whenever the key changes
+  useEffect(() => {
+    if (!apiKey) {
+      setAccountExecutives([]);
+      setEmailTemplates([]);
+      return;
+    }
+
+    const headers = { Authorization: `Bearer ${apiKey}` };
+
+    fetch("/api/account-executives", { headers })
+      .then((res) => res.json())
+      .then((data) => setAccountExecutives(data.accountExecutives ?? []))
+      .catch(() => setAccountExecutives([]));
+
+    fetch("/api/email-templates", { headers })
+      .then((res) => res.json())
+      .then((data) => setEmailTemplates(data.emailTemplates ?? []))
+      .catch(() => setEmailTemplates([]));
+  }, [apiKey]);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Re-render the preview once the guide's inputs stop changing
+  const { companyName, domain, themeId, locale, aeId, aeName, aeEmail, aePhone } = formData;
+  useEffect(() => {
+    if (!apiKey || !domain.trim() || showResult) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsPreviewing(true);
+      try {
+        const res = await fetch("/api/preview-guide", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+          body: JSON.stringify({
+            companyName,
+            domain,
+            themeId,
+            locale,
+            ...(aeId ? { aeId } : { aeName, aeEmail, aePhone }),
+          }),
+          signal: controller.signal,
+        });
+        setPreview(await res.json());
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          setPreview({ success: false, error: error instanceof Error ? error.message : "Preview failed" });
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsPreviewing(false);
+        }
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      setIsPreviewing(false);
+    };
+  }, [apiKey, companyName, domain, themeId, locale, aeId, aeName, aeEmail, aePhone, showResult]);
+
+  const handleApiKeyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value.trim();
+    setApiKey(value);
+    setAuthError(null);
+    if (value) {
+      localStorage.setItem(API_KEY_STORAGE_KEY, value);
+    } else {
+      localStorage.removeItem(API_KEY_STORAGE_KEY);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
+    const fieldValue = e.target instanceof HTMLInputElement && e.target.type === "checkbox" ? e.target.checked : value;
+    setFormData((prev) => ({ ...prev, [name]: fieldValue }));
+    setFieldErrors((prev) => ({ ...prev, [name]: undefined }));
   };
 
+  const renderFieldError = (field: keyof FormData) =>
+    fieldErrors?.[field] && (
+      <p style={{ fontSize: "12px", color: "#dc2626", marginTop: "6px", marginBottom: 0 }}>
+        {fieldErrors[field].message}
+      </p>
+    );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setResponse(null);
+    setFieldErrors({});
+    setAuthError(null);
+
+    // A directory AE replaces the free-text AE fields
+    const { aeId, aeName, aeEmail, aePhone, personalNote, sendAt, timezone, ...rest } = formData;
+    const body = {
+      ...rest,
+      ...(aeId ? { aeId } : { aeName, aeEmail, aePhone }),
+      ...(personalNote.trim() ? { personalNote } : {}),
+      ...(sendAt ? { sendAt, timezone } : {}),
+    };
 
     try {
       const res = await fetch("/api/generate-guide", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify(body),
       });
 
       const data: ApiResponse = await res.json();
+
+      // Missing, revoked or under-privileged keys are shown next to the key field
+      if (res.status === 401 || res.status === 403) {
+        setAuthError(data.error ?? "Not authorized");
+        return;
+      }
+
+      // Field problems are shown inline; keep the form open
+      if (!data.success && data.fieldErrors) {
+        setFieldErrors(data.fieldErrors);
+        return;
+      }
+
       setResponse(data);
       setShowResult(true);
     } catch (error) {
@@ -70,6 +276,28 @@ export default function Home() {
   const handleReset = () => {
     setShowResult(false);
     setResponse(null);
+    setDownloadError(null);
+  };
+
+  // The PDF needs the API key, which a plain download link cannot send
+  const handleDownloadPdf = async (pdfUrl: string) => {
+    setDownloadError(null);
+    try {
+      const res = await fetch(pdfUrl, { headers: { Authorization: `Bearer ${apiKey}` } });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? `Download failed (${res.status})`);
+      }
+
+      const objectUrl = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = res.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "gift-guide.pdf";
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(objectUrl), 60_000);
+    } catch (error) {
+      setDownloadError(error instanceof Error ? error.message : "Download failed");
+    }
   };
 
   // Result View with PDF Preview
@@ -129,34 +357,66 @@ export default function Home() {
               )}
               <div>
                 <h1 style={{ fontSize: "20px", fontWeight: "bold", color: "#111827", margin: 0 }}>
-                  {response.success ? "Gift Guide Sent Successfully!" : "Something Went Wrong"}
+                  {response.success
+                    ? formData.delivery === "download"
+                      ? "Gift Guide Generated!"
+                      : "Gift Guide Sent Successfully!"
+                    : "Something Went Wrong"}
                 </h1>
                 <p style={{ fontSize: "14px", color: "#6b7280", margin: "4px 0 0 0" }}>
                   {response.success ? (
                     <>
                       <strong>{response.companyName}</strong> → {response.recipientEmail}
+                      {response.logoProvider && (
+                        <span style={{ marginLeft: "8px", color: "#9ca3af" }}>
+                          (logo: {response.logoProvider})
+                        </span>
+                      )}
                     </>
                   ) : (
                     response.error
                   )}
                 </p>
+                {downloadError && (
+                  <p style={{ fontSize: "13px", color: "#991b1b", margin: "4px 0 0 0" }}>{downloadError}</p>
+                )}
               </div>
             </div>
-            <button
-              onClick={handleReset}
-              style={{
-                backgroundColor: "#2563eb",
-                color: "white",
-                fontWeight: "600",
-                padding: "12px 24px",
-                borderRadius: "8px",
-                border: "none",
-                fontSize: "14px",
-                cursor: "pointer",
-              }}
-            >
-              Generate Another Guide
-            </button>
+            <div style={{ display: "flex", gap: "12px" }}>
+              {response.success && response.pdfUrl && (
+                <button
+                  type="button"
+                  onClick={() => handleDownloadPdf(response.pdfUrl!)}
+                  style={{
+                    backgroundColor: "white",
+                    color: "#2563eb",
+                    fontWeight: "600",
+                    padding: "12px 24px",
+                    borderRadius: "8px",
+                    border: "1px solid #2563eb",
+                    fontSize: "14px",
+                    textDecoration: "none",
+                  }}
+                >
+                  Download PDF
+                </button>
+              )}
+              <button
+                onClick={handleReset}
+                style={{
+                  backgroundColor: "#2563eb",
+                  color: "white",
+                  fontWeight: "600",
+                  padding: "12px 24px",
+                  borderRadius: "8px",
+                  border: "none",
+                  fontSize: "14px",
+                  cursor: "pointer",
+                }}
+              >
+                Generate Another Guide
+              </button>
+            </div>
           </div>
 
           {/* PDF Preview */}
@@ -238,204 +498,575 @@ export default function Home() {
   // Form View
   return (
     <div style={{ minHeight: "100vh", backgroundColor: "#f3f4f6", padding: "48px 16px" }}>
-      <div style={{ maxWidth: "600px", margin: "0 auto" }}>
-        <div
-          style={{
-            backgroundColor: "white",
-            borderRadius: "16px",
-            boxShadow: "0 10px 40px rgba(0,0,0,0.1)",
-            padding: "32px",
-          }}
-        >
-          <div style={{ textAlign: "center", marginBottom: "32px" }}>
-            <h1 style={{ fontSize: "28px", fontWeight: "bold", color: "#111827", marginBottom: "8px" }}>
-              Gift Guide Generator
-            </h1>
-            <p style={{ color: "#6b7280" }}>Generate and email a branded PDF gift guide</p>
-          </div>
+      <div
+        style={{
+          maxWidth: "1100px",
+          margin: "0 auto",
+          display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "center",
+          alignItems: "flex-start",
+          gap: "24px",
+        }}
+      >
+        <div style={{ flex: "1 1 600px", maxWidth: "600px" }}>
+          <div
+            style={{
+              backgroundColor: "white",
+              borderRadius: "16px",
+              boxShadow: "0 10px 40px rgba(0,0,0,0.1)",
+              padding: "32px",
+            }}
+          >
+            <div style={{ textAlign: "center", marginBottom: "32px" }}>
+              <h1 style={{ fontSize: "28px", fontWeight: "bold", color: "#111827", marginBottom: "8px" }}>
+                Gift Guide Generator
+              </h1>
+              <p style={{ color: "#6b7280" }}>Generate and email a branded PDF gift guide</p>
+              <Link href="/history" style={{ fontSize: "14px", fontWeight: "600", color: "#2563eb", textDecoration: "none" }}>
+                View guide history →
+              </Link>
+            </div>
 
-          <form onSubmit={handleSubmit}>
-            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "16px", marginBottom: "16px" }}>
-              <div>
-                <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
-                  Company Name
-                </label>
-                <input
-                  type="text"
-                  name="companyName"
-                  value={formData.companyName}
-                  onChange={handleChange}
-                  required
-                  style={{
-                    width: "100%",
-                    padding: "12px 16px",
-                    border: "1px solid #d1d5db",
-                    borderRadius: "8px",
-                    fontSize: "16px",
-                    boxSizing: "border-box",
-                  }}
-                />
-              </div>
-              <div>
+            <form onSubmit={handleSubmit}>
+              <div style={{ marginBottom: "16px" }}>
                 <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
-                  Domain
+                  API Key
                 </label>
                 <input
-                  type="text"
-                  name="domain"
-                  value={formData.domain}
-                  onChange={handleChange}
+                  type="password"
+                  name="apiKey"
+                  value={apiKey}
+                  onChange={handleApiKeyChange}
+                  placeholder="ggk_…"
+                  autoComplete="off"
                   required
                   style={{
                     width: "100%",
                     padding: "12px 16px",
-                    border: "1px solid #d1d5db",
+                    border: `1px solid ${authError ? "#dc2626" : "#d1d5db"}`,
                     borderRadius: "8px",
                     fontSize: "16px",
                     boxSizing: "border-box",
                   }}
                 />
+                {authError ? (
+                  <p style={{ fontSize: "12px", color: "#dc2626", marginTop: "6px", marginBottom: 0 }}>{authError}</p>
+                ) : (
+                  <p style={{ fontSize: "12px", color: "#6b7280", marginTop: "6px", marginBottom: 0 }}>
+                    Issued by an admin; saved in this browser only.
+                  </p>
+                )}
               </div>
-            </div>
-
-            <div style={{ marginBottom: "16px" }}>
-              <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
-                Recipient Email
-              </label>
-              <input
-                type="email"
-                name="recipientEmail"
-                value={formData.recipientEmail}
-                onChange={handleChange}
-                required
-                style={{
-                  width: "100%",
-                  padding: "12px 16px",
-                  border: "1px solid #d1d5db",
-                  borderRadius: "8px",
-                  fontSize: "16px",
-                  boxSizing: "border-box",
-                }}
-              />
-            </div>
 
-            <div style={{ borderTop: "1px solid #e5e7eb", paddingTop: "24px", marginTop: "24px", marginBottom: "16px" }}>
-              <h2 style={{ fontSize: "18px", fontWeight: "600", color: "#374151", marginBottom: "16px" }}>
-                Account Executive Info
-              </h2>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "16px", marginBottom: "16px" }}>
+                <div>
+                  <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                    Company Name
+                  </label>
+                  <input
+                    type="text"
+                    name="companyName"
+                    value={formData.companyName}
+                    onChange={handleChange}
+                    placeholder="Optional: suggested from the domain"
+                    style={{
+                      width: "100%",
+                      padding: "12px 16px",
+                      border: `1px solid ${fieldErrors?.companyName ? "#dc2626" : "#d1d5db"}`,
+                      borderRadius: "8px",
+                      fontSize: "16px",
+                      boxSizing: "border-box",
+                    }}
+                  />
+                  {renderFieldError("companyName")}
+                </div>
+                <div>
+                  <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                    Domain
+                  </label>
+                  <input
+                    type="text"
+                    name="domain"
+                    value={formData.domain}
+                    onChange={handleChange}
+                    required
+                    style={{
+                      width: "100%",
+                      padding: "12px 16px",
+                      border: `1px solid ${fieldErrors?.domain ? "#dc2626" : "#d1d5db"}`,
+                      borderRadius: "8px",
+                      fontSize: "16px",
+                      boxSizing: "border-box",
+                    }}
+                  />
+                  {renderFieldError("domain")}
+                </div>
+              </div>
 
               <div style={{ marginBottom: "16px" }}>
                 <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
-                  AE Name
+                  Recipient Email
                 </label>
                 <input
-                  type="text"
-                  name="aeName"
-                  value={formData.aeName}
+                  type="email"
+                  name="recipientEmail"
+                  value={formData.recipientEmail}
                   onChange={handleChange}
                   required
                   style={{
                     width: "100%",
                     padding: "12px 16px",
-                    border: "1px solid #d1d5db",
+                    border: `1px solid ${fieldErrors?.recipientEmail ? "#dc2626" : "#d1d5db"}`,
                     borderRadius: "8px",
                     fontSize: "16px",
                     boxSizing: "border-box",
                   }}
                 />
+                {renderFieldError("recipientEmail")}
               </div>
 
-              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "16px" }}>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "16px", marginBottom: "16px" }}>
                 <div>
                   <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
-                    AE Email
+                    Theme
                   </label>
-                  <input
-                    type="email"
-                    name="aeEmail"
-                    value={formData.aeEmail}
+                  <select
+                    name="themeId"
+                    value={formData.themeId}
                     onChange={handleChange}
-                    required
                     style={{
                       width: "100%",
                       padding: "12px 16px",
-                      border: "1px solid #d1d5db",
+                      border: `1px solid ${fieldErrors?.themeId ? "#dc2626" : "#d1d5db"}`,
                       borderRadius: "8px",
                       fontSize: "16px",
                       boxSizing: "border-box",
+                      backgroundColor: "white",
                     }}
-                  />
+                  >
+                    {themes.length === 0 && <option value="classic">Classic</option>}
+                    {themes.map((theme) => (
+                      <option key={theme.id} value={theme.id}>
+                        {theme.name}
+                      </option>
+                    ))}
+                  </select>
+                  {renderFieldError("themeId")}
+                  {themes.find((theme) => theme.id === formData.themeId) && (
+                    <p style={{ fontSize: "12px", color: "#6b7280", marginTop: "6px" }}>
+                      {themes.find((theme) => theme.id === formData.themeId)?.description}
+                    </p>
+                  )}
                 </div>
                 <div>
                   <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
-                    AE Phone
+                    Delivery
                   </label>
-                  <input
-                    type="tel"
-                    name="aePhone"
-                    value={formData.aePhone}
+                  <select
+                    name="delivery"
+                    value={formData.delivery}
                     onChange={handleChange}
-                    required
                     style={{
                       width: "100%",
                       padding: "12px 16px",
-                      border: "1px solid #d1d5db",
+                      border: `1px solid ${fieldErrors?.delivery ? "#dc2626" : "#d1d5db"}`,
                       borderRadius: "8px",
                       fontSize: "16px",
                       boxSizing: "border-box",
+                      backgroundColor: "white",
                     }}
-                  />
+                  >
+                    <option value="email">Email</option>
+                    <option value="download">Download</option>
+                    <option value="both">Email and download</option>
+                  </select>
+                  {renderFieldError("delivery")}
                 </div>
               </div>
-            </div>
 
-            <button
-              type="submit"
-              disabled={isLoading}
-              style={{
-                width: "100%",
-                backgroundColor: isLoading ? "#93c5fd" : "#2563eb",
-                color: "white",
-                fontWeight: "600",
-                padding: "16px 24px",
-                borderRadius: "8px",
-                border: "none",
-                fontSize: "16px",
-                cursor: isLoading ? "not-allowed" : "pointer",
-                marginTop: "24px",
-                display: "flex",
-                alignItems: "center",
-                justifyContent: "center",
-                gap: "8px",
-              }}
-            >
-              {isLoading ? (
-                <>
-                  <svg
-                    style={{ animation: "spin 1s linear infinite", width: "20px", height: "20px" }}
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                  Language
+                </label>
+                <select
+                  name="locale"
+                  value={formData.locale}
+                  onChange={handleChange}
+                  style={{
+                    width: "100%",
+                    padding: "12px 16px",
+                    border: `1px solid ${fieldErrors?.locale ? "#dc2626" : "#d1d5db"}`,
+                    borderRadius: "8px",
+                    fontSize: "16px",
+                    boxSizing: "border-box",
+                    backgroundColor: "white",
+                  }}
+                >
+                  {locales.length === 0 && <option value="en">English</option>}
+                  {locales.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+                {renderFieldError("locale")}
+                <p style={{ fontSize: "12px", color: "#6b7280", marginTop: "6px" }}>
+                  Used for the guide and the default email template. Prices follow the language&apos;s usual format.
+                </p>
+              </div>
+
+              <div style={{ borderTop: "1px solid #e5e7eb", paddingTop: "24px", marginTop: "24px", marginBottom: "16px" }}>
+                <h2 style={{ fontSize: "18px", fontWeight: "600", color: "#374151", marginBottom: "16px" }}>
+                  Account Executive Info
+                </h2>
+
+                <div style={{ marginBottom: "16px" }}>
+                  <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                    Account Executive
+                  </label>
+                  <select
+                    name="aeId"
+                    value={formData.aeId}
+                    onChange={handleChange}
+                    style={{
+                      width: "100%",
+                      padding: "12px 16px",
+                      border: `1px solid ${fieldErrors?.aeId ? "#dc2626" : "#d1d5db"}`,
+                      borderRadius: "8px",
+                      fontSize: "16px",
+                      boxSizing: "border-box",
+                      backgroundColor: "white",
+                    }}
                   >
-                    <circle style={{ opacity: 0.25 }} cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                    <path
-                      style={{ opacity: 0.75 }}
-                      fill="currentColor"
-                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    <option value="">Enter manually</option>
+                    {accountExecutives.map((ae) => (
+                      <option key={ae.id} value={ae.id}>
+                        {ae.title ? `${ae.name} (${ae.title})` : ae.name}
+                      </option>
+                    ))}
+                  </select>
+                  {renderFieldError("aeId")}
+                </div>
+
+                {!formData.aeId && (
+                  <>
+                    <div style={{ marginBottom: "16px" }}>
+                      <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                        AE Name
+                      </label>
+                      <input
+                        type="text"
+                        name="aeName"
+                        value={formData.aeName}
+                        onChange={handleChange}
+                        required
+                        style={{
+                          width: "100%",
+                          padding: "12px 16px",
+                          border: `1px solid ${fieldErrors?.aeName ? "#dc2626" : "#d1d5db"}`,
+                          borderRadius: "8px",
+                          fontSize: "16px",
+                          boxSizing: "border-box",
+                        }}
+                      />
+                      {renderFieldError("aeName")}
+                    </div>
+
+                    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "16px" }}>
+                      <div>
+                        <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                          AE Email
+                        </label>
+                        <input
+                          type="email"
+                          name="aeEmail"
+                          value={formData.aeEmail}
+                          onChange={handleChange}
+                          required
+                          style={{
+                            width: "100%",
+                            padding: "12px 16px",
+                            border: `1px solid ${fieldErrors?.aeEmail ? "#dc2626" : "#d1d5db"}`,
+                            borderRadius: "8px",
+                            fontSize: "16px",
+                            boxSizing: "border-box",
+                          }}
+                        />
+                        {renderFieldError("aeEmail")}
+                      </div>
+                      <div>
+                        <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                          AE Phone
+                        </label>
+                        <input
+                          type="tel"
+                          name="aePhone"
+                          value={formData.aePhone}
+                          onChange={handleChange}
+                          required
+                          style={{
+                            width: "100%",
+                            padding: "12px 16px",
+                            border: `1px solid ${fieldErrors?.aePhone ? "#dc2626" : "#d1d5db"}`,
+                            borderRadius: "8px",
+                            fontSize: "16px",
+                            boxSizing: "border-box",
+                          }}
+                        />
+                        {renderFieldError("aePhone")}
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {formData.delivery !== "download" && (
+                <div style={{ borderTop: "1px solid #e5e7eb", paddingTop: "24px", marginTop: "24px", marginBottom: "16px" }}>
+                  <h2 style={{ fontSize: "18px", fontWeight: "600", color: "#374151", marginBottom: "16px" }}>
+                    Email Message
+                  </h2>
+
+                  <div style={{ marginBottom: "16px" }}>
+                    <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                      Template
+                    </label>
+                    <select
+                      name="emailTemplateId"
+                      value={formData.emailTemplateId}
+                      onChange={handleChange}
+                      style={{
+                        width: "100%",
+                        padding: "12px 16px",
+                        border: `1px solid ${fieldErrors?.emailTemplateId ? "#dc2626" : "#d1d5db"}`,
+                        borderRadius: "8px",
+                        fontSize: "16px",
+                        boxSizing: "border-box",
+                        backgroundColor: "white",
+                      }}
+                    >
+                      {emailTemplates.length === 0 && <option value="default">Default</option>}
+                      {emailTemplates.map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.name}
+                        </option>
+                      ))}
+                    </select>
+                    {renderFieldError("emailTemplateId")}
+                  </div>
+
+                  <div style={{ marginBottom: "16px" }}>
+                    <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                      Personal Note
+                    </label>
+                    <textarea
+                      name="personalNote"
+                      value={formData.personalNote}
+                      onChange={handleChange}
+                      rows={3}
+                      maxLength={1000}
+                      placeholder="Optional note shown above your signature"
+                      style={{
+                        width: "100%",
+                        padding: "12px 16px",
+                        border: `1px solid ${fieldErrors?.personalNote ? "#dc2626" : "#d1d5db"}`,
+                        borderRadius: "8px",
+                        fontSize: "16px",
+                        fontFamily: "inherit",
+                        boxSizing: "border-box",
+                        resize: "vertical",
+                      }}
                     />
-                  </svg>
-                  Generating PDF & Sending Email...
-                </>
-              ) : (
-                "Generate & Send Gift Guide"
+                    {renderFieldError("personalNote")}
+                  </div>
+
+                  <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "14px", color: "#374151" }}>
+                    <input type="checkbox" name="ccAe" checked={formData.ccAe} onChange={handleChange} />
+                    CC the account executive
+                  </label>
+
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "16px", marginTop: "16px" }}>
+                    <div>
+                      <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                        Send At
+                      </label>
+                      <input
+                        type="datetime-local"
+                        name="sendAt"
+                        value={formData.sendAt}
+                        onChange={handleChange}
+                        style={{
+                          width: "100%",
+                          padding: "12px 16px",
+                          border: `1px solid ${fieldErrors?.sendAt ? "#dc2626" : "#d1d5db"}`,
+                          borderRadius: "8px",
+                          fontSize: "16px",
+                          boxSizing: "border-box",
+                        }}
+                      />
+                      {fieldErrors?.sendAt ? (
+                        renderFieldError("sendAt")
+                      ) : (
+                        <p style={{ fontSize: "12px", color: "#6b7280", marginTop: "6px", marginBottom: 0 }}>
+                          Leave empty to send right away.
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <label style={{ display: "block", fontSize: "14px", fontWeight: "500", color: "#374151", marginBottom: "8px" }}>
+                        Recipient Timezone
+                      </label>
+                      <input
+                        type="text"
+                        name="timezone"
+                        value={formData.timezone}
+                        onChange={handleChange}
+                        list="timezones"
+                        disabled={!formData.sendAt}
+                        style={{
+                          width: "100%",
+                          padding: "12px 16px",
+                          border: `1px solid ${fieldErrors?.timezone ? "#dc2626" : "#d1d5db"}`,
+                          borderRadius: "8px",
+                          fontSize: "16px",
+                          boxSizing: "border-box",
+                        }}
+                      />
+                      <datalist id="timezones">
+                        {timeZones.map((timeZone) => (
+                          <option key={timeZone} value={timeZone} />
+                        ))}
+                      </datalist>
+                      {renderFieldError("timezone")}
+                    </div>
+                  </div>
+                </div>
               )}
-            </button>
-          </form>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                style={{
+                  width: "100%",
+                  backgroundColor: isLoading ? "#93c5fd" : "#2563eb",
+                  color: "white",
+                  fontWeight: "600",
+                  padding: "16px 24px",
+                  borderRadius: "8px",
+                  border: "none",
+                  fontSize: "16px",
+                  cursor: isLoading ? "not-allowed" : "pointer",
+                  marginTop: "24px",
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  gap: "8px",
+                }}
+              >
+                {isLoading ? (
+                  <>
+                    <svg
+                      style={{ animation: "spin 1s linear infinite", width: "20px", height: "20px" }}
+                      xmlns="http://www.w3.org/2000/svg"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                    >
+                      <circle style={{ opacity: 0.25 }} cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                      <path
+                        style={{ opacity: 0.75 }}
+                        fill="currentColor"
+                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                      />
+                    </svg>
+                    Generating PDF & Sending Email...
+                  </>
+                ) : (
+                  "Generate & Send Gift Guide"
+                )}
+              </button>
+            </form>
+          </div>
+
+          <p style={{ textAlign: "center", color: "#9ca3af", fontSize: "14px", marginTop: "24px" }}>
+            Logos provided by apistemic logos API
+          </p>
         </div>
 
-        <p style={{ textAlign: "center", color: "#9ca3af", fontSize: "14px", marginTop: "24px" }}>
-          Logos provided by apistemic logos API
-        </p>
+        {/* Live Preview */}
+        <div
+          style={{
+            flex: "0 0 456px",
+            position: "sticky",
+            top: "24px",
+            backgroundColor: "white",
+            borderRadius: "16px",
+            boxShadow: "0 10px 40px rgba(0,0,0,0.1)",
+            overflow: "hidden",
+          }}
+        >
+          <div
+            style={{
+              padding: "16px 24px",
+              borderBottom: "1px solid #e5e7eb",
+              backgroundColor: "#f9fafb",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+            }}
+          >
+            <h2 style={{ fontSize: "16px", fontWeight: "600", color: "#374151", margin: 0 }}>Live Preview</h2>
+            {isPreviewing && <span style={{ fontSize: "12px", color: "#6b7280" }}>Updating…</span>}
+          </div>
+
+          {preview?.success && preview.html ? (
+            <>
+              <div style={{ padding: "16px 24px", display: "flex", alignItems: "center", gap: "16px", borderBottom: "1px solid #e5e7eb" }}>
+                {preview.logoUrl && (
+                  <Image
+                    src={preview.logoUrl}
+                    alt="Logo"
+                    width={48}
+                    height={48}
+                    unoptimized
+                    style={{ objectFit: "contain", border: "1px solid #e5e7eb", borderRadius: "8px" }}
+                  />
+                )}
+                <div style={{ flex: 1 }}>
+                  <p style={{ fontSize: "12px", color: "#6b7280", margin: "0 0 6px 0" }}>Logo: {preview.logoProvider}</p>
+                  <div style={{ display: "flex", gap: "6px" }}>
+                    {[preview.colors?.primary, preview.colors?.secondary, preview.colors?.accent]
+                      .filter((color): color is string => !!color)
+                      .map((color) => (
+                        <span
+                          key={color}
+                          title={color}
+                          style={{ width: "24px", height: "24px", borderRadius: "4px", backgroundColor: color, border: "1px solid #e5e7eb" }}
+                        />
+                      ))}
+                  </div>
+                </div>
+              </div>
+              <div style={{ padding: "12px", backgroundColor: "#e5e7eb", height: "540px", overflow: "hidden" }}>
+                <iframe
+                  srcDoc={preview.html}
+                  style={{
+                    width: "816px",
+                    height: "1056px",
+                    border: "none",
+                    backgroundColor: "white",
+                    transform: "scale(0.5)",
+                    transformOrigin: "top left",
+                  }}
+                  title="Live Preview"
+                />
+              </div>
+            </>
+          ) : (
+            <p style={{ padding: "24px", fontSize: "14px", color: preview?.error ? "#991b1b" : "#6b7280", margin: 0 }}>
+              {preview?.error ?? (apiKey ? "Enter a domain to preview the guide." : "Enter an API key to preview the guide.")}
+            </p>
+          )}
+        </div>
       </div>
 
       <style>{`
@@ -2,16 +2,62 @@
  * TypeScript type definitions for the Gift Guide Generator API
  */
 
+/**
+ * How the generated PDF reaches the recipient
+ * - email: attach it to an email to recipientEmail
+ * - download: keep it for download from /api/guides/:id/pdf
+ * - both: email it and keep it for download
+ */
+export type DeliveryMode = 'email' | 'download' | 'both';
+
 /**
  * Request payload for the generate-guide API endpoint
  */
 export interface GenerateGuideRequest {
+  /** Display name; suggested from the domain when omitted */
   companyName: string;
+  /** Company domain, URL or contact email; normalized to a bare hostname */
   domain: string;
   recipientEmail: string;
+  /** Directory AE (see /api/account-executives); replaces aeName, aeEmail and aePhone */
+  aeId?: string;
+  /** AE fields are required unless aeId is given, and come from the directory when it is */
   aeName: string;
   aeEmail: string;
   aePhone: string;
+  /** Catalog SKUs to feature, in display order */
+  productIds?: string[];
+  /** Catalog categories to feature (used when productIds is omitted) */
+  categories?: string[];
+  /** Catalog tags to feature (used when productIds is omitted) */
+  tags?: string[];
+  /** Quantities to quote, keyed by SKU; adds a quote page to the guide */
+  quantities?: Record<string, number>;
+  /** Explicit logo URL to use instead of looking one up */
+  logoUrl?: string;
+  /** Uploaded logo as a base64 data URI (e.g. "data:image/png;base64,...") */
+  logoDataUri?: string;
+  /** Guide theme ID (see GET /api/themes); defaults to "classic" */
+  themeId?: string;
+  /** BCP 47 language tag for the guide and email (see GET /api/locales); defaults to "en" */
+  locale?: string;
+  /** How to deliver the PDF; defaults to "email" */
+  delivery?: DeliveryMode;
+  /** Stored email template (see /api/email-templates); defaults to the built-in "default" */
+  emailTemplateId?: string;
+  /** Note from the AE shown above the signature */
+  personalNote?: string;
+  /** Copy the AE on the guide email */
+  ccAe?: boolean;
+  /**
+   * When to email the guide: an ISO 8601 time with offset, or a local time
+   * ("2026-11-02T09:00") in `timezone`. Normalized to a UTC ISO string.
+   */
+  sendAt?: string;
+  /** IANA timezone for a local sendAt (e.g. "America/New_York"); defaults to "UTC" */
+  timezone?: string;
+  /** Return a jobId immediately and run the pipeline in the background */
+  async?: boolean;
 }
 
 /**
@@ -22,33 +68,475 @@ export interface GenerateGuideSuccessResponse {
   message: string;
   companyName: string;
   recipientEmail: string;
+  /** Provider that supplied the logo, or "fallback" when none did */
+  logoProvider: LogoSource;
+  /** Guide history ID (see GET /api/guides/:id) */
+  guideId: string;
+  /** Download URL for the PDF, present unless it was only emailed */
+  pdfUrl?: string;
+  /** Why the email was not sent, when the send policy blocked it ("both" delivery) */
+  sendBlocked?: SendPolicyViolation;
+  /** Pending send, when the request gave a sendAt */
+  scheduledSend?: ScheduledSendSummary;
   htmlPreview?: string;
 }
 
+/**
+ * Response from the generate-guide API endpoint in async mode
+ */
+export interface GenerateGuideAcceptedResponse {
+  success: true;
+  jobId: string;
+  statusUrl: string;
+}
+
+/**
+ * Request body for the preview-guide API endpoint
+ * Only the fields that shape the guide; AE details may still be incomplete.
+ */
+export type GuidePreviewRequest = Pick<
+  GenerateGuideRequest,
+  'companyName' | 'domain' | 'aeId' | 'productIds' | 'categories' | 'tags' | 'quantities' | 'logoUrl' | 'logoDataUri' | 'themeId' | 'locale'
+> & Partial<Pick<GenerateGuideRequest, 'aeName' | 'aeEmail' | 'aePhone'>>;
+
+/**
+ * Success response from the preview-guide API endpoint
+ */
+export interface GuidePreviewSuccessResponse {
+  success: true;
+  companyName: string;
+  html: string;
+  /** Logo as embedded in the guide: a data URI, or the generated text logo */
+  logoUrl: string;
+  /** Provider that supplied the logo, or "fallback" when none did */
+  logoProvider: LogoSource;
+  colors: BrandColors;
+}
+
 /**
  * Error response from the generate-guide API endpoint
  */
 export interface GenerateGuideErrorResponse {
   success: false;
   error: string;
+  /** Every invalid request field, present on validation failures */
+  fieldErrors?: FieldErrors;
+  /** Send policy rule that blocked the email, when that is why the request failed */
+  code?: SendPolicyCode;
+  /** Seconds until a rate-limited send may be retried */
+  retryAfterSeconds?: number;
   stack?: string;
 }
 
+/**
+ * Send policy rule that blocked an email
+ * - caller_rate_limited: the API key is sending too fast
+ * - domain_rate_limited: too many emails to the recipient's domain
+ * - daily_cap_reached: the recipient already got the daily maximum
+ * - recipient_suppressed: the address bounced, complained or opted out
+ */
+export type SendPolicyCode =
+  | 'caller_rate_limited'
+  | 'domain_rate_limited'
+  | 'daily_cap_reached'
+  | 'recipient_suppressed';
+
+/**
+ * A send refused by the send policy
+ */
+export interface SendPolicyViolation {
+  code: SendPolicyCode;
+  message: string;
+  /** Seconds until the send may be retried; absent for suppressed recipients */
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Why an address is on the suppression list
+ */
+export type SuppressionReason = 'bounced' | 'complained' | 'unsubscribed' | 'manual';
+
+/**
+ * An address that must not be emailed
+ */
+export interface SuppressionEntry {
+  /** Lowercase email address */
+  email: string;
+  reason: SuppressionReason;
+  createdAt: string;
+  /** Guide whose email led to the suppression */
+  guideId?: string;
+  /** Bounce reason or admin note */
+  detail?: string;
+}
+
+/**
+ * Machine-readable reason a request field failed validation
+ */
+export type ValidationErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_email'
+  | 'invalid_domain'
+  | 'invalid_phone'
+  | 'invalid_url'
+  | 'invalid_logo'
+  | 'invalid_value'
+  | 'unknown_ae'
+  | 'unknown_template'
+  | 'unknown_merge_field'
+  | 'invalid_date'
+  | 'invalid_timezone'
+  | 'send_at_in_past'
+  | 'unknown_theme'
+  | 'unknown_locale'
+  | 'unknown_product'
+  | 'no_products'
+  | 'unpriced_product'
+  | 'mixed_currency';
+
+/**
+ * Validation failure for a single field
+ */
+export interface FieldError {
+  code: ValidationErrorCode;
+  message: string;
+}
+
+/**
+ * Validation failures keyed by request field name
+ */
+export type FieldErrors = Partial<Record<keyof GenerateGuideRequest, FieldError>>;
+
 /**
  * Union type for all possible API responses
  */
 export type GenerateGuideResponse = GenerateGuideSuccessResponse | GenerateGuideErrorResponse;
 
+/**
+ * Outcome of a single row in a batch request
+ * - sent: PDF generated and emailed
+ * - generated: PDF generated but not emailed
+ * - invalid: row failed validation
+ * - blocked: email refused by the send policy; no PDF generated
+ * - failed: pipeline error
+ */
+export type BatchRowStatus = 'sent' | 'generated' | 'invalid' | 'blocked' | 'failed';
+
+/**
+ * Per-row result of a batch request
+ */
+export interface BatchRowResult {
+  /** 1-based row number in the submitted list */
+  row: number;
+  status: BatchRowStatus;
+  companyName?: string;
+  recipientEmail?: string;
+  message?: string;
+  error?: string;
+  /** Invalid fields when status is "invalid" */
+  fieldErrors?: FieldErrors;
+  /** Send policy rule when status is "blocked" */
+  code?: SendPolicyCode;
+}
+
+/**
+ * Counts of row outcomes in a batch request
+ */
+export interface BatchSummary {
+  total: number;
+  sent: number;
+  generated: number;
+  invalid: number;
+  blocked: number;
+  failed: number;
+}
+
+/**
+ * Accepted response from the generate-guide batch endpoint (202)
+ */
+export interface BatchGenerateAcceptedResponse {
+  success: true;
+  batchId: string;
+  /** Poll this URL for progress and per-row results */
+  statusUrl: string;
+}
+
+/**
+ * Background batch job
+ * Timestamps are ISO strings.
+ */
+export interface BatchJob {
+  id: string;
+  status: JobStatus;
+  /** Rows submitted */
+  total: number;
+  /** Rows finished so far */
+  processed: number;
+  results: BatchRowResult[];
+  /** Set once the batch has completed */
+  summary?: BatchSummary;
+  /** Download URL for a ZIP of all generated PDFs (omitted when none were generated) */
+  zipUrl?: string;
+  /** Submitted rows, worked through in order; cleared once the batch has completed */
+  rows: Partial<GenerateGuideRequest>[];
+  /** API key ID of the caller, for send rate limits */
+  callerId?: string;
+  /** AE the caller's API key is tied to, if any */
+  aeEmail?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Batch job as returned by the API, without its rows or caller
+ */
+export type BatchJobSummary = Omit<BatchJob, 'rows' | 'callerId'>;
+
+/**
+ * Pipeline step currently running (Steps 2-6 of the generate-guide handler)
+ */
+export type PipelineStep =
+  | 'fetching-logo'
+  | 'extracting-colors'
+  | 'generating-template'
+  | 'generating-pdf'
+  | 'sending-email';
+
+/**
+ * Lifecycle state of a background guide job
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Background guide generation job
+ * Timestamps are ISO strings.
+ */
+export interface GuideJob {
+  id: string;
+  status: JobStatus;
+  step?: PipelineStep;
+  companyName: string;
+  recipientEmail: string;
+  /** AE signing the guide, for API keys tied to an AE */
+  aeEmail: string;
+  result?: {
+    message: string;
+    emailSent: boolean;
+    logoProvider: LogoSource;
+    guideId: string;
+    pdfUrl?: string;
+    sendBlocked?: SendPolicyViolation;
+    scheduledSend?: ScheduledSendSummary;
+    htmlPreview: string;
+  };
+  error?: string;
+  /** Send policy rule when the job failed because its email was blocked */
+  errorCode?: SendPolicyCode;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Output of the guide generation pipeline for a single request
+ */
+export interface GuidePipelineResult {
+  guideId: string;
+  html: string;
+  pdfBuffer: Buffer;
+  emailSent: boolean;
+  logoProvider: LogoSource;
+  /** Provider message ID when the email was accepted */
+  messageId?: string;
+  /** Download URL when the PDF was stored (download requested, or email not sent) */
+  pdfUrl?: string;
+  /** Send policy violation when the email was blocked */
+  sendBlocked?: SendPolicyViolation;
+  /** Pending send when the email was scheduled */
+  scheduledSend?: ScheduledSendSummary;
+  message: string;
+}
+
+/**
+ * Email events reported by the provider's delivery webhooks
+ */
+export type EmailEventType = 'delivered' | 'opened' | 'bounced' | 'complained';
+
+/**
+ * Email outcome recorded in guide history
+ * - sent: accepted by the email transport
+ * - failed: the transport rejected the email
+ * - skipped: no email attempted (download only, or no transport configured)
+ * - blocked: email refused by the send policy
+ * - delivered, opened, bounced, complained: latest provider webhook event
+ */
+export type GuideDeliveryStatus = 'sent' | 'failed' | 'skipped' | 'blocked' | 'scheduled' | 'cancelled' | EmailEventType;
+
+/**
+ * A delivery event received from the email provider
+ */
+export interface GuideDeliveryEvent {
+  type: EmailEventType;
+  /** When the provider says the event happened */
+  occurredAt: string;
+  /** Webhook delivery ID, used to ignore retries */
+  webhookId: string;
+  /** Provider detail, such as the bounce reason */
+  detail?: string;
+}
+
+/**
+ * Persisted record of one generated guide
+ * The uploaded logo data URI and async flag are not kept in the stored request.
+ */
+export interface GuideRecord {
+  id: string;
+  createdAt: string;
+  request: Omit<GenerateGuideRequest, 'logoDataUri' | 'async'>;
+  colors: BrandColors;
+  logoProvider: LogoSource;
+  /** Original logo URL when the logo came from the network */
+  logoSourceUrl?: string;
+  /** SHA-256 of the rendered PDF (hex) */
+  pdfSha256: string;
+  /** Download URL when the PDF was kept */
+  pdfUrl?: string;
+  previewUrl: string;
+  deliveryStatus: GuideDeliveryStatus;
+  /** Email provider message ID when the email was accepted */
+  messageId?: string;
+  /** When a scheduled email went out (immediate emails are sent at createdAt) */
+  sentAt?: string;
+  /** Scheduled send carrying the email, when the request gave a sendAt */
+  scheduledSendId?: string;
+  emailError?: string;
+  /** Send policy rule when deliveryStatus is "blocked" */
+  sendBlockCode?: SendPolicyCode;
+  /** Provider delivery events, oldest first */
+  deliveryEvents?: GuideDeliveryEvent[];
+  /** Quote shown in the guide when the request gave quantities */
+  quote?: Quote;
+  /** When the guide's quote-request link stops working */
+  quoteLinkExpiresAt?: string;
+}
+
+/**
+ * Email webhook payload as sent by Resend
+ * Only the fields used to update guide history are typed.
+ */
+export interface EmailWebhookPayload {
+  type: string;
+  created_at: string;
+  data: {
+    /** Absent on events that are not about one email */
+    email_id?: string;
+    bounce?: {
+      message?: string;
+    };
+  };
+}
+
+/**
+ * Filters for listing guide history
+ * Text filters are case-insensitive; from/to bound createdAt (inclusive).
+ */
+export interface GuideFilter {
+  company?: string;
+  domain?: string;
+  ae?: string;
+  /** Exact AE email; set for API keys tied to an AE */
+  aeEmail?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Permissions an API key can carry
+ * - generate: create guides (download only without "send")
+ * - send: email guides to recipients
+ * - batch: use the batch endpoint
+ */
+export type ApiKeyScope = 'generate' | 'send' | 'batch';
+
+/**
+ * Stored API key; only the SHA-256 hash of the secret is kept
+ */
+export interface ApiKeyRecord {
+  id: string;
+  /** Who or what the key belongs to (an AE or an integration name) */
+  name: string;
+  /** When set, the key may only generate guides for this AE */
+  aeEmail?: string;
+  scopes: ApiKeyScope[];
+  /** First characters of the key, to recognize it in listings */
+  prefix: string;
+  /** SHA-256 of the full key (hex) */
+  hash: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+/**
+ * API key as returned by the admin API (without its hash)
+ */
+export type ApiKeySummary = Omit<ApiKeyRecord, 'hash'>;
+
+/**
+ * Request payload for issuing an API key
+ */
+export interface IssueApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  aeEmail?: string;
+}
+
+/**
+ * Success response when an API key is issued
+ * The key itself is only ever returned here.
+ */
+export interface IssueApiKeySuccessResponse {
+  success: true;
+  key: string;
+  apiKey: ApiKeySummary;
+}
+
 /**
  * Brand colors extracted from company logo
  */
-export interface BrandColors {
+export interface BaseBrandColors {
   primary: string;
   secondary: string;
   background: string;
   accent?: string;
 }
 
+/**
+ * Brand colors plus derived roles that meet WCAG AA contrast
+ */
+export interface BrandColors extends BaseBrandColors {
+  /** Text placed on a primary-colored fill */
+  textOnPrimary: string;
+  /** Body text on the background */
+  textOnBackground: string;
+  /** Primary adjusted for headings and other text on the background */
+  heading: string;
+  /** Secondary adjusted for text on the background */
+  secondaryText: string;
+  /** De-emphasized text on the background */
+  mutedText: string;
+  /** Primary adjusted for borders and rules on the background */
+  border: string;
+  /** Light wash of the primary for panels */
+  tint: string;
+}
+
 /**
  * Account Executive information
  */
@@ -56,6 +544,141 @@ export interface AccountExecutive {
   name: string;
   email: string;
   phone: string;
+  /** Job title shown under the name (default "Account Executive") */
+  title?: string;
+  /** Headshot image as an http(s) URL or image data URI */
+  headshotUrl?: string;
+  /** Free-text email sign-off, one line per line break */
+  signature?: string;
+  /** Meeting booking link */
+  bookingUrl?: string;
+}
+
+/**
+ * Error response from the AE directory endpoints
+ */
+export interface AccountExecutiveErrorResponse extends Omit<GenerateGuideErrorResponse, 'fieldErrors'> {
+  fieldErrors?: Partial<Record<keyof AccountExecutive, FieldError>>;
+}
+
+/**
+ * Changes to a directory AE; null clears an optional field
+ */
+export type AccountExecutivePatch = { [K in keyof AccountExecutive]?: AccountExecutive[K] | null };
+
+/**
+ * Account Executive stored in the directory
+ */
+export interface AccountExecutiveRecord extends AccountExecutive {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Lifecycle of a scheduled send
+ * - pending: waiting for sendAt
+ * - sending: claimed by the scheduler
+ * - sent / failed: handed to the transport, or rejected by it
+ * - blocked: refused by the send policy at send time
+ * - cancelled: cancelled before it was due
+ */
+export type ScheduledSendStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'blocked' | 'cancelled';
+
+/**
+ * Guide email rendered ahead of time and sent by the scheduler at sendAt
+ */
+export interface ScheduledSend {
+  id: string;
+  guideId: string;
+  status: ScheduledSendStatus;
+  /** Due time (UTC ISO string) */
+  sendAt: string;
+  /** Timezone the sendAt was given in */
+  timezone: string;
+  recipientEmail: string;
+  companyName: string;
+  accountExecutive: AccountExecutive;
+  ccAe?: boolean;
+  /** API key that scheduled the send, for send rate limits */
+  callerId: string;
+  content: EmailContent;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+  messageId?: string;
+  error?: string;
+  /** Send policy rule when status is "blocked" */
+  sendBlockCode?: SendPolicyCode;
+}
+
+/**
+ * Scheduled send as returned by the API, without its rendered email
+ */
+export type ScheduledSendSummary = Omit<ScheduledSend, 'callerId' | 'content'> & { subject: string };
+
+/**
+ * Merge field available in email templates as {{field}}
+ */
+export type MergeField =
+  | 'recipientEmail'
+  | 'companyName'
+  | 'domain'
+  | 'aeName'
+  | 'aeTitle'
+  | 'aeEmail'
+  | 'aePhone'
+  | 'productNames'
+  | 'productCount';
+
+/**
+ * Values substituted for merge fields when an email is rendered
+ */
+export type MergeValues = Record<MergeField, string>;
+
+/**
+ * Email subject and body copy with {{mergeField}} placeholders
+ */
+export interface EmailTemplate {
+  name: string;
+  subject: string;
+  /** Plain text; blank lines separate paragraphs */
+  body: string;
+}
+
+/**
+ * Email template stored in DATA_DIR, or the built-in default
+ */
+export interface EmailTemplateRecord extends EmailTemplate {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Error response from the email template endpoints
+ */
+export interface EmailTemplateErrorResponse extends Omit<GenerateGuideErrorResponse, 'fieldErrors'> {
+  fieldErrors?: Partial<Record<keyof EmailTemplate, FieldError>>;
+}
+
+/**
+ * Rendered guide email
+ */
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Cover thumbnail shown in the guide email
+ */
+export interface EmailCover {
+  /** Content-ID of the inline image attachment */
+  contentId: string;
+  /** Hosted guide the thumbnail links to */
+  linkUrl: string;
 }
 
 /**
@@ -63,18 +686,155 @@ export interface AccountExecutive {
  */
 export interface TemplateData {
   companyName: string;
+  /** Logo image source, normally a data URI so rendering needs no network */
   logoUrl: string;
+  logoProvider: LogoSource;
   colors: BrandColors;
   accountExecutive: AccountExecutive;
+  products: Product[];
+  /** BCP 47 tag the guide is written in */
+  locale?: string;
+  /** Quote rendered on its own page after the products */
+  quote?: Quote;
+  /** Link to the public quote-request page, shown on the closing page */
+  quoteRequestLink?: QuoteRequestLink;
+}
+
+/**
+ * Signed link from a guide to its public quote-request page
+ */
+export interface QuoteRequestLink {
+  url: string;
+  expiresAt: string;
 }
 
 /**
- * Product item for the products page
+ * Quantity break: orders of at least minQuantity pay unitPrice per unit
+ */
+export interface PriceTier {
+  minQuantity: number;
+  unitPrice: number;
+}
+
+/**
+ * Catalog product shown on the products pages
+ * Products give either a basePrice with its currency, formatted per guide
+ * locale, or a free-text price shown as written. Only products with a
+ * basePrice can be quoted.
  */
 export interface Product {
+  sku: string;
   name: string;
-  price: string;
+  category: string;
+  description: string;
   imageUrl: string;
+  /** Lowest unit price, in major units of `currency` */
+  basePrice?: number;
+  /** ISO 4217 currency code of basePrice */
+  currency?: string;
+  /** Free-text price (e.g. "Starting at $18.99"), used when there is no basePrice */
+  price?: string;
+  /** Quantity breaks below basePrice, in any order */
+  priceTiers?: PriceTier[];
+  /** One-time charge per order line (e.g. screens or digitizing), in `currency` */
+  setupFee?: number;
+  tags: string[];
+  active: boolean;
+}
+
+/**
+ * One product on a quote
+ * Amounts are in major units of the quote's currency, rounded to its minor unit.
+ */
+export interface QuoteLineItem {
+  sku: string;
+  name: string;
+  quantity: number;
+  /** Unit price without quantity breaks (the product's basePrice) */
+  listUnitPrice: number;
+  /** Unit price after the quantity break */
+  unitPrice: number;
+  /** Minimum quantity of the price tier applied, if any */
+  tierMinQuantity?: number;
+  /** Saving from the quantity break across the whole line */
+  discount: number;
+  setupFee: number;
+  /** Quantity at unitPrice plus the setup fee */
+  subtotal: number;
+}
+
+/**
+ * Priced quote for the quantities given in a guide request
+ */
+export interface Quote {
+  /** ISO 4217 currency code shared by every line */
+  currency: string;
+  lineItems: QuoteLineItem[];
+  /** Quantities at list price, before discounts and setup fees */
+  listTotal: number;
+  discountTotal: number;
+  setupFeeTotal: number;
+  total: number;
+  issuedAt: string;
+  /** Prices are honored until this time */
+  validUntil: string;
+}
+
+/**
+ * Quote request as submitted from a guide's quote-request page
+ */
+export interface QuoteRequestSubmission {
+  name?: string;
+  email: string;
+  message?: string;
+  /** Units wanted per SKU */
+  quantities: Record<string, number>;
+}
+
+/**
+ * Product and quantity asked for in a quote request
+ */
+export interface QuoteRequestItem {
+  sku: string;
+  name: string;
+  quantity: number;
+}
+
+/**
+ * Outcome of forwarding a quote request to the AE
+ * - pending: stored and being forwarded
+ * - sent: accepted by the email transport
+ * - failed: the transport rejected the email
+ * - not_configured: no email transport is configured
+ */
+export type QuoteRequestForwardStatus = 'pending' | 'sent' | 'failed' | 'not_configured';
+
+/**
+ * Quote request stored with the guide it came from
+ */
+export interface QuoteRequest {
+  id: string;
+  guideId: string;
+  createdAt: string;
+  name?: string;
+  email: string;
+  message?: string;
+  items: QuoteRequestItem[];
+  /** Priced when every product has a base price in one currency */
+  quote?: Quote;
+  forwardStatus: QuoteRequestForwardStatus;
+  /** Email provider message ID when the AE email was accepted */
+  messageId?: string;
+  forwardError?: string;
+}
+
+/**
+ * Product selection criteria taken from a guide request
+ */
+export interface ProductSelection {
+  productIds?: string[];
+  categories?: string[];
+  tags?: string[];
 }
 
 /**
@@ -92,15 +852,44 @@ export interface ExtractedColor {
   intensity: number;
 }
 
+/**
+ * Logo providers, in the order they are tried
+ * - request: logoUrl or logoDataUri supplied with the request
+ * - curated: local directory of curated logos keyed by domain
+ * - apistemic: logos-api.apistemic.com
+ * - site: apple-touch-icon, og:image or favicon scraped from the domain
+ */
+export type LogoProviderId = 'request' | 'curated' | 'apistemic' | 'site';
+
+/**
+ * Where a guide's logo came from; "fallback" when every provider failed
+ */
+export type LogoSource = LogoProviderId | 'fallback';
+
 /**
  * Logo fetch result
  */
 export interface LogoFetchResult {
   success: boolean;
   logoUrl: string | null;
+  /** Provider that supplied the logo (set when success is true) */
+  provider?: LogoProviderId;
   error?: string;
 }
 
+/**
+ * Downloaded logo image, ready to inline and analyze
+ */
+export interface LogoAsset {
+  provider: LogoProviderId;
+  /** Original URL (or data URI) the bytes were loaded from */
+  sourceUrl: string;
+  contentType: string;
+  data: Buffer;
+  /** ISO timestamp of when the bytes were downloaded */
+  fetchedAt: string;
+}
+
 /**
  * Email send result
  */
@@ -109,3 +898,30 @@ export interface EmailSendResult {
   messageId?: string;
   error?: string;
 }
+
+/**
+ * File attached to an outgoing email
+ */
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+  /** Content-ID for an inline image referenced in the HTML as "cid:<contentId>" */
+  contentId?: string;
+}
+
+/**
+ * Transport-independent outgoing email
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain-text alternative to the HTML body */
+  text?: string;
+  replyTo?: string;
+  cc?: string;
+  attachments?: EmailAttachment[];
+  /** Extra headers, such as List-Unsubscribe */
+  headers?: Record<string, string>;
+}
@@ -0,0 +1,17 @@
+/**
+ * Next.js instrumentation hook, run once when a server instance starts
+ */
+
+/**
+ * Checks the data directory and starts the scheduled-send dispatcher in the Node.js runtime
+ */
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Refuse to start on temporary storage in production rather than lose data later
+    const { getDataDir } = await import('./app/lib/storage');
+    getDataDir();
+
+    const { startScheduler } = await import('./app/lib/scheduler');
+    startScheduler();
+  }
+}